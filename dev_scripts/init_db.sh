@@ -56,6 +56,25 @@ sleep 5
 echo "Running database migrations..."
 wrangler d1 execute lite_adserver_db --local --file="migrations/0000_initial_schema.sql"
 wrangler d1 execute lite_adserver_db --local --file="migrations/0001_add_targeting_rule_types.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0002_add_campaign_priority_weight.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0003_add_timezones.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0004_add_location_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0005_add_ip_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0006_add_asn_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0007_add_language_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0008_add_referrer_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0009_add_sub_id_targeting.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0010_add_device_vendor_model.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0011_add_targeting_groups.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0012_add_landing_pages.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0013_add_redirect_overrides.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0014_add_creatives.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0015_add_video_creatives.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0016_add_openrtb_bidding.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0017_add_native_creatives.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0018_add_conversions.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0019_optional_native_creative_size.sql"
+wrangler d1 execute lite_adserver_db --local --file="migrations/0020_deduplicate_openrtb_notices.sql"
 MIGRATION_RESULT=$?
 
 # Stop wrangler dev
@@ -0,0 +1,141 @@
+/**
+ * Micro-benchmark of campaign selection
+ * Compares serving from the full `campaigns` snapshot with serving from the per-zone index of compiled campaigns,
+ * using an in-memory KV that returns the stored JSON text like the real one.
+ * Uncached runs drop the isolate cache before every request; the cached run shows the steady state.
+ *
+ * Usage: npm run benchmark:selection -- [campaigns] [zones] [iterations]
+ */
+
+import { selectEligibleCampaign } from '../../src/services/campaignSelectionService';
+import { buildCampaignIndex, getCampaignIndexKey, serializeCampaignIndex } from '../../src/services/campaignIndexService';
+import { clearSnapshotCache } from '../../src/services/snapshotCacheService';
+import { TARGETING_RULE_TYPES } from '../../src/models/TargetingRule';
+import type { Env } from '../../src/models/interfaces';
+
+const CAMPAIGN_COUNT = parseInt(process.argv[2] ?? '5000', 10);
+const ZONE_COUNT = parseInt(process.argv[3] ?? '50', 10);
+const ITERATIONS = parseInt(process.argv[4] ?? '200', 10);
+
+const COUNTRIES = ['US', 'CA', 'GB', 'DE', 'FR', 'ES', 'IT', 'NL', 'BR', 'MX', 'JP', 'AU', 'IN', 'PL', 'SE'];
+const DEVICE_TYPES = ['desktop', 'mobile', 'tablet'];
+const USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.4 Mobile/15E148 Safari/604.1';
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+function pick<T>(list: T[], count: number): T[] {
+  const copy = [...list];
+  const picked: T[] = [];
+  while (picked.length < count && copy.length > 0) {
+    picked.push(...copy.splice(Math.floor(random() * copy.length), 1));
+  }
+  return picked;
+}
+
+/**
+ * Generate campaigns shaped like the synced KV snapshot
+ * Most campaigns target a few zones, the rest run everywhere
+ */
+function generateCampaigns(): Array<Record<string, unknown> & { id: number; targeting_rules: Array<{ targeting_rule_type_id: number; targeting_method: string; rule: string }> }> {
+  const zoneIds = Array.from({ length: ZONE_COUNT }, (_, i) => i + 1);
+
+  return Array.from({ length: CAMPAIGN_COUNT }, (_, i) => {
+    const rules = [
+      { targeting_rule_type_id: TARGETING_RULE_TYPES.GEO, targeting_method: 'whitelist', rule: pick(COUNTRIES, 3).join(',') },
+      { targeting_rule_type_id: TARGETING_RULE_TYPES.DEVICE_TYPE, targeting_method: 'whitelist', rule: pick(DEVICE_TYPES, 2).join(',') },
+      { targeting_rule_type_id: TARGETING_RULE_TYPES.HOURS, targeting_method: 'whitelist', rule: Array.from({ length: 24 }, (_, h) => h).join(',') },
+      { targeting_rule_type_id: TARGETING_RULE_TYPES.OS, targeting_method: 'blacklist', rule: 'Windows<10' }
+    ];
+    if (random() < 0.8) {
+      rules.push({ targeting_rule_type_id: TARGETING_RULE_TYPES.ZONE_ID, targeting_method: 'whitelist', rule: pick(zoneIds, 3).join(',') });
+    }
+
+    return {
+      id: i + 1,
+      name: `Campaign ${i + 1}`,
+      redirect_url: `https://example.com/landing/${i + 1}`,
+      status: 'active',
+      priority: 1 + Math.floor(random() * 3),
+      weight: 1 + Math.floor(random() * 10),
+      timezone: 'UTC',
+      targeting_rules: rules,
+      targeting_groups: null
+    };
+  });
+}
+
+let kvReads = 0;
+
+/**
+ * Create an environment whose KV serves the given keys
+ */
+function createEnv(values: Map<string, string>): Env {
+  const kv = {
+    get: (key: string, options?: { type?: string }): Promise<unknown> => {
+      kvReads++;
+      const value = values.get(key) ?? null;
+      return Promise.resolve(value !== null && options?.type === 'json' ? JSON.parse(value) : value);
+    }
+  };
+  return { campaigns_zones: kv } as unknown as Env;
+}
+
+async function measure(label: string, env: Env, cached: boolean): Promise<void> {
+  const requests = Array.from({ length: ITERATIONS }, () => new Request(
+    `https://ads.example.com/serve/${1 + Math.floor(random() * ZONE_COUNT)}`,
+    { headers: { 'User-Agent': USER_AGENT, 'CF-IPCountry': pick(COUNTRIES, 1)[0] ?? 'US' } }
+  ));
+
+  // Warm up the JIT before timing
+  for (const request of requests.slice(0, 20)) {
+    await selectEligibleCampaign(request, new URL(request.url).pathname.split('/').pop() ?? '', env);
+  }
+
+  kvReads = 0;
+  const start = process.hrtime.bigint();
+  let served = 0;
+  for (const request of requests) {
+    if (!cached) {
+      clearSnapshotCache();
+    }
+    const campaign = await selectEligibleCampaign(request, new URL(request.url).pathname.split('/').pop() ?? '', env);
+    if (campaign) {
+      served++;
+    }
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  console.log(`${label.padEnd(24)} ${(elapsedMs / ITERATIONS).toFixed(3).padStart(9)} ms/request  ${(kvReads / ITERATIONS).toFixed(2)} KV reads/request  (${served}/${ITERATIONS} served)`);
+}
+
+async function main(): Promise<void> {
+  const campaigns = generateCampaigns();
+  const snapshot = JSON.stringify(campaigns);
+  const zones = Array.from({ length: ZONE_COUNT }, (_, i) => ({ id: i + 1, timezone: 'UTC' }));
+  const indexes = buildCampaignIndex(campaigns, zones);
+
+  const snapshotValues = new Map([['campaigns', snapshot]]);
+  const indexValues = new Map(snapshotValues);
+  for (const index of indexes) {
+    indexValues.set(getCampaignIndexKey(index.zone_id), serializeCampaignIndex(index));
+  }
+
+  const averageIndexSize = indexes.reduce((sum, index) => sum + (indexValues.get(getCampaignIndexKey(index.zone_id))?.length ?? 0), 0) / indexes.length;
+  console.log(`${CAMPAIGN_COUNT} campaigns, ${ZONE_COUNT} zones, ${ITERATIONS} requests`);
+  console.log(`Snapshot size: ${(snapshot.length / 1024).toFixed(0)} KiB, average zone index size: ${(averageIndexSize / 1024).toFixed(0)} KiB`);
+
+  await measure('Full snapshot', createEnv(snapshotValues), false);
+  await measure('Per-zone index', createEnv(indexValues), false);
+  clearSnapshotCache();
+  await measure('Per-zone index, cached', createEnv(indexValues), true);
+}
+
+main().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
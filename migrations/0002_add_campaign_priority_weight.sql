@@ -0,0 +1,6 @@
+-- Add priority tier and rotation weight to campaigns
+-- Higher priority campaigns are always preferred; weight splits traffic within a tier
+ALTER TABLE campaigns ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN weight INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX idx_campaigns_priority ON campaigns(priority);
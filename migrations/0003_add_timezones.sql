@@ -0,0 +1,4 @@
+-- Add IANA time zones used to evaluate weekday and hour targeting rules
+-- A campaign time zone overrides the zone time zone; both default to UTC when unset
+ALTER TABLE campaigns ADD COLUMN timezone TEXT;
+ALTER TABLE zones ADD COLUMN timezone TEXT;
@@ -0,0 +1,16 @@
+-- Add location targeting rule types resolved from request.cf
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (10, 'region', 'Target by region (ISO 3166-2 code, e.g. US-TX)'),
+  (11, 'city', 'Target by city name'),
+  (12, 'postal_code', 'Target by postal code'),
+  (13, 'metro_code', 'Target by metro (DMA) code');
+
+-- Record the same location fields on ad events for reporting
+ALTER TABLE ad_events ADD COLUMN region TEXT;
+ALTER TABLE ad_events ADD COLUMN city TEXT;
+ALTER TABLE ad_events ADD COLUMN postal_code TEXT;
+ALTER TABLE ad_events ADD COLUMN metro_code TEXT;
+
+CREATE INDEX idx_ad_events_region ON ad_events(region);
+CREATE INDEX idx_ad_events_city ON ad_events(city);
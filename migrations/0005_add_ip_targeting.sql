@@ -0,0 +1,4 @@
+-- Add IP address and CIDR range targeting rule type
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (14, 'ip_address', 'Target by IPv4/IPv6 address or CIDR range');
@@ -0,0 +1,10 @@
+-- Add ASN and AS organization targeting rule types
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (15, 'asn', 'Target by Autonomous System Number'),
+  (16, 'as_organization', 'Target by AS organization (ISP) name');
+
+-- Record the ASN on ad events for reporting
+ALTER TABLE ad_events ADD COLUMN asn INTEGER;
+
+CREATE INDEX idx_ad_events_asn ON ad_events(asn);
@@ -0,0 +1,9 @@
+-- Add browser language targeting rule type
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (17, 'language', 'Target by browser language (Accept-Language)');
+
+-- Record the preferred browser language on ad events for reporting
+ALTER TABLE ad_events ADD COLUMN language TEXT;
+
+CREATE INDEX idx_ad_events_language ON ad_events(language);
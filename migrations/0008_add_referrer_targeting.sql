@@ -0,0 +1,4 @@
+-- Add referrer domain targeting rule type
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (18, 'referrer_domain', 'Target by referring domain');
@@ -0,0 +1,4 @@
+-- Add sub_id targeting rule type
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (19, 'sub_id', 'Target by traffic source sub_id');
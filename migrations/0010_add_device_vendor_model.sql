@@ -0,0 +1,11 @@
+-- Add device vendor and model targeting rule types
+INSERT INTO targeting_rule_types (id, name, description)
+VALUES 
+  (20, 'device_vendor', 'Target by device vendor'),
+  (21, 'device_model', 'Target by device model');
+
+-- Record the device vendor and model on ad events for reporting
+ALTER TABLE ad_events ADD COLUMN vendor TEXT;
+ALTER TABLE ad_events ADD COLUMN model TEXT;
+
+CREATE INDEX idx_ad_events_vendor ON ad_events(vendor);
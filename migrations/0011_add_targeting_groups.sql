@@ -0,0 +1,3 @@
+-- Add optional AND/OR targeting rule groups to campaigns
+-- Stored as JSON: {"operator": "and" | "or", "rules": [rule or nested group, ...]}
+ALTER TABLE campaigns ADD COLUMN targeting_groups TEXT;
@@ -0,0 +1,25 @@
+-- Weighted landing pages per campaign for split testing
+CREATE TABLE IF NOT EXISTS landing_pages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  campaign_id INTEGER NOT NULL,
+  name TEXT,
+  url TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 1,
+  active INTEGER CHECK(active IN (0, 1)) NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_landing_pages_campaign_id ON landing_pages(campaign_id);
+
+-- Existing campaigns get their redirect URL as a single landing page
+INSERT INTO landing_pages (campaign_id, url, weight, active, created_at, updated_at)
+SELECT id, redirect_url, 1, 1, created_at, updated_at
+FROM campaigns
+WHERE redirect_url IS NOT NULL AND redirect_url != '';
+
+-- Record which landing page a click was sent to
+ALTER TABLE ad_events ADD COLUMN landing_page_id INTEGER;
+
+CREATE INDEX idx_ad_events_landing_page_id ON ad_events(landing_page_id);
@@ -0,0 +1,3 @@
+-- Add ordered redirect URL overrides by country, device type or OS to campaigns
+-- Stored as JSON: [{"targeting_rule_type_id": 1 | 2 | 5, "rule": "US,CA", "url": "https://..."}, ...]
+ALTER TABLE campaigns ADD COLUMN redirect_overrides TEXT;
@@ -0,0 +1,30 @@
+-- Image and HTML creatives of campaigns, served in banner zones
+-- type is 'image' (image_url is set) or 'html' (html is set)
+CREATE TABLE IF NOT EXISTS creatives (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  campaign_id INTEGER NOT NULL,
+  name TEXT,
+  type TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  image_url TEXT,
+  html TEXT,
+  weight INTEGER NOT NULL DEFAULT 1,
+  active INTEGER CHECK(active IN (0, 1)) NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_creatives_campaign_id ON creatives(campaign_id);
+
+-- Zones declare the ad format they show: 'redirect' (default) or 'banner'
+-- Banner zones also declare the size of their placement
+ALTER TABLE zones ADD COLUMN format TEXT NOT NULL DEFAULT 'redirect';
+ALTER TABLE zones ADD COLUMN width INTEGER;
+ALTER TABLE zones ADD COLUMN height INTEGER;
+
+-- Record which creative an impression or click belongs to
+ALTER TABLE ad_events ADD COLUMN creative_id INTEGER;
+
+CREATE INDEX idx_ad_events_creative_id ON ad_events(creative_id);
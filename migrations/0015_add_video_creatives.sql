@@ -0,0 +1,6 @@
+-- Video creatives for the VAST responses of video zones
+-- creatives.type may now be 'video' and zones.format may now be 'video'
+ALTER TABLE creatives ADD COLUMN media_url TEXT;
+ALTER TABLE creatives ADD COLUMN mime_type TEXT;
+-- Length of the video in seconds
+ALTER TABLE creatives ADD COLUMN duration INTEGER;
@@ -0,0 +1,6 @@
+-- OpenRTB bidding
+-- CPM in USD that a campaign bids in OpenRTB auctions; campaigns without one do not bid
+ALTER TABLE campaigns ADD COLUMN bid_price REAL;
+
+-- Clearing price reported by OpenRTB win and billing notices, as a CPM
+ALTER TABLE ad_events ADD COLUMN price REAL;
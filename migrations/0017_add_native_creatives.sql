@@ -0,0 +1,11 @@
+-- Native creatives for in-feed placements, served as OpenRTB Native 1.2 responses
+-- creatives.type may now be 'native'; its main image is image_url, sized by width and height
+ALTER TABLE creatives ADD COLUMN title TEXT;
+ALTER TABLE creatives ADD COLUMN body TEXT;
+ALTER TABLE creatives ADD COLUMN cta TEXT;
+ALTER TABLE creatives ADD COLUMN icon_url TEXT;
+ALTER TABLE creatives ADD COLUMN sponsor TEXT;
+
+-- zones.format may now be 'native'
+-- Comma-separated assets a creative needs to fill a native zone, e.g. 'title,image,sponsor'
+ALTER TABLE zones ADD COLUMN native_layout TEXT;
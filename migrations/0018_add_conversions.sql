@@ -0,0 +1,6 @@
+-- Conversions reported by advertiser postbacks are ad events of type 'conversion'
+-- Click that led to a conversion; the conversion copies its campaign, zone and landing page
+ALTER TABLE ad_events ADD COLUMN click_id INTEGER;
+
+-- Each click converts at most once
+CREATE UNIQUE INDEX idx_ad_events_conversion_click_id ON ad_events(click_id) WHERE event_type = 'conversion';
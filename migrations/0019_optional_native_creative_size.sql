@@ -0,0 +1,41 @@
+-- Native creatives may leave out the size of their main image, so creatives.width and
+-- creatives.height become nullable; SQLite cannot drop NOT NULL, so the table is rebuilt
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE creatives_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  campaign_id INTEGER NOT NULL,
+  name TEXT,
+  type TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  image_url TEXT,
+  html TEXT,
+  weight INTEGER NOT NULL DEFAULT 1,
+  active INTEGER CHECK(active IN (0, 1)) NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  media_url TEXT,
+  mime_type TEXT,
+  duration INTEGER,
+  title TEXT,
+  body TEXT,
+  cta TEXT,
+  icon_url TEXT,
+  sponsor TEXT,
+  FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+);
+
+INSERT INTO creatives_new (
+  id, campaign_id, name, type, width, height, image_url, html, weight, active, created_at, updated_at,
+  media_url, mime_type, duration, title, body, cta, icon_url, sponsor
+)
+SELECT
+  id, campaign_id, name, type, width, height, image_url, html, weight, active, created_at, updated_at,
+  media_url, mime_type, duration, title, body, cta, icon_url, sponsor
+FROM creatives;
+
+DROP TABLE creatives;
+ALTER TABLE creatives_new RENAME TO creatives;
+
+CREATE INDEX idx_creatives_campaign_id ON creatives(campaign_id);
@@ -0,0 +1,17 @@
+-- OpenRTB win and billing notices carry the ID of the bid they report; a replayed notice
+-- of the same bid is ignored instead of being recorded again
+ALTER TABLE ad_events ADD COLUMN bid_id TEXT;
+
+CREATE UNIQUE INDEX idx_ad_events_notice_bid_id ON ad_events(bid_id, event_type) WHERE bid_id IS NOT NULL;
+
+-- User a bid of a frequency capped campaign was made for, so the win notice can count the
+-- impression without the user key appearing in the notice URL; rows are removed by the win
+-- notice or by the scheduled cleanup
+CREATE TABLE bid_users (
+  bid_id TEXT PRIMARY KEY,
+  user_key TEXT NOT NULL,
+  capping_hours INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_bid_users_created_at ON bid_users(created_at);
@@ -12,11 +12,27 @@ export interface AdEvent {
   user_agent?: string;
   referer?: string;
   country?: string;
+  region?: string;
+  city?: string;
+  postal_code?: string;
+  metro_code?: string;
+  asn?: number;
+  language?: string;
   device_type?: string;
   browser?: string;
   os?: string;
+  vendor?: string;
+  model?: string;
+  landing_page_id?: number;
+  creative_id?: number;
+  click_id?: number; // Click that led to a conversion
 }
 
+// Playback events reported by video players through the tracking URLs of VAST responses
+export const VIDEO_EVENT_TYPES = ['start', 'firstQuartile', 'midpoint', 'thirdQuartile', 'complete'] as const;
+
+export type VideoEventType = typeof VIDEO_EVENT_TYPES[number];
+
 export interface AdEventStats {
   total: number;
   by_event_type: {
@@ -59,7 +75,13 @@ export interface AdEventFilter {
   campaign_id?: number;
   zone_id?: number;
   country?: string;
+  region?: string;
+  city?: string;
+  asn?: number;
+  language?: string;
   device_type?: string;
+  landing_page_id?: number;
+  creative_id?: number;
   start_time?: number;
   end_time?: number;
 } 
\ No newline at end of file
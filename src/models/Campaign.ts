@@ -1,4 +1,7 @@
-import { TargetingRule } from './TargetingRule';
+import { TargetingRule, TargetingRuleGroup } from './TargetingRule';
+import { LandingPage, LandingPageData } from './LandingPage';
+import { RedirectOverride } from './RedirectOverride';
+import { Creative } from './Creative';
 
 /**
  * Campaign model
@@ -11,6 +14,11 @@ export interface Campaign {
   start_date: number;
   end_date?: number;
   status: CampaignStatus;
+  priority: number;
+  weight: number;
+  timezone?: string;
+  // CPM in USD bid in OpenRTB auctions; campaigns without one do not bid
+  bid_price?: number | null;
   created_at: number;
   updated_at: number;
 }
@@ -19,8 +27,16 @@ export type CampaignStatus = 'active' | 'paused' | 'archived';
 
 export type TargetingMethod = 'whitelist' | 'blacklist';
 
+// Defaults applied when a campaign is created without priority or weight
+export const DEFAULT_CAMPAIGN_PRIORITY = 0;
+export const DEFAULT_CAMPAIGN_WEIGHT = 1;
+
 export interface CampaignWithDetails extends Campaign {
   targeting_rules: TargetingRule[];
+  targeting_groups?: TargetingRuleGroup | null;
+  landing_pages: LandingPage[];
+  redirect_overrides: RedirectOverride[];
+  creatives: Creative[];
 }
 
 export interface CampaignStats {
@@ -41,11 +57,18 @@ export interface CreateCampaignRequest {
   redirect_url: string;
   start_date: number;
   end_date?: number;
+  priority?: number;
+  weight?: number;
+  timezone?: string;
+  bid_price?: number | null;
   targeting_rules: {
     targeting_rule_type_id: number;
     targeting_method: TargetingMethod;
     rule: string;
   }[];
+  targeting_groups?: TargetingRuleGroup | null;
+  landing_pages?: LandingPageData[];
+  redirect_overrides?: RedirectOverride[] | null;
 }
 
 export interface UpdateCampaignRequest {
@@ -54,4 +77,10 @@ export interface UpdateCampaignRequest {
   start_date?: number;
   end_date?: number;
   status?: CampaignStatus;
+  priority?: number;
+  weight?: number;
+  timezone?: string | null;
+  bid_price?: number | null;
+  targeting_groups?: TargetingRuleGroup | null;
+  redirect_overrides?: RedirectOverride[] | null;
 } 
\ No newline at end of file
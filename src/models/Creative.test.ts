@@ -0,0 +1,91 @@
+import { findCreativesForSlot, hasNativeAsset, NATIVE_CREATIVE_TYPES, SyncedCreative, validateCreatives } from './Creative';
+
+describe('validateCreatives', () => {
+  it('accepts http and https creative URLs', () => {
+    expect(validateCreatives([
+      { type: 'image', width: 300, height: 250, image_url: 'https://cdn.example.com/banner.png' },
+      { type: 'video', width: 640, height: 360, media_url: 'http://cdn.example.com/ad.mp4', mime_type: 'video/mp4', duration: 15 },
+      { type: 'native', width: 1200, height: 627, title: 'Title', image_url: 'https://cdn.example.com/main.jpg', icon_url: 'https://cdn.example.com/icon.png' }
+    ])).toBeNull();
+  });
+
+  it.each([
+    ['image_url', { type: 'image', width: 300, height: 250, image_url: 'javascript:alert(1)' }],
+    ['image_url', { type: 'image', width: 300, height: 250, image_url: 'data:image/png;base64,AAAA' }],
+    ['media_url', { type: 'video', width: 640, height: 360, media_url: 'ftp://cdn.example.com/ad.mp4', mime_type: 'video/mp4', duration: 15 }],
+    ['image_url', { type: 'native', width: 1200, height: 627, title: 'Title', image_url: 'javascript:alert(1)' }],
+    ['icon_url', { type: 'native', width: 1200, height: 627, title: 'Title', icon_url: 'file:///etc/passwd' }]
+  ])('rejects a %s with another scheme', (field, creative) => {
+    expect(validateCreatives([creative])).toBe(`Creative ${field} must be an http or https URL`);
+  });
+
+  it('accepts native creatives without a size', () => {
+    expect(validateCreatives([{ type: 'native', title: 'Title', image_url: 'https://cdn.example.com/main.jpg' }])).toBeNull();
+    expect(validateCreatives([{ type: 'native', width: null, height: null, title: 'Title' }])).toBeNull();
+  });
+
+  it.each([
+    ['an image creative without a size', { type: 'image', image_url: 'https://cdn.example.com/banner.png' }],
+    ['a native creative with only a width', { type: 'native', width: 1200, title: 'Title' }]
+  ])('rejects %s', (_name, creative) => {
+    expect(validateCreatives([creative])).toBe('Creative width and height must be positive integers');
+  });
+
+  it.each([['image_url', 42], ['icon_url', ['https://cdn.example.com/icon.png']]])('rejects a native %s that is not a string', (field, value) => {
+    expect(validateCreatives([{ type: 'native', title: 'Title', [field]: value }])).toBe(`Creative ${field} must be an http or https URL`);
+  });
+});
+
+describe('native creative validation', () => {
+  it.each([
+    ['no title', { type: 'native', image_url: 'https://cdn.example.com/main.jpg' }, 'Native creatives require a title'],
+    ['a blank title', { type: 'native', title: '  ' }, 'Native creatives require a title'],
+    ['a numeric body', { type: 'native', title: 'Title', body: 42 }, 'Creative body must be a string or null'],
+    ['an object cta', { type: 'native', title: 'Title', cta: { text: 'Buy' } }, 'Creative cta must be a string or null'],
+    ['a boolean sponsor', { type: 'native', title: 'Title', sponsor: true }, 'Creative sponsor must be a string or null']
+  ])('rejects a native creative with %s', (_name, creative, expected) => {
+    expect(validateCreatives([creative])).toBe(expected);
+  });
+
+  it('accepts null optional assets', () => {
+    expect(validateCreatives([{ type: 'native', title: 'Title', body: null, cta: null, sponsor: null, image_url: null, icon_url: null }])).toBeNull();
+  });
+});
+
+describe('findCreativesForSlot', () => {
+  const native = (id: number, fields: Partial<SyncedCreative>): SyncedCreative => ({
+    id,
+    type: 'native',
+    width: null,
+    height: null,
+    image_url: null,
+    html: null,
+    media_url: null,
+    mime_type: null,
+    duration: null,
+    title: 'Title',
+    body: null,
+    cta: null,
+    icon_url: null,
+    sponsor: null,
+    weight: 1,
+    ...fields
+  });
+
+  it('keeps only native creatives with every required asset', () => {
+    const creatives = [
+      native(1, {}),
+      native(2, { image_url: 'https://cdn.example.com/main.jpg' }),
+      native(3, { image_url: 'https://cdn.example.com/main.jpg', cta: 'Buy now' })
+    ];
+
+    const found = findCreativesForSlot(creatives, { types: NATIVE_CREATIVE_TYPES, requiredAssets: ['title', 'image', 'cta'] });
+
+    expect(found.map(({ id }) => id)).toEqual([3]);
+  });
+
+  it('treats empty assets as missing', () => {
+    expect(hasNativeAsset(native(1, { body: '' }), 'body')).toBe(false);
+    expect(hasNativeAsset(native(1, { body: 'Text' }), 'body')).toBe(true);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Creative model
+ * Creatives are the ads a campaign shows in banner, video and native zones; a campaign rotates
+ * between its active creatives that fit the zone by weight
+ */
+
+export type CreativeType = 'image' | 'html' | 'video' | 'native';
+
+export const CREATIVE_TYPES: readonly CreativeType[] = ['image', 'html', 'video', 'native'];
+
+// Creative types that can fill a banner zone
+export const BANNER_CREATIVE_TYPES: readonly CreativeType[] = ['image', 'html'];
+
+// Creative types that can fill a video zone
+export const VIDEO_CREATIVE_TYPES: readonly CreativeType[] = ['video'];
+
+// Creative types that can fill a native zone
+export const NATIVE_CREATIVE_TYPES: readonly CreativeType[] = ['native'];
+
+// Assets of a native creative
+export type NativeAsset = 'title' | 'body' | 'cta' | 'icon' | 'image' | 'sponsor';
+
+export const NATIVE_ASSETS: readonly NativeAsset[] = ['title', 'body', 'cta', 'icon', 'image', 'sponsor'];
+
+export interface Creative {
+  id: number;
+  campaign_id: number;
+  name?: string | null;
+  type: CreativeType;
+  // Size in pixels; for native creatives the size of the main image, null when unknown
+  width: number | null;
+  height: number | null;
+  // Image shown by image creatives, main image of native creatives
+  image_url?: string | null;
+  // Markup of HTML creatives; the {click_url} macro is replaced by the click tracking URL
+  html?: string | null;
+  // Media file, its MIME type and length in seconds of video creatives
+  media_url?: string | null;
+  mime_type?: string | null;
+  duration?: number | null;
+  // Title, description, call to action, icon and sponsor name of native creatives
+  title?: string | null;
+  body?: string | null;
+  cta?: string | null;
+  icon_url?: string | null;
+  sponsor?: string | null;
+  weight: number;
+  active: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Creative fields stored in the KV campaign snapshot
+ */
+export interface SyncedCreative {
+  id: number;
+  type: CreativeType;
+  width: number | null;
+  height: number | null;
+  image_url: string | null;
+  html: string | null;
+  media_url: string | null;
+  mime_type: string | null;
+  duration: number | null;
+  title: string | null;
+  body: string | null;
+  cta: string | null;
+  icon_url: string | null;
+  sponsor: string | null;
+  weight: number;
+}
+
+/**
+ * Creative in sync requests
+ * Creatives with an id update an existing creative, creatives without one are created
+ */
+export interface CreativeData {
+  id?: number;
+  name?: string | null;
+  type: CreativeType;
+  // Optional for native creatives only
+  width?: number | null;
+  height?: number | null;
+  image_url?: string | null;
+  html?: string | null;
+  media_url?: string | null;
+  mime_type?: string | null;
+  duration?: number | null;
+  title?: string | null;
+  body?: string | null;
+  cta?: string | null;
+  icon_url?: string | null;
+  sponsor?: string | null;
+  weight?: number;
+  active?: boolean;
+}
+
+/**
+ * Placement a creative has to fit
+ */
+export interface CreativeSlot {
+  types: readonly CreativeType[];
+  // Exact size in pixels, any size fits when left out
+  width?: number;
+  height?: number;
+  // MIME types the player supports, any video fits when left out
+  mimeTypes?: readonly string[];
+  // Native assets the creative must have
+  requiredAssets?: readonly NativeAsset[];
+}
+
+// Weight of a creative created without one
+export const DEFAULT_CREATIVE_WEIGHT = 1;
+
+/**
+ * Find the creatives that fit a placement
+ * @param creatives Active creatives of a campaign
+ * @param slot Placement to fill
+ * @returns The creatives of an allowed type and the slot's size
+ */
+export function findCreativesForSlot(creatives: SyncedCreative[], slot: CreativeSlot): SyncedCreative[] {
+  return creatives.filter(creative =>
+    slot.types.includes(creative.type) &&
+    (slot.width === undefined || creative.width === slot.width) &&
+    (slot.height === undefined || creative.height === slot.height) &&
+    (slot.mimeTypes === undefined || slot.mimeTypes.includes(creative.mime_type ?? '')) &&
+    (slot.requiredAssets === undefined || slot.requiredAssets.every(asset => hasNativeAsset(creative, asset)))
+  );
+}
+
+/**
+ * Check if a native creative has an asset
+ */
+export function hasNativeAsset(creative: SyncedCreative, asset: NativeAsset): boolean {
+  const fields: Record<NativeAsset, string | null> = {
+    title: creative.title,
+    body: creative.body,
+    cta: creative.cta,
+    icon: creative.icon_url,
+    image: creative.image_url,
+    sponsor: creative.sponsor
+  };
+  return Boolean(fields[asset]);
+}
+
+/**
+ * Check if a value is a positive integer size in pixels
+ */
+export function isValidCreativeSize(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check if a value is an absolute http or https URL
+ * Other schemes such as javascript: or data: must not reach ad markup
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Validate a list of creatives from an API request
+ * @param value The creatives to validate
+ * @returns Error message or null if valid
+ */
+export function validateCreatives(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'Creatives must be an array';
+  }
+
+  for (const creative of value) {
+    if (typeof creative !== 'object' || creative === null || Array.isArray(creative)) {
+      return 'Creatives must be objects';
+    }
+    const entry = creative as Record<string, unknown>;
+
+    if (entry['id'] !== undefined && entry['id'] !== null && (typeof entry['id'] !== 'number' || !Number.isInteger(entry['id']))) {
+      return 'Creative id must be an integer';
+    }
+
+    const type = entry['type'];
+    if (typeof type !== 'string' || !CREATIVE_TYPES.includes(type as CreativeType)) {
+      return `Creative type must be one of: ${CREATIVE_TYPES.join(', ')}`;
+    }
+
+    // Native creatives may leave out the size of their main image
+    const hasNoSize = (entry['width'] ?? null) === null && (entry['height'] ?? null) === null;
+    if (!(type === 'native' && hasNoSize) && (!isValidCreativeSize(entry['width']) || !isValidCreativeSize(entry['height']))) {
+      return 'Creative width and height must be positive integers';
+    }
+
+    if (type === 'image') {
+      const imageUrl = entry['image_url'];
+      if (typeof imageUrl !== 'string' || imageUrl.trim().length === 0) {
+        return 'Image creatives require an image_url';
+      }
+      if (!isHttpUrl(imageUrl)) {
+        return 'Creative image_url must be an http or https URL';
+      }
+    }
+
+    if (type === 'html' && (typeof entry['html'] !== 'string' || entry['html'].trim().length === 0)) {
+      return 'HTML creatives require html markup';
+    }
+
+    if (type === 'video') {
+      const mediaUrl = entry['media_url'];
+      if (typeof mediaUrl !== 'string' || mediaUrl.trim().length === 0) {
+        return 'Video creatives require a media_url';
+      }
+      if (!isHttpUrl(mediaUrl)) {
+        return 'Creative media_url must be an http or https URL';
+      }
+
+      const mimeType = entry['mime_type'];
+      if (typeof mimeType !== 'string' || !/^video\/[\w.+-]+$/.test(mimeType)) {
+        return 'Video creatives require a video mime_type, e.g. video/mp4';
+      }
+
+      const duration = entry['duration'];
+      if (typeof duration !== 'number' || !Number.isInteger(duration) || duration <= 0) {
+        return 'Video creatives require a duration in whole seconds';
+      }
+    }
+
+    if (type === 'native') {
+      if (typeof entry['title'] !== 'string' || entry['title'].trim().length === 0) {
+        return 'Native creatives require a title';
+      }
+      for (const field of ['body', 'cta', 'sponsor']) {
+        if (entry[field] !== undefined && entry[field] !== null && typeof entry[field] !== 'string') {
+          return `Creative ${field} must be a string or null`;
+        }
+      }
+      for (const field of ['image_url', 'icon_url']) {
+        const assetUrl = entry[field];
+        if (assetUrl === undefined || assetUrl === null) {
+          continue;
+        }
+        if (typeof assetUrl !== 'string' || !isHttpUrl(assetUrl)) {
+          return `Creative ${field} must be an http or https URL`;
+        }
+      }
+    }
+
+    if (entry['name'] !== undefined && entry['name'] !== null && typeof entry['name'] !== 'string') {
+      return 'Creative name must be a string or null';
+    }
+
+    const weight = entry['weight'];
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 0)) {
+      return 'Creative weight must be a non-negative integer';
+    }
+
+    if (entry['active'] !== undefined && typeof entry['active'] !== 'boolean') {
+      return 'Creative active must be a boolean';
+    }
+  }
+
+  return null;
+}
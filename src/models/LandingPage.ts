@@ -0,0 +1,86 @@
+/**
+ * Landing page model
+ * A campaign rotates clicks between its active landing pages by weight
+ */
+
+export interface LandingPage {
+  id: number;
+  campaign_id: number;
+  name?: string | null;
+  url: string;
+  weight: number;
+  active: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Landing page fields stored in the KV campaign snapshot
+ */
+export interface SyncedLandingPage {
+  id: number;
+  url: string;
+  weight: number;
+}
+
+/**
+ * Landing page in create and sync requests
+ * Pages with an id update an existing page, pages without one are created
+ */
+export interface LandingPageData {
+  id?: number;
+  name?: string | null;
+  url: string;
+  weight?: number;
+  active?: boolean;
+}
+
+// Weight of a landing page created without one
+export const DEFAULT_LANDING_PAGE_WEIGHT = 1;
+
+/**
+ * Validate a list of landing pages from an API request
+ * @param value The landing pages to validate
+ * @returns Error message or null if valid
+ */
+export function validateLandingPages(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'Landing pages must be an array';
+  }
+
+  for (const page of value) {
+    if (typeof page !== 'object' || page === null || Array.isArray(page)) {
+      return 'Landing pages must be objects';
+    }
+    const entry = page as Record<string, unknown>;
+
+    if (entry['id'] !== undefined && entry['id'] !== null && (typeof entry['id'] !== 'number' || !Number.isInteger(entry['id']))) {
+      return 'Landing page id must be an integer';
+    }
+
+    const url = entry['url'];
+    if (typeof url !== 'string' || url.trim().length === 0) {
+      return 'Landing page URL must be a non-empty string';
+    }
+    try {
+      new URL(url);
+    } catch (e) {
+      return 'Landing page URL must be a valid URL';
+    }
+
+    if (entry['name'] !== undefined && entry['name'] !== null && typeof entry['name'] !== 'string') {
+      return 'Landing page name must be a string or null';
+    }
+
+    const weight = entry['weight'];
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 0)) {
+      return 'Landing page weight must be a non-negative integer';
+    }
+
+    if (entry['active'] !== undefined && typeof entry['active'] !== 'boolean') {
+      return 'Landing page active must be a boolean';
+    }
+  }
+
+  return null;
+}
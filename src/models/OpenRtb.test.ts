@@ -0,0 +1,31 @@
+import { validateBidRequest } from './OpenRtb';
+
+describe('validateBidRequest', () => {
+  it('accepts a bid request with extensions', () => {
+    expect(validateBidRequest({
+      id: 'auction-1',
+      imp: [{ id: '1', banner: { w: 300, h: 250 }, bidfloor: 0.5, ext: { gpid: 'x' } }],
+      device: { ua: 'Mozilla/5.0', ip: '203.0.113.7', geo: { country: 'DEU' } },
+      site: { domain: 'publisher.example.com' },
+      user: { buyeruid: 'abc' },
+      cur: ['USD'],
+      ext: { prebid: {} }
+    })).toBeNull();
+  });
+
+  it.each([
+    ['a non-object', [], 'Bid request must be an object'],
+    ['a missing id', { imp: [{ id: '1' }] }, 'Bid request id is required'],
+    ['no imps', { id: 'a', imp: [] }, 'Bid request must contain at least one imp'],
+    ['an imp without an id', { id: 'a', imp: [{}] }, 'Each imp must be an object with an id'],
+    ['a non-object banner', { id: 'a', imp: [{ id: '1', banner: 'x' }] }, 'imp.banner must be an object'],
+    ['a negative floor', { id: 'a', imp: [{ id: '1', bidfloor: -1 }] }, 'imp.bidfloor must be a non-negative number'],
+    ['a non-object device', { id: 'a', imp: [{ id: '1' }], device: 'x' }, 'device must be an object'],
+    ['a numeric device ip', { id: 'a', imp: [{ id: '1' }], device: { ip: 1 } }, 'device.ua, device.ip, device.ipv6 and device.language must be strings'],
+    ['a numeric country', { id: 'a', imp: [{ id: '1' }], device: { geo: { country: 276 } } }, 'device.geo.country must be a string'],
+    ['a numeric buyeruid', { id: 'a', imp: [{ id: '1' }], user: { buyeruid: 1 } }, 'user.id and user.buyeruid must be strings'],
+    ['a currency string', { id: 'a', imp: [{ id: '1' }], cur: 'USD' }, 'cur must be an array of currency codes']
+  ])('rejects %s', (_name, value, expected) => {
+    expect(validateBidRequest(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * OpenRTB 2.6 model
+ * Only the objects and fields the bidder reads or writes are declared
+ */
+
+// Version sent in the x-openrtb-version header of bid responses
+export const OPENRTB_VERSION = '2.6';
+
+// Currency of campaign bid prices
+export const BID_CURRENCY = 'USD';
+
+// Macro the exchange replaces with the clearing price in win and billing notice URLs
+export const AUCTION_PRICE_MACRO = '${AUCTION_PRICE}';
+
+// Markup types of a bid: 1 for banner, 2 for video
+export const BID_MARKUP_TYPE_BANNER = 1;
+export const BID_MARKUP_TYPE_VIDEO = 2;
+
+export interface BidRequestFormat {
+  w?: number;
+  h?: number;
+}
+
+export interface BidRequestBanner {
+  w?: number;
+  h?: number;
+  // Allowed sizes, in order of preference
+  format?: BidRequestFormat[];
+}
+
+export interface BidRequestVideo {
+  // Supported MIME types, e.g. "video/mp4"
+  mimes?: string[];
+  w?: number;
+  h?: number;
+}
+
+export interface BidRequestImp {
+  id: string;
+  banner?: BidRequestBanner;
+  video?: BidRequestVideo;
+  // Minimum CPM of the impression
+  bidfloor?: number;
+  bidfloorcur?: string;
+}
+
+export interface BidRequestGeo {
+  // ISO 3166-1 alpha-3 country code
+  country?: string;
+}
+
+export interface BidRequestDevice {
+  ua?: string;
+  ip?: string;
+  ipv6?: string;
+  geo?: BidRequestGeo;
+  // ISO 639-1 language code
+  language?: string;
+}
+
+export interface BidRequestSite {
+  domain?: string;
+  page?: string;
+}
+
+export interface BidRequestUser {
+  id?: string;
+  // User ID set by this server and shared with the exchange through cookie syncing
+  buyeruid?: string;
+}
+
+export interface BidRequest {
+  id: string;
+  imp: BidRequestImp[];
+  site?: BidRequestSite;
+  device?: BidRequestDevice;
+  user?: BidRequestUser;
+  // Allowed bid currencies
+  cur?: string[];
+}
+
+export interface Bid {
+  id: string;
+  impid: string;
+  price: number;
+  nurl: string;
+  burl: string;
+  adm: string;
+  adid: string;
+  crid: string;
+  cid: string;
+  adomain: string[];
+  // Size of the creative, left out when it is unknown
+  w?: number;
+  h?: number;
+  mtype: number;
+}
+
+export interface BidResponse {
+  id: string;
+  seatbid: Array<{ bid: Bid[] }>;
+  bidid: string;
+  cur: string;
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if an optional value is a string
+ */
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+/**
+ * Validate the fields of a bid request that the bidder relies on
+ * Unknown fields are ignored, as OpenRTB allows exchanges to send extensions
+ * @param value The parsed request body
+ * @returns Error message or null if valid
+ */
+export function validateBidRequest(value: unknown): string | null {
+  if (!isObject(value)) {
+    return 'Bid request must be an object';
+  }
+
+  if (typeof value['id'] !== 'string' || value['id'].length === 0) {
+    return 'Bid request id is required';
+  }
+
+  const imps = value['imp'];
+  if (!Array.isArray(imps) || imps.length === 0) {
+    return 'Bid request must contain at least one imp';
+  }
+
+  for (const imp of imps) {
+    if (!isObject(imp) || typeof imp['id'] !== 'string') {
+      return 'Each imp must be an object with an id';
+    }
+    if (imp['banner'] !== undefined && !isObject(imp['banner'])) {
+      return 'imp.banner must be an object';
+    }
+    if (imp['video'] !== undefined && !isObject(imp['video'])) {
+      return 'imp.video must be an object';
+    }
+    if (imp['bidfloor'] !== undefined && (typeof imp['bidfloor'] !== 'number' || imp['bidfloor'] < 0)) {
+      return 'imp.bidfloor must be a non-negative number';
+    }
+  }
+
+  for (const field of ['site', 'device', 'user']) {
+    if (value[field] !== undefined && !isObject(value[field])) {
+      return `${field} must be an object`;
+    }
+  }
+
+  const device = value['device'];
+  if (isObject(device)) {
+    if (!isOptionalString(device['ua']) || !isOptionalString(device['ip']) ||
+        !isOptionalString(device['ipv6']) || !isOptionalString(device['language'])) {
+      return 'device.ua, device.ip, device.ipv6 and device.language must be strings';
+    }
+    if (device['geo'] !== undefined && (!isObject(device['geo']) || !isOptionalString(device['geo']['country']))) {
+      return 'device.geo.country must be a string';
+    }
+  }
+
+  const site = value['site'];
+  if (isObject(site) && (!isOptionalString(site['domain']) || !isOptionalString(site['page']))) {
+    return 'site.domain and site.page must be strings';
+  }
+
+  const user = value['user'];
+  if (isObject(user) && (!isOptionalString(user['id']) || !isOptionalString(user['buyeruid']))) {
+    return 'user.id and user.buyeruid must be strings';
+  }
+
+  const cur = value['cur'];
+  if (cur !== undefined && (!Array.isArray(cur) || !cur.every(code => typeof code === 'string'))) {
+    return 'cur must be an array of currency codes';
+  }
+
+  return null;
+}
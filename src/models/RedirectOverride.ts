@@ -0,0 +1,89 @@
+import { TARGETING_RULE_TYPES, validateTargetingRule } from './TargetingRule';
+
+/**
+ * Redirect URL override model
+ * Overrides send the clicks of a campaign to another URL by country, device type or OS.
+ * They are checked in order, the first match wins and the campaign redirect URL is the default.
+ */
+
+export interface RedirectOverride {
+  // GEO, DEVICE_TYPE or OS
+  targeting_rule_type_id: number;
+  // Entries in the format of a targeting rule of the same type, e.g. "US,CA" or "iOS>=16"
+  rule: string;
+  url: string;
+}
+
+// Targeting rule types that redirect URL overrides can be keyed by
+export const REDIRECT_OVERRIDE_RULE_TYPES: readonly number[] = [
+  TARGETING_RULE_TYPES.GEO,
+  TARGETING_RULE_TYPES.DEVICE_TYPE,
+  TARGETING_RULE_TYPES.OS
+];
+
+// Limit on the overrides of one campaign
+export const MAX_REDIRECT_OVERRIDES = 50;
+
+/**
+ * Parse stored redirect URL overrides
+ * @param value JSON text from the campaigns.redirect_overrides column
+ * @returns The overrides in order, empty if the campaign has none
+ * @throws Error if the JSON is malformed
+ */
+export function parseRedirectOverrides(value: string | null | undefined): RedirectOverride[] {
+  if (!value) {
+    return [];
+  }
+  const overrides = JSON.parse(value) as unknown;
+  if (!Array.isArray(overrides)) {
+    throw new Error('Redirect overrides must be an array');
+  }
+  return overrides as RedirectOverride[];
+}
+
+/**
+ * Validate redirect URL overrides from an API request
+ * @param value The overrides to validate
+ * @returns An error message, or null if the overrides are valid
+ */
+export function validateRedirectOverrides(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'Redirect overrides must be an array';
+  }
+  if (value.length > MAX_REDIRECT_OVERRIDES) {
+    return `A campaign can have at most ${MAX_REDIRECT_OVERRIDES} redirect overrides`;
+  }
+
+  for (const override of value) {
+    if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+      return 'Redirect overrides must be objects';
+    }
+    const entry = override as Record<string, unknown>;
+
+    const typeId = entry['targeting_rule_type_id'];
+    if (typeof typeId !== 'number' || !REDIRECT_OVERRIDE_RULE_TYPES.includes(typeId)) {
+      return 'Redirect override targeting_rule_type_id must be geo, device_type or os';
+    }
+
+    const rule = entry['rule'];
+    if (typeof rule !== 'string' || rule.trim().length === 0) {
+      return 'Redirect override rule must be a non-empty string';
+    }
+    const ruleError = validateTargetingRule(typeId, rule);
+    if (ruleError) {
+      return `Invalid redirect override rule: ${ruleError}`;
+    }
+
+    const url = entry['url'];
+    if (typeof url !== 'string' || url.trim().length === 0) {
+      return 'Redirect override URL must be a non-empty string';
+    }
+    try {
+      new URL(url);
+    } catch (e) {
+      return 'Redirect override URL must be a valid URL';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,57 @@
+import { TARGETING_RULE_TYPES, parseUniqueUsersRule, validateTargetingRule } from './TargetingRule';
+
+describe('parseUniqueUsersRule', () => {
+  it('parses visits per hours', () => {
+    expect(parseUniqueUsersRule('3/12')).toEqual({ visits: 3, hours: 12 });
+    expect(parseUniqueUsersRule(' 1 / 24 ')).toEqual({ visits: 1, hours: 24 });
+  });
+
+  it.each(['0/12', '3/0', '-1/12', '3/-2', '1.5/12', '3/abc', '3', '3/12/1', '/12'])('rejects "%s"', rule => {
+    expect(() => parseUniqueUsersRule(rule)).toThrow('Invalid unique_users rule format');
+  });
+});
+
+describe('validateTargetingRule', () => {
+  it('accepts valid weekday, hour, capping and unique_users rules', () => {
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.WEEKDAYS, '1,2,3,4,5')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.HOURS, '0,12,23')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.CAPPING, '5/12')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.UNIQUE_USERS, '3/12')).toBeNull();
+  });
+
+  it('accepts valid location rules', () => {
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.REGION, 'US-TX, de-by,FR-75C')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.CITY, 'Austin,New York')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.POSTAL_CODE, '78701,SW1A 1AA')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.METRO_CODE, '501,803')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.AS_ORGANIZATION, 'Google LLC|Amazon.com, Inc.')).toBeNull();
+  });
+
+  it('accepts valid device rules', () => {
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.DEVICE_VENDOR, 'Apple,Samsung')).toBeNull();
+    expect(validateTargetingRule(TARGETING_RULE_TYPES.DEVICE_MODEL, 'iPhone,SM-G99*')).toBeNull();
+  });
+
+  it.each([
+    ['weekdays', TARGETING_RULE_TYPES.WEEKDAYS, '0,1'],
+    ['weekdays', TARGETING_RULE_TYPES.WEEKDAYS, '8'],
+    ['weekdays', TARGETING_RULE_TYPES.WEEKDAYS, 'mon'],
+    ['hours', TARGETING_RULE_TYPES.HOURS, '24'],
+    ['hours', TARGETING_RULE_TYPES.HOURS, '-1'],
+    ['capping', TARGETING_RULE_TYPES.CAPPING, '5/0'],
+    ['unique_users', TARGETING_RULE_TYPES.UNIQUE_USERS, '0/12'],
+    ['unique_users', TARGETING_RULE_TYPES.UNIQUE_USERS, '3/abc'],
+    ['region', TARGETING_RULE_TYPES.REGION, ''],
+    ['region', TARGETING_RULE_TYPES.REGION, 'TX'],
+    ['region', TARGETING_RULE_TYPES.REGION, 'US-TX,USA-CA'],
+    ['city', TARGETING_RULE_TYPES.CITY, ' , '],
+    ['postal_code', TARGETING_RULE_TYPES.POSTAL_CODE, ','],
+    ['metro_code', TARGETING_RULE_TYPES.METRO_CODE, ''],
+    ['metro_code', TARGETING_RULE_TYPES.METRO_CODE, '501,NYC'],
+    ['as_organization', TARGETING_RULE_TYPES.AS_ORGANIZATION, ' | '],
+    ['device_vendor', TARGETING_RULE_TYPES.DEVICE_VENDOR, ''],
+    ['device_model', TARGETING_RULE_TYPES.DEVICE_MODEL, ' ,, ']
+  ])('rejects the %s rule (type %i) "%s"', (_name, typeId, rule) => {
+    expect(validateTargetingRule(typeId, rule)).not.toBeNull();
+  });
+});
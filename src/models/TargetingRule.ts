@@ -3,6 +3,10 @@
  */
 import { TargetingMethod } from './Campaign';
 import { parseIdList } from '../utils/idValidation';
+import { compileIpRanges, CompiledIpRanges } from '../utils/ipMatching';
+import { normalizeLanguageTag } from '../utils/languageDetection';
+import { NO_REFERRER_TOKEN } from '../utils/referrer';
+import { parseVersion, VersionConstraint, VersionOperator } from '../utils/versionMatching';
 
 export interface TargetingRuleType {
   id: number;
@@ -42,7 +46,19 @@ export const TARGETING_RULE_TYPES = {
   BROWSER: 6,
   WEEKDAYS: 7,
   HOURS: 8,
-  UNIQUE_USERS: 9
+  UNIQUE_USERS: 9,
+  REGION: 10,
+  CITY: 11,
+  POSTAL_CODE: 12,
+  METRO_CODE: 13,
+  IP_ADDRESS: 14,
+  ASN: 15,
+  AS_ORGANIZATION: 16,
+  LANGUAGE: 17,
+  REFERRER_DOMAIN: 18,
+  SUB_ID: 19,
+  DEVICE_VENDOR: 20,
+  DEVICE_MODEL: 21
 };
 
 export function parseGeoRule(rule: string): string[] {
@@ -53,20 +69,56 @@ export function parseDeviceTypeRule(rule: string): string[] {
   return rule.split(',').map(deviceType => deviceType.trim());
 }
 
-export function parseCappingRule(rule: string): number {
-  return parseInt(rule, 10);
+// Window used by capping rules that only specify an impression count
+export const DEFAULT_CAPPING_WINDOW_HOURS = 24;
+
+export function parseCappingRule(rule: string): { impressions: number; hours: number } {
+  // Expects format "impressions" or "impressions/hours", e.g., "5/12" for 5 impressions per 12 hours
+  const parts = rule.split('/');
+  
+  const impressions = parseInt(parts[0]?.trim() ?? '', 10);
+  const hours = parts.length > 1 ? parseInt(parts[1]?.trim() ?? '', 10) : DEFAULT_CAPPING_WINDOW_HOURS;
+  
+  if (parts.length > 2 || isNaN(impressions) || isNaN(hours) || impressions < 0 || hours <= 0) {
+    throw new Error(`Invalid capping rule format: ${rule}. Expected format: "impressions" or "impressions/hours"`);
+  }
+  
+  return { impressions, hours };
 }
 
 export function parseZoneIdRule(rule: string): number[] {
   return parseIdList(rule);
 }
 
-export function parseOsRule(rule: string): string[] {
-  return rule.split(',').map(os => os.trim());
+/**
+ * An OS or browser name with an optional version condition
+ */
+export interface VersionedNameEntry {
+  name: string;
+  version?: VersionConstraint;
+}
+
+function parseVersionedNameEntry(entry: string): VersionedNameEntry {
+  // Supports "iOS", "iOS>=16", "Android<10", "Chrome=120" and "Chrome 110-120"
+  const range = /^(.*?\S)\s+(\d+(?:\.\d+)*)\s*-\s*(\d+(?:\.\d+)*)$/.exec(entry);
+  if (range?.[1] && range[2] && range[3]) {
+    return { name: range[1], version: { operator: 'range', min: parseVersion(range[2]), max: parseVersion(range[3]) } };
+  }
+  
+  const comparison = /^(.*?\S)\s*(>=|<=|>|<|=)\s*(\d+(?:\.\d+)*)$/.exec(entry);
+  if (comparison?.[1] && comparison[2] && comparison[3]) {
+    return { name: comparison[1], version: { operator: comparison[2] as VersionOperator, version: parseVersion(comparison[3]) } };
+  }
+  
+  return { name: entry };
+}
+
+export function parseOsRule(rule: string): VersionedNameEntry[] {
+  return rule.split(',').map(os => parseVersionedNameEntry(os.trim()));
 }
 
-export function parseBrowserRule(rule: string): string[] {
-  return rule.split(',').map(browser => browser.trim());
+export function parseBrowserRule(rule: string): VersionedNameEntry[] {
+  return rule.split(',').map(browser => parseVersionedNameEntry(browser.trim()));
 }
 
 export function parseWeekdaysRule(rule: string): number[] {
@@ -83,12 +135,333 @@ export function parseUniqueUsersRule(rule: string): { visits: number; hours: num
   // Expects format "visits/hours", e.g., "3/12" for 3 visits per 12 hours
   const parts = rule.split('/');
   
-  const visits = parseInt(parts[0]?.trim() ?? '0', 10);
-  const hours = parseInt(parts[1]?.trim() ?? '0', 10);
+  const visits = Number(parts[0]?.trim());
+  const hours = Number(parts[1]?.trim());
   
-  if (parts.length !== 2 || isNaN(visits) || isNaN(hours)) {
-    throw new Error(`Invalid unique_users rule format: ${rule}. Expected format: "visits/hours"`);
+  if (parts.length !== 2 || !Number.isInteger(visits) || !Number.isInteger(hours) || visits <= 0 || hours <= 0) {
+    throw new Error(`Invalid unique_users rule format: ${rule}. Expected format: "visits/hours" with positive whole numbers`);
   }
   
   return { visits, hours };
-} 
\ No newline at end of file
+}
+
+export function parseRegionRule(rule: string): string[] {
+  // Expects comma-separated ISO 3166-2 codes, e.g. "US-TX,DE-BY"
+  return rule.split(',').map(region => region.trim().toUpperCase()).filter(Boolean);
+}
+
+export function parseCityRule(rule: string): string[] {
+  // City names are matched case-insensitively
+  return rule.split(',').map(city => normalizeCity(city)).filter(Boolean);
+}
+
+export function parsePostalCodeRule(rule: string): string[] {
+  // Postal codes are matched ignoring case and whitespace, e.g. "SW1A 1AA" equals "sw1a1aa"
+  return rule.split(',').map(postalCode => normalizePostalCode(postalCode)).filter(Boolean);
+}
+
+export function parseMetroCodeRule(rule: string): string[] {
+  // Expects comma-separated metro (DMA) codes, e.g. "501,803"
+  return rule.split(',').map(metroCode => metroCode.trim()).filter(Boolean);
+}
+
+export function normalizeCity(city: string): string {
+  return city.trim().toLowerCase();
+}
+
+export function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/\s+/g, '').toUpperCase();
+}
+
+export function parseIpRule(rule: string): string[] {
+  // Expects comma-separated IPv4/IPv6 addresses and CIDR blocks, e.g. "203.0.113.7,10.0.0.0/8,2001:db8::/32"
+  return rule.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+export function parseAsnRule(rule: string): number[] {
+  // Expects comma-separated AS numbers with an optional "AS" prefix, e.g. "13335,AS15169"
+  return rule.split(',')
+    .map(asn => asn.trim().replace(/^AS/i, ''))
+    .filter(asn => /^\d+$/.test(asn))
+    .map(asn => parseInt(asn, 10));
+}
+
+export function parseAsOrganizationRule(rule: string): string[] {
+  // Organization names are matched case-insensitively as substrings, e.g. "amazon" matches "Amazon.com, Inc."
+  // Entries are separated by "|" because organization names often contain commas
+  return rule.split('|').map(organization => organization.trim().toLowerCase()).filter(Boolean);
+}
+
+export type LanguageMatchMode = 'first' | 'any';
+
+export function parseLanguageRule(rule: string): { mode: LanguageMatchMode; languages: string[] } {
+  // Expects comma-separated language tags with an optional mode prefix, e.g. "en,de,pt-BR" or "first:en,de"
+  // "first" only matches the most preferred browser language, "any" (the default) matches any preference
+  const match = /^\s*(first|any)\s*:(.*)$/i.exec(rule);
+  const mode = (match?.[1]?.toLowerCase() ?? 'any') as LanguageMatchMode;
+  const list = match ? match[2] ?? '' : rule;
+  
+  const entries = list.split(',').map(entry => entry.trim()).filter(Boolean);
+  const languages = entries.map(entry => normalizeLanguageTag(entry));
+  if (entries.length === 0 || languages.some(language => !language)) {
+    throw new Error(`Invalid language rule format: ${rule}. Expected format: "en,de,pt-BR" optionally prefixed with "first:" or "any:"`);
+  }
+  
+  return { mode, languages };
+}
+
+export function parseReferrerDomainRule(rule: string): string[] {
+  // Expects comma-separated hostnames, e.g. "example.com,*.example.org,(none)"
+  // "*." matches any subdomain and "(none)" matches requests without a referrer
+  const domains = rule.split(',').map(domain => domain.trim().toLowerCase().replace(/\.$/, '')).filter(Boolean);
+  
+  const invalid = domains.find(domain =>
+    domain !== NO_REFERRER_TOKEN && !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain)
+  );
+  if (domains.length === 0 || invalid !== undefined) {
+    throw new Error(`Invalid referrer domain rule format: ${rule}. Expected comma-separated hostnames such as "example.com", "*.example.com" or "${NO_REFERRER_TOKEN}"`);
+  }
+  
+  return domains;
+}
+
+export function parseSubIdRule(rule: string): string[] {
+  // Expects comma-separated sub_ids or wildcard patterns, e.g. "fb_123,google_*,src-??-*"
+  return rule.split(',').map(subId => subId.trim()).filter(Boolean);
+}
+
+export function parseDeviceVendorRule(rule: string): string[] {
+  // Vendors are matched case-insensitively, e.g. "Apple,Samsung"
+  return rule.split(',').map(vendor => vendor.trim().toLowerCase()).filter(Boolean);
+}
+
+export function parseDeviceModelRule(rule: string): string[] {
+  // Models are matched case-insensitively and may use "*" and "?" wildcards, e.g. "iPhone,SM-G99*"
+  return rule.split(',').map(model => model.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Validate the rule string of a targeting rule
+ * @param targetingRuleTypeId Targeting rule type ID
+ * @param rule Rule string
+ * @returns An error message, or null if the rule is valid
+ */
+export function validateTargetingRule(targetingRuleTypeId: number, rule: string): string | null {
+  try {
+    switch (targetingRuleTypeId) {
+      case TARGETING_RULE_TYPES.WEEKDAYS: {
+        const invalid = parseWeekdaysRule(rule).some(day => !Number.isInteger(day) || day < 1 || day > 7);
+        if (invalid) {
+          return `Invalid weekdays rule format: ${rule}. Expected comma-separated days of week from 1 (Monday) to 7 (Sunday)`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.HOURS: {
+        const invalid = parseHoursRule(rule).some(hour => !Number.isInteger(hour) || hour < 0 || hour > 23);
+        if (invalid) {
+          return `Invalid hours rule format: ${rule}. Expected comma-separated hours from 0 to 23`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.CAPPING:
+        parseCappingRule(rule);
+        break;
+      case TARGETING_RULE_TYPES.UNIQUE_USERS:
+        parseUniqueUsersRule(rule);
+        break;
+      case TARGETING_RULE_TYPES.OS:
+      case TARGETING_RULE_TYPES.BROWSER: {
+        const invalid = parseOsRule(rule).find(entry => /[<>=]/.test(entry.name));
+        if (invalid) {
+          return `Invalid version condition: ${invalid.name}. Expected format: "Name", "Name>=16", "Name<10" or "Name 110-120"`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.IP_ADDRESS: {
+        const entries = parseIpRule(rule);
+        if (entries.length === 0) {
+          return 'IP rule must contain at least one address or CIDR range';
+        }
+        compileIpRanges(entries);
+        break;
+      }
+      case TARGETING_RULE_TYPES.LANGUAGE:
+        parseLanguageRule(rule);
+        break;
+      case TARGETING_RULE_TYPES.REFERRER_DOMAIN:
+        parseReferrerDomainRule(rule);
+        break;
+      case TARGETING_RULE_TYPES.SUB_ID:
+        if (parseSubIdRule(rule).length === 0) {
+          return 'sub_id rule must contain at least one sub_id or pattern';
+        }
+        break;
+      case TARGETING_RULE_TYPES.REGION: {
+        const entries = parseRegionRule(rule);
+        if (entries.length === 0 || entries.some(region => !/^[A-Z]{2}-[A-Z0-9]{1,3}$/.test(region))) {
+          return `Invalid region rule format: ${rule}. Expected comma-separated ISO 3166-2 codes such as "US-TX"`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.CITY:
+        if (parseCityRule(rule).length === 0) {
+          return 'City rule must contain at least one city';
+        }
+        break;
+      case TARGETING_RULE_TYPES.POSTAL_CODE:
+        if (parsePostalCodeRule(rule).length === 0) {
+          return 'Postal code rule must contain at least one postal code';
+        }
+        break;
+      case TARGETING_RULE_TYPES.METRO_CODE: {
+        const entries = parseMetroCodeRule(rule);
+        if (entries.length === 0 || entries.some(metroCode => !/^\d+$/.test(metroCode))) {
+          return `Invalid metro code rule format: ${rule}. Expected comma-separated numeric metro (DMA) codes`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.ASN: {
+        const entries = rule.split(',').map(asn => asn.trim()).filter(Boolean);
+        if (entries.length === 0 || parseAsnRule(rule).length !== entries.length) {
+          return `Invalid ASN rule format: ${rule}. Expected comma-separated AS numbers`;
+        }
+        break;
+      }
+      case TARGETING_RULE_TYPES.AS_ORGANIZATION:
+        if (parseAsOrganizationRule(rule).length === 0) {
+          return 'AS organization rule must contain at least one organization name';
+        }
+        break;
+      case TARGETING_RULE_TYPES.DEVICE_VENDOR:
+        if (parseDeviceVendorRule(rule).length === 0) {
+          return 'Device vendor rule must contain at least one vendor';
+        }
+        break;
+      case TARGETING_RULE_TYPES.DEVICE_MODEL:
+        if (parseDeviceModelRule(rule).length === 0) {
+          return 'Device model rule must contain at least one model';
+        }
+        break;
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
+
+export type TargetingGroupOperator = 'and' | 'or';
+
+/**
+ * A single rule inside a targeting rule group
+ */
+export interface TargetingRuleCondition {
+  targeting_rule_type_id: number;
+  targeting_method: TargetingMethod;
+  rule: string;
+  // Precompiled ranges of IP address rules, added by the sync
+  ip_ranges?: CompiledIpRanges;
+  // The parsed rule, added by the sync to zone indexes and when a campaign snapshot is loaded;
+  // only the fields of the rule's type are set
+  // Entries of rules matched by exact value, as stored in KV and as a set for lookups
+  values?: Array<string | number>;
+  value_set?: ReadonlySet<string | number>;
+  // Entries of OS and browser rules
+  names?: VersionedNameEntry[];
+  // Entries of sub_id, device model, referrer domain and AS organization rules
+  patterns?: string[];
+  // Mode and languages of language rules
+  language_rule?: { mode: LanguageMatchMode; languages: string[] };
+}
+
+/**
+ * A tree of rules combined with AND/OR, e.g. (US and mobile) or (DE and desktop)
+ */
+export interface TargetingRuleGroup {
+  operator: TargetingGroupOperator;
+  rules: Array<TargetingRuleCondition | TargetingRuleGroup>;
+}
+
+// Limits that keep rule groups cheap to evaluate on every request
+export const MAX_TARGETING_GROUP_DEPTH = 5;
+export const MAX_TARGETING_GROUP_RULES = 100;
+
+// Per-user limits are enforced after targeting, so they cannot be combined with OR
+const NON_GROUPABLE_RULE_TYPES = [TARGETING_RULE_TYPES.CAPPING, TARGETING_RULE_TYPES.UNIQUE_USERS];
+
+export function isTargetingRuleGroup(node: TargetingRuleCondition | TargetingRuleGroup): node is TargetingRuleGroup {
+  return 'operator' in node;
+}
+
+/**
+ * Parse a stored targeting rule group
+ * @param value JSON text from the campaigns.targeting_groups column
+ * @returns The group, or null if the campaign has none
+ * @throws Error if the JSON is malformed
+ */
+export function parseTargetingRuleGroup(value: string | null | undefined): TargetingRuleGroup | null {
+  if (!value) {
+    return null;
+  }
+  return JSON.parse(value) as TargetingRuleGroup;
+}
+
+/**
+ * Validate a targeting rule group from an API request
+ * @param value The group to validate
+ * @returns An error message, or null if the group is valid
+ */
+export function validateTargetingRuleGroup(value: unknown): string | null {
+  let ruleCount = 0;
+  
+  const validateNode = (node: unknown, depth: number): string | null => {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      return 'Targeting group entries must be objects';
+    }
+    const entry = node as Record<string, unknown>;
+    
+    if ('operator' in entry) {
+      if (depth > MAX_TARGETING_GROUP_DEPTH) {
+        return `Targeting groups can be nested at most ${MAX_TARGETING_GROUP_DEPTH} levels deep`;
+      }
+      if (entry['operator'] !== 'and' && entry['operator'] !== 'or') {
+        return 'Targeting group operator must be "and" or "or"';
+      }
+      const rules = entry['rules'];
+      if (!Array.isArray(rules) || rules.length === 0) {
+        return 'Targeting group rules must be a non-empty array';
+      }
+      for (const child of rules) {
+        const error = validateNode(child, depth + 1);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    
+    ruleCount++;
+    if (ruleCount > MAX_TARGETING_GROUP_RULES) {
+      return `Targeting groups can contain at most ${MAX_TARGETING_GROUP_RULES} rules`;
+    }
+    const typeId = entry['targeting_rule_type_id'];
+    if (typeof typeId !== 'number' || !Object.values(TARGETING_RULE_TYPES).includes(typeId)) {
+      return 'Targeting group rule has an unknown targeting_rule_type_id';
+    }
+    if (NON_GROUPABLE_RULE_TYPES.includes(typeId)) {
+      return 'Capping and unique_users rules cannot be used in targeting groups';
+    }
+    if (entry['targeting_method'] !== 'whitelist' && entry['targeting_method'] !== 'blacklist') {
+      return 'Invalid targeting_method, must be "whitelist" or "blacklist"';
+    }
+    if (typeof entry['rule'] !== 'string' || entry['rule'].trim() === '') {
+      return 'Targeting group rule must have a non-empty rule string';
+    }
+    const ruleError = validateTargetingRule(typeId, entry['rule']);
+    return ruleError ? `Invalid targeting rule: ${ruleError}` : null;
+  };
+  
+  if (typeof value !== 'object' || value === null || !('operator' in value)) {
+    return 'Targeting groups must be an object with an operator and rules';
+  }
+  return validateNode(value, 1);
+}
\ No newline at end of file
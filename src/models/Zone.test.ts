@@ -0,0 +1,24 @@
+import { parseNativeLayout, validateNativeLayout } from './Zone';
+
+describe('validateNativeLayout', () => {
+  it('accepts a list of assets and null', () => {
+    expect(validateNativeLayout('title, image,cta')).toBeNull();
+    expect(validateNativeLayout(null)).toBeNull();
+  });
+
+  it.each([
+    ['', 'Native layout must be a comma-separated list of assets or null'],
+    [['title'], 'Native layout must be a comma-separated list of assets or null'],
+    ['title,video', 'Native layout assets must be among: title, body, cta, icon, image, sponsor']
+  ])('rejects %j', (layout, expected) => {
+    expect(validateNativeLayout(layout)).toBe(expected);
+  });
+});
+
+describe('parseNativeLayout', () => {
+  it('splits the layout and falls back to the default one', () => {
+    expect(parseNativeLayout('title, image')).toEqual(['title', 'image']);
+    expect(parseNativeLayout(null)).toEqual(parseNativeLayout(undefined));
+    expect(parseNativeLayout(null).length).toBeGreaterThan(0);
+  });
+});
@@ -1,3 +1,5 @@
+import { isValidCreativeSize, NativeAsset, NATIVE_ASSETS } from './Creative';
+
 /**
  * Zone model
  */
@@ -7,6 +9,13 @@ export interface Zone {
   name: string;
   site_url?: string;
   traffic_back_url?: string;
+  timezone?: string;
+  format: ZoneFormat;
+  // Placement size in pixels, required for banner zones
+  width?: number | null;
+  height?: number | null;
+  // Comma-separated assets a creative needs to fill a native zone, e.g. "title,image,sponsor"
+  native_layout?: string | null;
   status: ZoneStatus;
   created_at: number;
   updated_at: number;
@@ -14,6 +23,17 @@ export interface Zone {
 
 export type ZoneStatus = 'active' | 'inactive';
 
+// Redirect zones send visitors to the campaign; banner zones render a creative of their size;
+// video zones return VAST documents for video players; native zones return native ad assets
+export type ZoneFormat = 'redirect' | 'banner' | 'video' | 'native';
+
+export const ZONE_FORMATS: readonly ZoneFormat[] = ['redirect', 'banner', 'video', 'native'];
+
+export const DEFAULT_ZONE_FORMAT: ZoneFormat = 'redirect';
+
+// Assets required by native zones without a layout
+export const DEFAULT_NATIVE_LAYOUT: readonly NativeAsset[] = ['title', 'image'];
+
 export interface ZoneStats {
   zone_id: number;
   total_impressions: number;
@@ -33,11 +53,79 @@ export interface CreateZoneRequest {
   name: string;
   site_url?: string;
   traffic_back_url?: string;
+  timezone?: string;
+  format?: ZoneFormat;
+  width?: number | null;
+  height?: number | null;
+  native_layout?: string | null;
 }
 
 export interface UpdateZoneRequest {
   name?: string;
   site_url?: string;
   traffic_back_url?: string;
+  timezone?: string | null;
+  format?: ZoneFormat;
+  width?: number | null;
+  height?: number | null;
+  native_layout?: string | null;
   status?: ZoneStatus;
-} 
\ No newline at end of file
+}
+
+/**
+ * Validate the format and size of a zone
+ * @param format Zone format
+ * @param width Placement width, null when not set
+ * @param height Placement height, null when not set
+ * @returns Error message or null if valid
+ */
+export function validateZoneFormat(format: unknown, width: unknown, height: unknown): string | null {
+  if (typeof format !== 'string' || !ZONE_FORMATS.includes(format as ZoneFormat)) {
+    return `Format must be one of: ${ZONE_FORMATS.join(', ')}`;
+  }
+
+  if ((width !== null && !isValidCreativeSize(width)) || (height !== null && !isValidCreativeSize(height))) {
+    return 'Width and height must be positive integers or null';
+  }
+
+  if (format === 'banner' && (width === null || height === null)) {
+    return 'Banner zones require a width and height';
+  }
+
+  return null;
+}
+
+/**
+ * Validate the native layout of a zone
+ * @param layout Comma-separated native assets, null for the default layout
+ * @returns Error message or null if valid
+ */
+export function validateNativeLayout(layout: unknown): string | null {
+  if (layout === null) {
+    return null;
+  }
+
+  if (typeof layout !== 'string' || layout.trim().length === 0) {
+    return 'Native layout must be a comma-separated list of assets or null';
+  }
+
+  for (const asset of layout.split(',')) {
+    if (!NATIVE_ASSETS.includes(asset.trim() as NativeAsset)) {
+      return `Native layout assets must be among: ${NATIVE_ASSETS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the native layout of a zone
+ * @param layout Comma-separated native assets, null or undefined for the default layout
+ * @returns The assets a creative needs to fill the zone
+ */
+export function parseNativeLayout(layout: string | null | undefined): NativeAsset[] {
+  if (!layout) {
+    return [...DEFAULT_NATIVE_LAYOUT];
+  }
+  return layout.split(',').map(asset => asset.trim() as NativeAsset);
+}
@@ -3,8 +3,12 @@
  */
 
 import type { KVNamespace } from '@cloudflare/workers-types';
-import { TargetingRule } from './TargetingRule';
+import { TargetingRule, TargetingRuleGroup } from './TargetingRule';
 import { TargetingMethod } from './Campaign';
+import { LandingPageData } from './LandingPage';
+import { RedirectOverride } from './RedirectOverride';
+import { CreativeType, SyncedCreative } from './Creative';
+import { ZoneFormat } from './Zone';
 
 /**
  * Environment variables and bindings
@@ -22,6 +26,8 @@ export interface Env {
   campaigns_zones: KVNamespace;
   // Flag to indicate if this is a demo instance
   DEMO_INSTANCE?: string;
+  // Secret for signing tracking URLs; unsigned URLs are accepted when it is not set
+  TRACKING_SECRET?: string;
 }
 
 /**
@@ -32,7 +38,16 @@ export interface CampaignDetail {
   name: string;
   redirect_url: string;
   status: string;
+  priority: number;
+  weight: number;
+  timezone?: string;
+  // CPM in USD bid in OpenRTB auctions, null when the campaign does not bid
+  bid_price?: number | null;
   targeting_rules: TargetingRule[];
+  // Optional AND/OR rule tree evaluated in addition to the flat rules
+  targeting_groups?: TargetingRuleGroup | null;
+  // Active creatives shown in banner, video and native zones
+  creatives?: SyncedCreative[];
 }
 
 /**
@@ -45,11 +60,61 @@ export interface DbCampaign {
   start_date?: number;
   end_date?: number;
   status: string;
+  priority: number;
+  weight: number;
+  timezone?: string;
+  bid_price?: number | null;
+  // JSON text of the AND/OR rule group
+  targeting_groups?: string | null;
+  // JSON text of the ordered redirect URL overrides
+  redirect_overrides?: string | null;
   created_at: number;
   updated_at: number;
   [key: string]: unknown;
 }
 
+/**
+ * Database landing page representation
+ */
+export interface DbLandingPage {
+  id: number;
+  campaign_id: number;
+  name: string | null;
+  url: string;
+  weight: number;
+  // 1 when the page receives clicks, 0 when it is paused
+  active: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Database creative representation
+ */
+export interface DbCreative {
+  id: number;
+  campaign_id: number;
+  name: string | null;
+  type: CreativeType;
+  width: number;
+  height: number;
+  image_url: string | null;
+  html: string | null;
+  media_url: string | null;
+  mime_type: string | null;
+  duration: number | null;
+  title: string | null;
+  body: string | null;
+  cta: string | null;
+  icon_url: string | null;
+  sponsor: string | null;
+  weight: number;
+  // 1 when the creative is served, 0 when it is paused
+  active: number;
+  created_at: number;
+  updated_at: number;
+}
+
 /**
  * Data for updating a campaign
  */
@@ -59,6 +124,12 @@ export interface CampaignUpdateData {
   status?: string;
   start_date?: number | null;
   end_date?: number | null;
+  priority?: number;
+  weight?: number;
+  timezone?: string | null;
+  bid_price?: number | null;
+  targeting_groups?: TargetingRuleGroup | null;
+  redirect_overrides?: RedirectOverride[] | null;
   traffic_back_url?: string;
   [key: string]: unknown;
 }
@@ -70,6 +141,11 @@ export interface ZoneUpdateData {
   name?: string;
   site_url?: string;
   traffic_back_url?: string;
+  timezone?: string | null;
+  format?: string;
+  width?: number | null;
+  height?: number | null;
+  native_layout?: string | null;
   status?: string;
   [key: string]: unknown;
 }
@@ -82,14 +158,52 @@ export interface CreateCampaignRequestData {
   redirect_url: string;
   start_date?: number;
   end_date?: number;
+  priority?: number;
+  weight?: number;
+  timezone?: string;
+  // CPM in USD bid in OpenRTB auctions
+  bid_price?: number | null;
   targeting_rules: Array<{
     targeting_rule_type_id: number;
     targeting_method: TargetingMethod;
     rule: string;
   }>;
+  targeting_groups?: TargetingRuleGroup | null;
+  // Landing pages to rotate clicks between; defaults to a single page with the redirect URL
+  landing_pages?: LandingPageData[];
+  // Ordered redirect URL overrides by country, device type or OS
+  redirect_overrides?: RedirectOverride[] | null;
   [key: string]: unknown;
 }
 
+/**
+ * Simulated request for the campaign selection debug endpoint
+ */
+export interface DebugSelectRequestData {
+  zone_id: number | string;
+  country?: string;
+  user_agent?: string;
+  ip?: string;
+  // Unix timestamp in milliseconds or an ISO 8601 string
+  time?: number | string;
+  sub_id?: string;
+  referer?: string;
+  // Raw request headers, e.g. Accept-Language or client hints
+  headers?: Record<string, string>;
+  region?: string;
+  city?: string;
+  postal_code?: string;
+  metro_code?: string;
+  asn?: number | null;
+  as_organization?: string;
+  // User key for checking capping and unique_users limits
+  user_key?: string;
+  // Ad format to fill, e.g. banner; only campaigns with a creative for the zone's placement are eligible
+  format?: ZoneFormat;
+  // OpenRTB bid floor; only campaigns bidding at least this are eligible
+  bid_floor?: number;
+}
+
 /**
  * Data representation for a targeting rule in API requests/responses
  */
@@ -0,0 +1,74 @@
+import { buildCampaignIndex, getAffectedZoneIds, IndexableCampaign, parseCampaignIndex, serializeCampaignIndex } from './campaignIndexService';
+import { TARGETING_RULE_TYPES } from '../models/TargetingRule';
+
+/**
+ * Build a campaign with the given targeting rules
+ */
+function campaign(id: number, rules: Array<{ type: number; method?: string; rule: string }>): IndexableCampaign {
+  return {
+    id,
+    targeting_rules: rules.map(({ type, method, rule }) => ({
+      targeting_rule_type_id: type,
+      targeting_method: method ?? 'whitelist',
+      rule
+    }))
+  };
+}
+
+const ZONES = [{ id: 1, timezone: 'Europe/Berlin' }, { id: 2 }, { id: 3 }];
+
+describe('buildCampaignIndex', () => {
+  it('lists each campaign in the zones its zone_id rules allow', () => {
+    const indexes = buildCampaignIndex([
+      campaign(1, [{ type: TARGETING_RULE_TYPES.ZONE_ID, rule: '1,2' }]),
+      campaign(2, [{ type: TARGETING_RULE_TYPES.ZONE_ID, method: 'blacklist', rule: '1' }]),
+      campaign(3, [])
+    ], ZONES);
+
+    expect(indexes.map(index => ({ zone: index.zone_id, campaigns: index.campaigns.map(({ id }) => id) }))).toEqual([
+      { zone: 1, campaigns: [1, 3] },
+      { zone: 2, campaigns: [1, 2, 3] },
+      { zone: 3, campaigns: [2, 3] }
+    ]);
+    expect(indexes[0]?.timezone).toBe('Europe/Berlin');
+    expect(indexes[1]?.timezone).toBeNull();
+  });
+
+  it('stores compiled rules that survive serialization', () => {
+    const [index] = buildCampaignIndex([
+      campaign(1, [
+        { type: TARGETING_RULE_TYPES.GEO, rule: 'US,DE' },
+        { type: TARGETING_RULE_TYPES.SUB_ID, rule: 'fb_*' },
+        { type: TARGETING_RULE_TYPES.IP_ADDRESS, rule: '10.0.0.0/8' }
+      ])
+    ], [{ id: 1 }]);
+    if (!index) {
+      throw new Error('Expected an index');
+    }
+
+    const parsed = parseCampaignIndex(serializeCampaignIndex(index));
+    const [geo, subId, ip] = parsed?.campaigns[0]?.targeting_rules ?? [];
+
+    expect(geo?.value_set).toEqual(new Set(['US', 'DE']));
+    expect(subId?.patterns).toEqual(['fb_*']);
+    expect(ip?.ip_ranges?.v4).toHaveLength(1);
+  });
+
+  it('ignores indexes without campaigns', () => {
+    expect(parseCampaignIndex(JSON.stringify({ zone_id: 1, timezone: null, campaign_ids: [1] }))).toBeNull();
+  });
+});
+
+describe('getAffectedZoneIds', () => {
+  const zoneRule = (rule: string): IndexableCampaign => campaign(1, [{ type: TARGETING_RULE_TYPES.ZONE_ID, rule }]);
+
+  it('returns every zone the campaign was or is listed in', () => {
+    expect(getAffectedZoneIds([1, 2, 3], zoneRule('1,2'), zoneRule('2,3'))).toEqual([1, 2, 3]);
+    expect(getAffectedZoneIds([1, 2, 3], zoneRule('1'), zoneRule('1'))).toEqual([1]);
+  });
+
+  it('handles added and removed campaigns', () => {
+    expect(getAffectedZoneIds([1, 2, 3], undefined, zoneRule('3'))).toEqual([3]);
+    expect(getAffectedZoneIds([1, 2, 3], zoneRule('2'), undefined)).toEqual([2]);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Campaign Index Service
+ * Builds the per-zone campaign index stored in KV, so ad serving only evaluates the campaigns
+ * that can run in the requested zone. Each index holds the zone's candidate campaigns with their
+ * rules already parsed, so serving reads one small key instead of the whole `campaigns` snapshot
+ */
+
+import type { Env } from '../models/interfaces';
+import { TARGETING_RULE_TYPES, TargetingRuleCondition, TargetingRuleGroup, isTargetingRuleGroup, parseGeoRule, parseDeviceTypeRule, parseZoneIdRule, parseWeekdaysRule, parseHoursRule, parseRegionRule, parseCityRule, parsePostalCodeRule, parseMetroCodeRule, parseAsnRule, parseDeviceVendorRule, parseDeviceModelRule, parseOsRule, parseBrowserRule, parseSubIdRule, parseReferrerDomainRule, parseAsOrganizationRule, parseLanguageRule, parseIpRule } from '../models/TargetingRule';
+import { compileIpRanges } from '../utils/ipMatching';
+
+// KV key prefix of the per-zone indexes, followed by the zone ID
+export const CAMPAIGN_INDEX_KEY_PREFIX = 'campaign_index:';
+
+/**
+ * A targeting rule as read from the campaign snapshot, before or after compiling
+ */
+export type CompilableTargetingRule = Omit<TargetingRuleCondition, 'targeting_method'> & {
+  targeting_method: string;
+};
+
+/**
+ * Campaign fields the index needs
+ */
+export interface IndexableCampaign {
+  id: number;
+  targeting_rules: CompilableTargetingRule[];
+  targeting_groups?: TargetingRuleGroup | null;
+}
+
+/**
+ * Zone fields the index needs
+ */
+interface IndexableZone {
+  id: number;
+  timezone?: string | null;
+}
+
+/**
+ * Index of the campaigns that can run in one zone
+ */
+export interface ZoneCampaignIndex<T extends IndexableCampaign = IndexableCampaign> {
+  zone_id: number;
+  // Zone time zone for weekday and hour rules, so serving does not need the zone key
+  timezone: string | null;
+  // Campaigns that can run in the zone, with their rules compiled by compileCampaignRules
+  campaigns: T[];
+}
+
+/**
+ * Parsers of the rule types whose entries are compared by exact value
+ * Entries are normalized the same way the matchers normalize request values
+ */
+const VALUE_PARSERS: Record<number, (rule: string) => Array<string | number>> = {
+  [TARGETING_RULE_TYPES.GEO]: parseGeoRule,
+  [TARGETING_RULE_TYPES.DEVICE_TYPE]: parseDeviceTypeRule,
+  [TARGETING_RULE_TYPES.ZONE_ID]: parseZoneIdRule,
+  [TARGETING_RULE_TYPES.WEEKDAYS]: parseWeekdaysRule,
+  [TARGETING_RULE_TYPES.HOURS]: parseHoursRule,
+  [TARGETING_RULE_TYPES.REGION]: parseRegionRule,
+  [TARGETING_RULE_TYPES.CITY]: parseCityRule,
+  [TARGETING_RULE_TYPES.POSTAL_CODE]: parsePostalCodeRule,
+  [TARGETING_RULE_TYPES.METRO_CODE]: parseMetroCodeRule,
+  [TARGETING_RULE_TYPES.ASN]: parseAsnRule,
+  [TARGETING_RULE_TYPES.DEVICE_VENDOR]: parseDeviceVendorRule
+};
+
+/**
+ * Parsers of the rule types whose entries are matched as patterns, substrings or hostnames
+ */
+const PATTERN_PARSERS: Record<number, (rule: string) => string[]> = {
+  [TARGETING_RULE_TYPES.SUB_ID]: parseSubIdRule,
+  [TARGETING_RULE_TYPES.DEVICE_MODEL]: parseDeviceModelRule,
+  [TARGETING_RULE_TYPES.REFERRER_DOMAIN]: parseReferrerDomainRule,
+  [TARGETING_RULE_TYPES.AS_ORGANIZATION]: parseAsOrganizationRule
+};
+
+/**
+ * Get the KV key of a zone's campaign index
+ */
+export function getCampaignIndexKey(zoneId: number): string {
+  return `${CAMPAIGN_INDEX_KEY_PREFIX}${zoneId}`;
+}
+
+/**
+ * Parse the zone_id rules of a campaign into sets, so they can be checked against many zones
+ */
+function getZoneRuleSets(campaign: IndexableCampaign): Array<{ targeting_method: string; zones: Set<number> }> {
+  return campaign.targeting_rules
+    .filter(rule => rule.targeting_rule_type_id === TARGETING_RULE_TYPES.ZONE_ID)
+    .map(rule => ({ targeting_method: rule.targeting_method, zones: new Set(parseZoneIdRule(rule.rule)) }));
+}
+
+/**
+ * Check if a campaign's zone_id rules allow a zone
+ */
+function allowsZone(zoneRules: Array<{ targeting_method: string; zones: Set<number> }>, zoneId: number): boolean {
+  return zoneRules.every(rule => rule.targeting_method === 'whitelist' ? rule.zones.has(zoneId) : !rule.zones.has(zoneId));
+}
+
+/**
+ * Build the campaign index of every zone
+ * Campaigns are bucketed by their zone_id rules; zone_id rules inside rule groups are
+ * left to serving, so a campaign with such rules is listed in every zone its flat rules allow.
+ * The rules of the campaigns are compiled in place
+ * @param campaigns Campaigns of the KV snapshot
+ * @param zones Active zones
+ * @returns One index per zone
+ */
+export function buildCampaignIndex<T extends IndexableCampaign>(campaigns: T[], zones: IndexableZone[]): Array<ZoneCampaignIndex<T>> {
+  const prepared = compileCampaignRules(campaigns).map(campaign => ({ campaign, zoneRules: getZoneRuleSets(campaign) }));
+  
+  return zones.map(zone => ({
+    zone_id: zone.id,
+    timezone: zone.timezone ?? null,
+    campaigns: prepared.filter(({ zoneRules }) => allowsZone(zoneRules, zone.id)).map(({ campaign }) => campaign)
+  }));
+}
+
+/**
+ * Serialize a zone index for KV
+ * Value sets are left out; they are rebuilt from the stored values when the index is parsed
+ */
+export function serializeCampaignIndex(index: ZoneCampaignIndex): string {
+  return JSON.stringify(index, (key, value: unknown) => key === 'value_set' ? undefined : value);
+}
+
+/**
+ * Parse a zone index read from KV and rebuild the value sets of its rules
+ * @returns The index, or null if it was written in an older format without campaigns
+ */
+export function parseCampaignIndex<T extends IndexableCampaign>(json: string): ZoneCampaignIndex<T> | null {
+  const index = JSON.parse(json) as ZoneCampaignIndex<T>;
+  if (!Array.isArray(index.campaigns)) {
+    return null;
+  }
+  compileCampaignRules(index.campaigns);
+  return index;
+}
+
+/**
+ * Get the zones whose index changes when a campaign changes
+ * Indexes hold the campaigns themselves, so every zone the campaign was or is listed in is affected
+ * @param zoneIds Active zone IDs
+ * @param previous The campaign as it was in the snapshot, undefined if it was not in it
+ * @param next The campaign as it is now in the snapshot, undefined if it was removed
+ * @returns IDs of the zones whose index must be rewritten
+ */
+export function getAffectedZoneIds(
+  zoneIds: number[],
+  previous: IndexableCampaign | undefined,
+  next: IndexableCampaign | undefined
+): number[] {
+  const previousRules = previous ? getZoneRuleSets(previous) : null;
+  const nextRules = next ? getZoneRuleSets(next) : null;
+  
+  return zoneIds.filter(zoneId =>
+    (previousRules !== null && allowsZone(previousRules, zoneId)) || (nextRules !== null && allowsZone(nextRules, zoneId))
+  );
+}
+
+/**
+ * Parse the rule string of a targeting rule into the form its matcher uses, in place
+ * Rules compiled by the sync only get their value set rebuilt.
+ * Malformed rules are left as-is; the matchers then parse the rule string, which matches nothing
+ */
+function compileRule(rule: CompilableTargetingRule): void {
+  const typeId = rule.targeting_rule_type_id;
+  try {
+    const parseValues = VALUE_PARSERS[typeId];
+    const parsePatterns = PATTERN_PARSERS[typeId];
+    if (parseValues) {
+      rule.values ??= parseValues(rule.rule);
+      rule.value_set = new Set(rule.values);
+    } else if (parsePatterns) {
+      rule.patterns ??= parsePatterns(rule.rule);
+    } else if (typeId === TARGETING_RULE_TYPES.OS) {
+      rule.names ??= parseOsRule(rule.rule);
+    } else if (typeId === TARGETING_RULE_TYPES.BROWSER) {
+      rule.names ??= parseBrowserRule(rule.rule);
+    } else if (typeId === TARGETING_RULE_TYPES.LANGUAGE) {
+      rule.language_rule ??= parseLanguageRule(rule.rule);
+    } else if (typeId === TARGETING_RULE_TYPES.IP_ADDRESS && !rule.ip_ranges) {
+      rule.ip_ranges = compileIpRanges(parseIpRule(rule.rule));
+    }
+  } catch (error) {
+    // Left to the matcher, which logs the error
+  }
+}
+
+/**
+ * Parse the targeting rules and rule groups of campaigns, in place
+ * Runs when the sync builds the zone indexes and once per snapshot version when KV is read,
+ * so requests never parse rule strings
+ * @param campaigns Campaigns of the snapshot
+ * @returns The same campaigns
+ */
+export function compileCampaignRules<T extends IndexableCampaign>(campaigns: T[]): T[] {
+  const compileGroup = (group: TargetingRuleGroup): void => {
+    for (const node of group.rules) {
+      if (isTargetingRuleGroup(node)) {
+        compileGroup(node);
+      } else {
+        compileRule(node);
+      }
+    }
+  };
+  
+  for (const campaign of campaigns) {
+    campaign.targeting_rules.forEach(compileRule);
+    if (campaign.targeting_groups) {
+      compileGroup(campaign.targeting_groups);
+    }
+  }
+  return campaigns;
+}
+
+/**
+ * Load the active zones with the fields the index needs
+ */
+async function loadActiveZones(env: Env): Promise<IndexableZone[]> {
+  const zonesResult = await env.DB.prepare(`
+    SELECT id, timezone
+    FROM zones
+    WHERE status = 'active'
+  `).all<{ id: number; timezone: string | null }>();
+  
+  if (zonesResult.error) {
+    throw new Error(`Database error: ${zonesResult.error}`);
+  }
+  
+  return zonesResult.results ?? [];
+}
+
+/**
+ * List the names of every stored zone index, following the list cursor across pages
+ */
+async function listCampaignIndexKeys(env: Env): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  
+  do {
+    const page = await env.campaigns_zones.list({ prefix: CAMPAIGN_INDEX_KEY_PREFIX, cursor });
+    names.push(...page.keys.map(key => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  
+  return names;
+}
+
+/**
+ * Write zone indexes to KV
+ */
+async function putCampaignIndexes(env: Env, indexes: ZoneCampaignIndex[]): Promise<void> {
+  await Promise.all(indexes.map(index =>
+    env.campaigns_zones.put(getCampaignIndexKey(index.zone_id), serializeCampaignIndex(index))
+  ));
+}
+
+/**
+ * Write the campaign index of every active zone to KV and remove indexes of other zones
+ * @param env Environment with the DB and KV bindings
+ * @param campaigns Campaigns of the KV snapshot
+ * @returns The number of zone indexes written
+ */
+export async function writeCampaignIndex(env: Env, campaigns: IndexableCampaign[]): Promise<number> {
+  const indexes = buildCampaignIndex(campaigns, await loadActiveZones(env));
+  const indexedKeys = new Set(indexes.map(index => getCampaignIndexKey(index.zone_id)));
+  
+  // Remove indexes of zones that are no longer active
+  const staleKeys = (await listCampaignIndexKeys(env)).filter(name => !indexedKeys.has(name));
+  
+  await Promise.all([
+    ...staleKeys.map(name => env.campaigns_zones.delete(name)),
+    putCampaignIndexes(env, indexes)
+  ]);
+  return indexes.length;
+}
+
+/**
+ * Rewrite the indexes of the zones a changed campaign was or is listed in
+ * @param env Environment with the DB and KV bindings
+ * @param campaigns Campaigns of the updated KV snapshot
+ * @param previous The campaign as it was in the snapshot, undefined if it was not in it
+ * @param next The campaign as it is now in the snapshot, undefined if it was removed
+ * @returns The number of zone indexes written
+ */
+export async function updateCampaignIndexForCampaign(
+  env: Env,
+  campaigns: IndexableCampaign[],
+  previous: IndexableCampaign | undefined,
+  next: IndexableCampaign | undefined
+): Promise<number> {
+  const zones = await loadActiveZones(env);
+  const affected = new Set(getAffectedZoneIds(zones.map(zone => zone.id), previous, next));
+  
+  const indexes = buildCampaignIndex(campaigns, zones.filter(zone => affected.has(zone.id)));
+  await putCampaignIndexes(env, indexes);
+  return indexes.length;
+}
+
+/**
+ * Rewrite the index of one zone, or remove it when the zone is not active
+ * @param env Environment with the DB and KV bindings
+ * @param campaigns Campaigns of the KV snapshot
+ * @param zoneId Zone ID
+ * @param zone The zone, or null if it is not active
+ * @returns Whether an index was written
+ */
+export async function updateZoneCampaignIndex(
+  env: Env,
+  campaigns: IndexableCampaign[],
+  zoneId: number,
+  zone: IndexableZone | null
+): Promise<boolean> {
+  if (!zone) {
+    await env.campaigns_zones.delete(getCampaignIndexKey(zoneId));
+    return false;
+  }
+  
+  await putCampaignIndexes(env, buildCampaignIndex(campaigns, [zone]));
+  return true;
+}
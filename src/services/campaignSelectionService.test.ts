@@ -0,0 +1,264 @@
+import { buildTargetingContext, explainCampaignSelection, getSyncedCampaign, hasCappingRules, selectEligibleCampaign } from './campaignSelectionService';
+import { getCampaignIndexKey } from './campaignIndexService';
+import { clearSnapshotCache } from './snapshotCacheService';
+import { Env } from '../models/interfaces';
+import { TARGETING_RULE_TYPES } from '../models/TargetingRule';
+
+/**
+ * Build an environment whose KV namespace holds the given values
+ */
+function createEnv(values: Record<string, unknown>): Env {
+  const store = new Map(Object.entries(values).map(([key, value]) => [key, JSON.stringify(value)]));
+  return {
+    campaigns_zones: {
+      get: (key: string): Promise<string | null> => Promise.resolve(store.get(key) ?? null)
+    }
+  } as unknown as Env;
+}
+
+/**
+ * Build a campaign of the KV snapshot with the given targeting rules
+ */
+function campaign(
+  id: number,
+  rules: Array<{ type: number; method?: string; rule: string }>,
+  timezone: string | null = null
+): Record<string, unknown> {
+  return {
+    id,
+    name: `Campaign ${id}`,
+    redirect_url: `https://example.com/${id}`,
+    status: 'active',
+    timezone,
+    targeting_rules: rules.map(({ type, method, rule }) => ({
+      targeting_rule_type_id: type,
+      targeting_method: method ?? 'whitelist',
+      rule
+    }))
+  };
+}
+
+/**
+ * Build an environment serving the campaigns through the index of zone 1
+ * The `campaigns` snapshot is left out, as serving must not read it when the zone is indexed
+ */
+function createZoneEnv(campaigns: Array<Record<string, unknown>>, zoneTimeZone: string | null = null): Env {
+  return createEnv({
+    [getCampaignIndexKey(1)]: { zone_id: 1, timezone: zoneTimeZone, campaigns }
+  });
+}
+
+/**
+ * Select a campaign for zone 1 at a fixed time
+ */
+async function selectAt(env: Env, isoTime: string): Promise<number | null> {
+  const request = new Request('https://ads.example.com/serve/1');
+  const selected = await selectEligibleCampaign(request, '1', env, { now: Date.parse(isoTime) });
+  return selected?.id ?? null;
+}
+
+const WEEKDAYS = TARGETING_RULE_TYPES.WEEKDAYS;
+const HOURS = TARGETING_RULE_TYPES.HOURS;
+
+describe('selectEligibleCampaign weekday and hour rules', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+  });
+
+  it('evaluates rules in UTC when neither the campaign nor the zone has a time zone', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '9,10,11' }])]);
+
+    expect(await selectAt(env, '2024-01-01T08:59:59Z')).toBeNull();
+    expect(await selectAt(env, '2024-01-01T09:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-01T11:59:59Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-01T12:00:00Z')).toBeNull();
+  });
+
+  it('evaluates rules in the zone time zone', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '9' }])], 'Europe/Berlin');
+
+    // 09:00 in Berlin is 08:00 UTC in winter
+    expect(await selectAt(env, '2024-01-01T08:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-01T09:00:00Z')).toBeNull();
+  });
+
+  it('prefers the campaign time zone over the zone time zone', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '9' }], 'America/New_York')], 'Europe/Berlin');
+
+    expect(await selectAt(env, '2024-01-01T08:00:00Z')).toBeNull();
+    expect(await selectAt(env, '2024-01-01T14:00:00Z')).toBe(1);
+  });
+
+  it('falls back to the zone time zone when the campaign time zone is invalid', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '9' }], 'Not/A_Zone')], 'Asia/Tokyo');
+
+    // 09:00 in Tokyo is 00:00 UTC
+    expect(await selectAt(env, '2024-01-01T00:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-01T09:00:00Z')).toBeNull();
+  });
+
+  it('moves the weekday at local midnight', async () => {
+    // Weekdays only, in New York
+    const env = createZoneEnv([campaign(1, [{ type: WEEKDAYS, rule: '1,2,3,4,5' }], 'America/New_York')]);
+
+    // Friday 23:59 local is already Saturday in UTC
+    expect(await selectAt(env, '2024-01-06T04:59:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-06T05:00:00Z')).toBeNull();
+    // Sunday 23:59 local, then Monday 00:00 local
+    expect(await selectAt(env, '2024-01-08T04:59:00Z')).toBeNull();
+    expect(await selectAt(env, '2024-01-08T05:00:00Z')).toBe(1);
+  });
+
+  it('excludes blacklisted weekdays and hours', async () => {
+    const env = createZoneEnv([campaign(1, [
+      { type: WEEKDAYS, method: 'blacklist', rule: '6,7' },
+      { type: HOURS, method: 'blacklist', rule: '0,1,2,3,4,5' }
+    ])]);
+
+    // Monday 05:59 and 06:00 UTC
+    expect(await selectAt(env, '2024-01-01T05:59:00Z')).toBeNull();
+    expect(await selectAt(env, '2024-01-01T06:00:00Z')).toBe(1);
+    // Saturday noon UTC
+    expect(await selectAt(env, '2024-01-06T12:00:00Z')).toBeNull();
+  });
+
+  it('follows daylight saving time transitions', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '9' }], 'America/New_York')]);
+
+    // 09:00 in New York is 14:00 UTC before 10 March 2024 and 13:00 UTC after
+    expect(await selectAt(env, '2024-03-09T14:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-03-09T13:00:00Z')).toBeNull();
+    expect(await selectAt(env, '2024-03-11T13:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-03-11T14:00:00Z')).toBeNull();
+  });
+
+  it('never matches an hour skipped by daylight saving time', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '2' }], 'America/New_York')]);
+
+    // 01:59 EST is followed by 03:00 EDT on 10 March 2024
+    expect(await selectAt(env, '2024-03-10T06:59:00Z')).toBeNull();
+    expect(await selectAt(env, '2024-03-10T07:00:00Z')).toBeNull();
+  });
+
+  it('matches both occurrences of an hour repeated by daylight saving time', async () => {
+    const env = createZoneEnv([campaign(1, [{ type: HOURS, rule: '1' }], 'America/New_York')]);
+
+    // 01:30 EDT and 01:30 EST on 3 November 2024
+    expect(await selectAt(env, '2024-11-03T05:30:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-11-03T06:30:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-11-03T07:00:00Z')).toBeNull();
+  });
+
+  it('reads the zone time zone from the zone key when serving from the campaign snapshot', async () => {
+    const env = createEnv({
+      campaigns: [campaign(1, [{ type: HOURS, rule: '9' }])],
+      'zones:1': { id: 1, timezone: 'Asia/Tokyo' }
+    });
+
+    expect(await selectAt(env, '2024-01-01T00:00:00Z')).toBe(1);
+    expect(await selectAt(env, '2024-01-01T09:00:00Z')).toBeNull();
+  });
+});
+
+describe('explainCampaignSelection', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+  });
+
+  it('explains the campaigns of the zone index that serving reads', async () => {
+    const env = createEnv({
+      // Campaign 2 is not in the index, as its zone rules exclude zone 1
+      [getCampaignIndexKey(1)]: { zone_id: 1, timezone: null, campaigns: [campaign(1, [{ type: HOURS, rule: '9' }])] },
+      campaigns: [campaign(1, [{ type: HOURS, rule: '9' }]), campaign(2, [{ type: TARGETING_RULE_TYPES.ZONE_ID, rule: '2' }])]
+    });
+    const request = new Request('https://ads.example.com/serve/1');
+
+    const explanation = await explainCampaignSelection(request, '1', env, { now: Date.parse('2024-01-01T09:30:00Z') });
+
+    expect(explanation?.winner?.campaign_id).toBe(1);
+    expect(explanation?.campaigns[0]?.rules[0]?.reason).toBe('hour 9 in UTC passes the whitelist');
+  });
+
+  it('lists the other campaigns of the snapshot with a zone_id reason', async () => {
+    const env = createEnv({
+      [getCampaignIndexKey(1)]: { zone_id: 1, timezone: null, campaigns: [campaign(1, [])] },
+      campaigns: [campaign(1, []), campaign(2, [{ type: TARGETING_RULE_TYPES.ZONE_ID, rule: '2' }])]
+    });
+    const request = new Request('https://ads.example.com/serve/1');
+
+    const explanation = await explainCampaignSelection(request, '1', env);
+
+    expect(explanation?.campaigns.map(({ id, eligible }) => ({ id, eligible }))).toEqual([
+      { id: 1, eligible: true },
+      { id: 2, eligible: false }
+    ]);
+    expect(explanation?.campaigns[1]?.reason).toBe('Failed the zone_id rule: the campaign cannot run in zone 1');
+    expect(explanation?.campaigns[1]?.rules[0]?.passed).toBe(false);
+  });
+});
+
+describe('explainCampaignSelection eligibility', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+  });
+
+  it('applies the creative slot and bid floor like selection', async () => {
+    const banner = { id: 1, type: 'image', width: 300, height: 250, weight: 1 };
+    const campaigns = [
+      { ...campaign(1, []), bid_price: 2, creatives: [banner] },
+      { ...campaign(2, []), bid_price: 0.5, creatives: [banner] },
+      { ...campaign(3, []), bid_price: 3, creatives: [{ ...banner, width: 728, height: 90 }] }
+    ];
+    const env = createEnv({ [getCampaignIndexKey(1)]: { zone_id: 1, timezone: null, campaigns }, campaigns });
+    const request = new Request('https://ads.example.com/serve/1');
+    const options = { creativeSlot: { types: ['image' as const], width: 300, height: 250 }, minBidPrice: 1 };
+
+    const explanation = await explainCampaignSelection(request, '1', env, options);
+    const selected = await selectEligibleCampaign(request, '1', env, options);
+
+    expect(explanation?.campaigns.map(({ id, eligible }) => ({ id, eligible }))).toEqual([
+      { id: 1, eligible: true },
+      { id: 2, eligible: false },
+      { id: 3, eligible: false }
+    ]);
+    expect(explanation?.campaigns[1]?.reason).toBe('Passed targeting but bids 0.5, below the floor of 1');
+    expect(explanation?.campaigns[2]?.reason).toBe('Passed targeting but has no active creative that fits the placement');
+    expect(selected?.id).toBe(1);
+  });
+});
+
+describe('getSyncedCampaign', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+  });
+
+  it('finds campaigns of the zone index and of the snapshot', async () => {
+    const env = createEnv({
+      // Campaign 2 left zone 1 after an ad of it was served there
+      [getCampaignIndexKey(1)]: { zone_id: 1, timezone: null, campaigns: [campaign(1, [])] },
+      campaigns: [campaign(1, []), campaign(2, [{ type: TARGETING_RULE_TYPES.ZONE_ID, rule: '2' }])]
+    });
+    const context = buildTargetingContext(new Request('https://ads.example.com/track/click/1/1'), 1, Date.now());
+
+    expect((await getSyncedCampaign(env, context, 1))?.id).toBe(1);
+    expect((await getSyncedCampaign(env, context, 2))?.id).toBe(2);
+    expect(await getSyncedCampaign(env, context, 3)).toBeNull();
+  });
+});
+
+describe('hasCappingRules', () => {
+  const rule = (type: number): { targeting_rule_type_id: number; targeting_method: 'whitelist'; rule: string } =>
+    ({ targeting_rule_type_id: type, targeting_method: 'whitelist', rule: '3,24' });
+
+  it('finds capping rules in the flat rules and rule groups', () => {
+    expect(hasCappingRules({ targeting_rules: [rule(TARGETING_RULE_TYPES.CAPPING)] })).toBe(true);
+    expect(hasCappingRules({
+      targeting_rules: [],
+      targeting_groups: { operator: 'or', rules: [{ operator: 'and', rules: [rule(TARGETING_RULE_TYPES.CAPPING)] }] }
+    })).toBe(true);
+  });
+
+  it('ignores campaigns without capping rules', () => {
+    expect(hasCappingRules({ targeting_rules: [rule(TARGETING_RULE_TYPES.UNIQUE_USERS)], targeting_groups: null })).toBe(false);
+  });
+});
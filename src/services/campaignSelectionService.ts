@@ -4,9 +4,24 @@
  */
 
 import { Env, CampaignDetail } from '../models/interfaces';
-import { TargetingRule, TARGETING_RULE_TYPES, parseGeoRule, parseDeviceTypeRule, parseZoneIdRule, parseOsRule, parseBrowserRule } from '../models/TargetingRule';
-import { detectDeviceType, detectBrowser, detectOS } from '../utils/deviceDetection';
+import { TargetingRule, TargetingRuleGroup, TargetingRuleCondition, VersionedNameEntry, TARGETING_RULE_TYPES, isTargetingRuleGroup, parseGeoRule, parseDeviceTypeRule, parseZoneIdRule, parseOsRule, parseBrowserRule, parseWeekdaysRule, parseHoursRule, parseCappingRule, parseUniqueUsersRule, parseRegionRule, parseCityRule, parsePostalCodeRule, parseMetroCodeRule, parseIpRule, parseAsnRule, parseAsOrganizationRule, parseLanguageRule, parseReferrerDomainRule, parseSubIdRule, parseDeviceVendorRule, parseDeviceModelRule, normalizeCity, normalizePostalCode, DEFAULT_CAPPING_WINDOW_HOURS } from '../models/TargetingRule';
+import { DeviceInfo, detectRequestDevice } from '../utils/deviceDetection';
 import { parseAndValidateId } from '../utils/idValidation';
+import { pickWeighted } from '../utils/weightedRandom';
+import { isFrequencyCapped, hasReachedVisitLimit } from './frequencyCapService';
+import { DEFAULT_CAMPAIGN_PRIORITY, DEFAULT_CAMPAIGN_WEIGHT } from '../models/Campaign';
+import { RedirectOverride } from '../models/RedirectOverride';
+import { CreativeSlot, SyncedCreative, findCreativesForSlot } from '../models/Creative';
+import { DEFAULT_TIME_ZONE, getLocalWeekdayAndHour, isValidTimeZone } from '../utils/timeZone';
+import { getRequestLocation, getRequestNetwork } from '../utils/requestCf';
+import { compileIpRanges, isIpInRanges } from '../utils/ipMatching';
+import { detectLanguages, languageMatches } from '../utils/languageDetection';
+import { getReferrerHost, hostMatchesPattern } from '../utils/referrer';
+import { matchesWildcard } from '../utils/wildcardMatch';
+import { parseVersion, satisfiesVersion } from '../utils/versionMatching';
+import { CompilableTargetingRule, compileCampaignRules, getCampaignIndexKey, parseCampaignIndex, ZoneCampaignIndex } from './campaignIndexService';
+import { getCachedSnapshotValue } from './snapshotCacheService';
+import { loadActiveCampaigns, syncAll } from './syncService';
 
 /**
  * Logger for error messages
@@ -16,26 +31,237 @@ function logError(message: string): void {
   console.error(message);
 }
 
+/**
+ * Logger for warning messages
+ */
+function logWarning(message: string): void {
+  // eslint-disable-next-line no-console
+  console.warn(message);
+}
+
+/**
+ * Campaign as stored in the KV `campaigns` snapshot
+ */
+export interface KvCampaign {
+  id: number;
+  name: string;
+  redirect_url: string;
+  status: string;
+  priority?: number;
+  weight?: number;
+  timezone?: string | null;
+  bid_price?: number | null;
+  targeting_rules: CompilableTargetingRule[];
+  targeting_groups?: TargetingRuleGroup | null;
+  creatives?: SyncedCreative[];
+  [key: string]: unknown;
+}
+
+/**
+ * Request attributes that targeting rules are evaluated against
+ */
+export interface TargetingContext {
+  zoneId: number;
+  // Client IP address from CF-Connecting-IP
+  ip: string;
+  country: string;
+  // ISO 3166-2 region code, e.g. "US-TX"
+  region: string;
+  // Lowercased city name
+  city: string;
+  // Uppercased postal code without whitespace
+  postalCode: string;
+  metroCode: string;
+  // Autonomous System Number, null when unknown
+  asn: number | null;
+  // Lowercased AS organization name
+  asOrganization: string;
+  // Browser languages from Accept-Language, most preferred first
+  languages: string[];
+  // Lowercased referrer hostname, empty when there is no referrer
+  referrerHost: string;
+  // sub_id query parameter, empty when absent
+  subId: string;
+  deviceType: string;
+  os: string;
+  // OS version, e.g. "16.4", empty when unknown
+  osVersion: string;
+  browser: string;
+  // Browser version, e.g. "120.0.6099.109", empty when unknown
+  browserVersion: string;
+  // Device vendor, e.g. "Apple", empty when unknown
+  vendor: string;
+  // Device model, e.g. "iPhone", empty when unknown
+  model: string;
+  // Unix timestamp in milliseconds, used by weekday and hour rules
+  timestamp: number;
+  // Zone time zone, used when a campaign does not define its own
+  zoneTimeZone?: string;
+}
+
+/**
+ * Optional overrides for campaign selection
+ */
+export interface SelectionOptions {
+  // Fixed clock in milliseconds, defaults to Date.now()
+  now?: number;
+  // Stable user key; frequency caps are only enforced when it is known
+  userKey?: string;
+  // Execution context for background work; KV is only rebuilt after a D1 fallback when it is given
+  ctx?: ExecutionContext;
+  // Placement to fill; only campaigns with an active creative that fits it are eligible
+  creativeSlot?: CreativeSlot;
+  // Bid floor of an OpenRTB impression; only campaigns with a bid price of at least this are eligible
+  minBidPrice?: number;
+}
+
+/**
+ * Outcome of a single targeting rule in a selection explanation
+ */
+export interface RuleExplanation {
+  targeting_rule_type_id: number;
+  targeting_method: string;
+  rule: string;
+  passed: boolean;
+  reason: string;
+}
+
+/**
+ * Outcome of an AND/OR rule group in a selection explanation
+ */
+export interface RuleGroupExplanation {
+  operator: string;
+  passed: boolean;
+  rules: Array<RuleExplanation | RuleGroupExplanation>;
+}
+
+/**
+ * Outcome of one campaign in a selection explanation
+ */
+export interface CampaignExplanation {
+  id: number;
+  name: string;
+  priority: number;
+  weight: number;
+  // Whether the campaign passed every targeting rule
+  eligible: boolean;
+  // Whether a capping or unique_users limit is exhausted, null when not checked
+  capped: boolean | null;
+  // Chance of being picked, 0 for campaigns outside the winning tier
+  win_probability: number;
+  rules: RuleExplanation[];
+  targeting_groups: RuleGroupExplanation | null;
+  reason: string;
+}
+
+/**
+ * Explanation of a campaign selection
+ */
+export interface SelectionExplanation {
+  zone_id: number;
+  context: TargetingContext;
+  campaigns: CampaignExplanation[];
+  winner: {
+    campaign_id: number;
+    name: string;
+    priority: number;
+    weight: number;
+    win_probability: number;
+  } | null;
+  reason: string;
+}
+
+/**
+ * Build the targeting context for a request
+ * @param request The HTTP request containing headers
+ * @param zoneId Validated numeric zone ID
+ * @param timestamp Unix timestamp in milliseconds
+ * @param device Device of the request, when the caller already detected it
+ */
+export function buildTargetingContext(
+  request: Request,
+  zoneId: number,
+  timestamp: number,
+  device: DeviceInfo = detectRequestDevice(request)
+): TargetingContext {
+  const location = getRequestLocation(request);
+  const network = getRequestNetwork(request);
+  
+  return {
+    zoneId,
+    ip: request.headers.get('CF-Connecting-IP') ?? '',
+    country: location.country,
+    region: location.region,
+    city: normalizeCity(location.city),
+    postalCode: normalizePostalCode(location.postalCode),
+    metroCode: location.metroCode,
+    asn: network.asn,
+    asOrganization: network.asOrganization.toLowerCase(),
+    languages: detectLanguages(request),
+    referrerHost: getReferrerHost(request),
+    subId: new URL(request.url).searchParams.get('sub_id') ?? '',
+    deviceType: device.deviceType,
+    os: device.os,
+    osVersion: device.osVersion,
+    browser: device.browser,
+    browserVersion: device.browserVersion,
+    vendor: device.vendor,
+    model: device.model,
+    timestamp
+  };
+}
+
+/**
+ * Check that failed for a campaign that cannot serve a request
+ */
+type Ineligibility = 'targeting' | 'creative' | 'bid_floor';
+
+/**
+ * Check if a campaign can serve a request: it passes its targeting rules, has a creative
+ * that fits the placement and bids at least the floor
+ * Shared by selection and its explanation, so the two cannot diverge
+ * @param campaign Campaign to check
+ * @param context Targeting context of the request
+ * @param options Placement and bid floor of the request
+ * @returns null if the campaign is eligible, otherwise the first check it failed
+ */
+function findIneligibility(
+  campaign: KvCampaign,
+  context: TargetingContext,
+  options: Pick<SelectionOptions, 'creativeSlot' | 'minBidPrice'>
+): Ineligibility | null {
+  if (!isEligibleForAllRules(campaign, context)) {
+    return 'targeting';
+  }
+  if (options.creativeSlot && findCreativesForSlot(campaign.creatives ?? [], options.creativeSlot).length === 0) {
+    return 'creative';
+  }
+  if (options.minBidPrice !== undefined && !(typeof campaign.bid_price === 'number' && campaign.bid_price >= options.minBidPrice)) {
+    return 'bid_floor';
+  }
+  return null;
+}
+
 /**
  * Select an eligible campaign based on request context and targeting rules
+ * 
+ * All campaigns passing the targeting rules are collected, only the highest
+ * priority tier is kept, and one campaign is picked from that tier at random
+ * in proportion to its weight. Campaigns whose capping or unique_users rule
+ * is exhausted for the user are skipped.
  * @param request The HTTP request containing headers
  * @param zoneId Target zone ID
  * @param env Environment for KV access
- * @returns The first eligible campaign or null if none match
+ * @param options Optional selection overrides such as a fixed clock
+ * @returns The selected campaign or null if none match
  */
 export async function selectEligibleCampaign(
   request: Request,
   zoneId: string,
-  env: Env
+  env: Env,
+  options: SelectionOptions = {}
 ): Promise<CampaignDetail | null> {
   try {
-    // Extract targeting context from request
-    const userAgent = request.headers.get('User-Agent') ?? '';
-    const country = request.headers.get('CF-IPCountry') ?? '';
-    const deviceType = detectDeviceType(userAgent);
-    const os = detectOS(userAgent);
-    const browser = detectBrowser(userAgent);
-
     // Validate zone ID
     const zoneIdNum = parseAndValidateId(zoneId, 'zone');
     if (zoneIdNum === null) {
@@ -43,135 +269,1066 @@ export async function selectEligibleCampaign(
       return null;
     }
 
-    // Fetch campaigns from KV
-    const campaignsJson = await env.campaigns_zones.get('campaigns');
-    if (!campaignsJson) {
-      return null;
-    }
+    // Extract targeting context from request
+    const context = buildTargetingContext(request, zoneIdNum, options.now ?? Date.now());
+
+    // Fetch the campaigns that can run in the zone from KV
+    const campaigns = await loadZoneCampaigns(env, context, options.ctx);
+    if (campaigns.length === 0) {
+      return null;
+    }
+    
+    // Collect every eligible campaign
+    const eligibleCampaigns = campaigns.filter(campaign => findIneligibility(campaign, context, options) === null);
+    
+    // Pick one campaign from the highest priority tier that is not frequency capped
+    const campaign = await pickUncappedCampaign(eligibleCampaigns, env, options.userKey);
+    if (!campaign) {
+      // No eligible campaigns found
+      return null;
+    }
+    
+    // Convert to CampaignDetail format
+    const targetingRules = campaign.targeting_rules as unknown as TargetingRule[];
+    
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      redirect_url: campaign.redirect_url,
+      status: campaign.status,
+      priority: campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY,
+      weight: campaign.weight ?? DEFAULT_CAMPAIGN_WEIGHT,
+      timezone: campaign.timezone ?? undefined,
+      bid_price: campaign.bid_price ?? null,
+      targeting_rules: targetingRules,
+      targeting_groups: campaign.targeting_groups ?? null,
+      creatives: campaign.creatives ?? []
+    };
+  } catch (error) {
+    logError(`Error selecting eligible campaign: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Explain how a campaign would be selected for a request
+ * Runs the same eligibility checks as selectEligibleCampaign, recording the outcome of every rule
+ * @param request The HTTP request containing headers
+ * @param zoneId Target zone ID
+ * @param env Environment for KV and Durable Object access
+ * @param options Selection overrides; values in `context` replace the ones detected from the request
+ * @returns The explanation, or null if the zone ID is invalid
+ */
+export async function explainCampaignSelection(
+  request: Request,
+  zoneId: string,
+  env: Env,
+  options: SelectionOptions & { context?: Partial<TargetingContext> } = {}
+): Promise<SelectionExplanation | null> {
+  const zoneIdNum = parseAndValidateId(zoneId, 'zone');
+  if (zoneIdNum === null) {
+    return null;
+  }
+  
+  // Build the context, applying simulated values that cannot be set on a request such as request.cf fields
+  const context = { ...buildTargetingContext(request, zoneIdNum, options.now ?? Date.now()), ...options.context };
+  context.city = normalizeCity(context.city);
+  context.postalCode = normalizePostalCode(context.postalCode);
+  context.asOrganization = context.asOrganization.toLowerCase();
+  
+  // Load campaigns the same way serving does, so the explanation cannot diverge from it
+  const campaigns = await loadZoneCampaigns(env, context);
+  
+  // Every other active campaign is listed too, so a campaign missing from the zone can be explained
+  const candidateIds = new Set(campaigns.map(campaign => campaign.id));
+  const { campaigns: activeCampaigns } = await loadCampaignSnapshot(env, zoneIdNum);
+  const nonCandidates = activeCampaigns.filter(campaign => !candidateIds.has(campaign.id));
+  
+  // Evaluate the targeting rules of every campaign
+  const explanations = campaigns.map(campaign => {
+    const rules = campaign.targeting_rules.map(rule => explainRule(rule, context, campaign.timezone));
+    const groups = campaign.targeting_groups ? explainTargetingGroup(campaign.targeting_groups, context, campaign.timezone) : null;
+    const ineligibility = findIneligibility(campaign, context, options);
+    const eligible = ineligibility === null;
+    
+    const failed = rules.filter(rule => !rule.passed).length;
+    let reason = 'Passed all targeting rules';
+    if (failed > 0) {
+      reason = `Failed ${failed} targeting rule${failed === 1 ? '' : 's'}`;
+    } else if (groups && !groups.passed) {
+      reason = 'Failed the targeting rule group';
+    } else if (ineligibility === 'creative') {
+      reason = 'Passed targeting but has no active creative that fits the placement';
+    } else if (ineligibility === 'bid_floor') {
+      reason = `Passed targeting but bids ${campaign.bid_price ?? 'nothing'}, below the floor of ${options.minBidPrice ?? 0}`;
+    }
+    
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      priority: campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY,
+      weight: campaign.weight ?? DEFAULT_CAMPAIGN_WEIGHT,
+      eligible,
+      capped: null as boolean | null,
+      win_probability: 0,
+      rules,
+      targeting_groups: groups,
+      reason
+    };
+  });
+  
+  explanations.push(...nonCandidates.map(campaign => ({
+    id: campaign.id,
+    name: campaign.name,
+    priority: campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY,
+    weight: campaign.weight ?? DEFAULT_CAMPAIGN_WEIGHT,
+    eligible: false,
+    capped: null as boolean | null,
+    win_probability: 0,
+    rules: campaign.targeting_rules.map(rule => explainRule(rule, context, campaign.timezone)),
+    targeting_groups: campaign.targeting_groups ? explainTargetingGroup(campaign.targeting_groups, context, campaign.timezone) : null,
+    reason: `Failed the zone_id rule: the campaign cannot run in zone ${zoneIdNum}`
+  })));
+  
+  // Check per-user limits of eligible campaigns when the user is known
+  const eligible = campaigns.filter((_, index) => explanations[index]?.eligible);
+  const userKey = options.userKey;
+  const cappedFlags = userKey
+    ? await Promise.all(eligible.map(campaign => isCampaignCapped(campaign, env, userKey)))
+    : eligible.map(() => false);
+  
+  eligible.forEach((campaign, index) => {
+    const explanation = explanations.find(candidate => candidate.id === campaign.id);
+    if (explanation && userKey) {
+      explanation.capped = cappedFlags[index] ?? false;
+      if (explanation.capped) {
+        explanation.reason = 'Passed targeting but a capping or unique_users limit is exhausted for the user';
+      }
+    }
+  });
+  
+  // Only the highest priority tier among uncapped campaigns can win, in proportion to weight
+  const uncapped = eligible.filter((_, index) => !cappedFlags[index]);
+  if (uncapped.length === 0) {
+    return {
+      zone_id: zoneIdNum,
+      context,
+      campaigns: explanations,
+      winner: null,
+      reason: campaigns.length === 0 ? 'No campaigns can run in the zone' : 'No campaign passed targeting and per-user limits'
+    };
+  }
+  
+  const topPriority = Math.max(...uncapped.map(campaign => campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY));
+  const tier = uncapped.filter(campaign => (campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY) === topPriority);
+  const totalWeight = tier.reduce((sum, campaign) => sum + Math.max(campaign.weight ?? DEFAULT_CAMPAIGN_WEIGHT, 0), 0);
+  
+  for (const explanation of explanations) {
+    if (tier.some(campaign => campaign.id === explanation.id)) {
+      explanation.win_probability = totalWeight > 0 ? Math.max(explanation.weight, 0) / totalWeight : 0;
+      explanation.reason = `In the winning priority tier ${topPriority}`;
+    } else if (explanation.eligible && explanation.capped !== true) {
+      explanation.reason = `Outranked by priority tier ${topPriority}`;
+    }
+  }
+  
+  const picked = pickByPriorityAndWeight(tier);
+  const winner = picked ? explanations.find(explanation => explanation.id === picked.id) : undefined;
+  
+  return {
+    zone_id: zoneIdNum,
+    context,
+    campaigns: explanations,
+    winner: winner
+      ? {
+        campaign_id: winner.id,
+        name: winner.name,
+        priority: winner.priority,
+        weight: winner.weight,
+        win_probability: winner.win_probability
+      }
+      : null,
+    reason: tier.length === 1
+      ? `Only eligible campaign in the highest priority tier ${topPriority}`
+      : `Picked at random by weight among ${tier.length} campaigns in the highest priority tier ${topPriority}`
+  };
+}
+
+/**
+ * Explain the outcome of a single targeting rule
+ */
+function explainRule(
+  rule: RuleEntry & { targeting_rule_type_id: number },
+  context: TargetingContext,
+  campaignTimeZone: string | null | undefined
+): RuleExplanation {
+  const base = {
+    targeting_rule_type_id: rule.targeting_rule_type_id,
+    targeting_method: rule.targeting_method,
+    rule: rule.rule
+  };
+  
+  if (rule.targeting_rule_type_id === TARGETING_RULE_TYPES.CAPPING || rule.targeting_rule_type_id === TARGETING_RULE_TYPES.UNIQUE_USERS) {
+    return { ...base, passed: true, reason: 'Per-user limit, checked when picking a campaign' };
+  }
+  
+  const value = describeContextValue(rule.targeting_rule_type_id, context, campaignTimeZone);
+  if (value === null) {
+    return { ...base, passed: true, reason: 'Unknown rule type, ignored' };
+  }
+  
+  // A type with several rules passes only if each rule passes on its own, so rules can be checked one by one
+  const passed = passesRulesOfType(rule.targeting_rule_type_id, [rule], context, campaignTimeZone);
+  let reason = `${value} passes the ${rule.targeting_method}`;
+  if (!passed) {
+    reason = rule.targeting_method === 'whitelist'
+      ? `${value} is not in the whitelist`
+      : `${value} is in the blacklist`;
+  }
+  
+  return { ...base, passed, reason };
+}
+
+/**
+ * Explain the outcome of an AND/OR rule group
+ */
+function explainTargetingGroup(
+  group: TargetingRuleGroup,
+  context: TargetingContext,
+  campaignTimeZone: string | null | undefined
+): RuleGroupExplanation {
+  const rules = group.rules.map(node =>
+    isTargetingRuleGroup(node)
+      ? explainTargetingGroup(node, context, campaignTimeZone)
+      : explainRule(node, context, campaignTimeZone)
+  );
+  
+  return {
+    operator: group.operator,
+    passed: passesTargetingGroup(group, context, campaignTimeZone),
+    rules
+  };
+}
+
+/**
+ * Describe the request value a targeting rule type is evaluated against
+ * @returns A description such as 'country "US"', or null for unknown rule types
+ */
+function describeContextValue(
+  typeId: number,
+  context: TargetingContext,
+  campaignTimeZone: string | null | undefined
+): string | null {
+  const quote = (label: string, value: string | number | null): string =>
+    value === null || value === '' ? `${label} (unknown)` : `${label} "${value}"`;
+  
+  switch (typeId) {
+    case TARGETING_RULE_TYPES.ZONE_ID:
+      return quote('zone', context.zoneId);
+    case TARGETING_RULE_TYPES.GEO:
+      return quote('country', context.country);
+    case TARGETING_RULE_TYPES.IP_ADDRESS:
+      return quote('IP address', context.ip);
+    case TARGETING_RULE_TYPES.REGION:
+      return quote('region', context.region);
+    case TARGETING_RULE_TYPES.CITY:
+      return quote('city', context.city);
+    case TARGETING_RULE_TYPES.POSTAL_CODE:
+      return quote('postal code', context.postalCode);
+    case TARGETING_RULE_TYPES.METRO_CODE:
+      return quote('metro code', context.metroCode);
+    case TARGETING_RULE_TYPES.DEVICE_TYPE:
+      return quote('device type', context.deviceType);
+    case TARGETING_RULE_TYPES.DEVICE_VENDOR:
+      return quote('device vendor', context.vendor);
+    case TARGETING_RULE_TYPES.DEVICE_MODEL:
+      return quote('device model', context.model);
+    case TARGETING_RULE_TYPES.OS:
+      return quote('OS', `${context.os} ${context.osVersion}`.trim());
+    case TARGETING_RULE_TYPES.BROWSER:
+      return quote('browser', `${context.browser} ${context.browserVersion}`.trim());
+    case TARGETING_RULE_TYPES.ASN:
+      return quote('ASN', context.asn);
+    case TARGETING_RULE_TYPES.AS_ORGANIZATION:
+      return quote('AS organization', context.asOrganization);
+    case TARGETING_RULE_TYPES.LANGUAGE:
+      return quote('languages', context.languages.join(', '));
+    case TARGETING_RULE_TYPES.REFERRER_DOMAIN:
+      return quote('referrer host', context.referrerHost);
+    case TARGETING_RULE_TYPES.SUB_ID:
+      return quote('sub_id', context.subId);
+    case TARGETING_RULE_TYPES.WEEKDAYS:
+    case TARGETING_RULE_TYPES.HOURS: {
+      const timeZone = resolveTimeZone(campaignTimeZone, context.zoneTimeZone);
+      const { weekday, hour } = getLocalWeekdayAndHour(context.timestamp, timeZone);
+      return typeId === TARGETING_RULE_TYPES.WEEKDAYS
+        ? `weekday ${weekday} in ${timeZone}`
+        : `hour ${hour} in ${timeZone}`;
+    }
+    default:
+      return null;
+  }
+}
+
+// KV key of the campaign snapshot shared by every zone index
+const CAMPAIGN_SNAPSHOT_KEY = 'campaigns';
+
+/**
+ * Campaigns of the snapshot with their rules parsed, and looked up by ID
+ */
+interface CampaignSnapshot {
+  campaigns: KvCampaign[];
+  byId: Map<number, KvCampaign>;
+  // Whether the campaigns were loaded from D1 because the KV snapshot could not be used
+  fromD1: boolean;
+}
+
+/**
+ * Parse the rules of campaigns and index them by ID
+ */
+function toCampaignSnapshot(campaigns: KvCampaign[], fromD1: boolean): CampaignSnapshot {
+  compileCampaignRules(campaigns);
+  return { campaigns, byId: new Map(campaigns.map(campaign => [campaign.id, campaign])), fromD1 };
+}
+
+/**
+ * Parse the KV campaign snapshot; every reader of the key must use this function
+ */
+function parseCampaignSnapshot(json: string): CampaignSnapshot {
+  const campaigns = JSON.parse(json) as unknown;
+  if (!Array.isArray(campaigns)) {
+    throw new Error('Campaign snapshot is not an array');
+  }
+  return toCampaignSnapshot(campaigns as KvCampaign[], false);
+}
+
+/**
+ * Load the campaign snapshot from KV, cached in isolate memory with its rules parsed
+ * Falls back to D1 when the snapshot is missing or corrupt
+ * @param env Environment for KV and D1 access
+ * @param zoneId Zone of the request, for the fallback metric
+ * @param ctx Execution context for rebuilding KV after a fallback
+ */
+async function loadCampaignSnapshot(env: Env, zoneId: number, ctx?: ExecutionContext): Promise<CampaignSnapshot> {
+  let snapshot: CampaignSnapshot | null = null;
+  let fallbackReason = 'missing';
+  try {
+    snapshot = await getCachedSnapshotValue(env, CAMPAIGN_SNAPSHOT_KEY, parseCampaignSnapshot);
+  } catch (error) {
+    logError(`Error reading campaign snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    fallbackReason = 'corrupt';
+  }
+  
+  return snapshot ?? await loadCampaignsFromD1(env, zoneId, fallbackReason, ctx);
+}
+
+/**
+ * Load every campaign of the snapshot
+ * Also resolves the zone time zone into the context when a campaign needs it
+ * @param env Environment for KV and D1 access
+ * @param context Targeting context of the request
+ * @param ctx Execution context for rebuilding KV after a fallback
+ * @returns Active campaigns
+ */
+async function loadCampaigns(env: Env, context: TargetingContext, ctx?: ExecutionContext): Promise<KvCampaign[]> {
+  const { campaigns } = await loadCampaignSnapshot(env, context.zoneId, ctx);
+  
+  // The zone time zone is only needed by dayparted campaigns without their own time zone
+  if (campaigns.some(campaign => !campaign.timezone && hasDaypartingRules(campaign))) {
+    context.zoneTimeZone = await fetchZoneTimeZone(env, context.zoneId);
+  }
+  
+  return campaigns;
+}
+
+/**
+ * Load the campaigns that can run in the request's zone
+ * Reads the per-zone index written by the sync, which holds the zone's campaigns with their rules
+ * compiled, falling back to every campaign of the snapshot when the zone has not been indexed yet
+ */
+async function loadZoneCampaigns(env: Env, context: TargetingContext, ctx?: ExecutionContext): Promise<KvCampaign[]> {
+  let index: ZoneCampaignIndex<KvCampaign> | null = null;
+  try {
+    index = await getCachedSnapshotValue(env, getCampaignIndexKey(context.zoneId), json => parseCampaignIndex<KvCampaign>(json));
+  } catch (error) {
+    logError(`Error reading campaign index of zone ${context.zoneId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  // Indexes written in an older format are ignored until the next sync
+  if (!index) {
+    return await loadCampaigns(env, context, ctx);
+  }
+  
+  context.zoneTimeZone = index.timezone ?? undefined;
+  return index.campaigns;
+}
+
+/**
+ * Get an active campaign by ID, e.g. for the click on an ad that was already served
+ * The zone's campaign index is read first, as serving cached it; campaigns not in it, such as
+ * campaigns whose zone rules changed after the ad was served, are looked up in the campaign snapshot
+ * @param env Environment for KV and D1 access
+ * @param context Targeting context of the request
+ * @param campaignId Campaign ID
+ * @param ctx Execution context for rebuilding KV after a fallback
+ * @returns The campaign, or null if it is not active
+ */
+export async function getSyncedCampaign(
+  env: Env,
+  context: TargetingContext,
+  campaignId: number,
+  ctx?: ExecutionContext
+): Promise<KvCampaign | null> {
+  const campaigns = await loadZoneCampaigns(env, context, ctx);
+  const indexed = campaigns.find(campaign => campaign.id === campaignId);
+  if (indexed) {
+    return indexed;
+  }
+  
+  const snapshot = await loadCampaignSnapshot(env, context.zoneId, ctx);
+  return snapshot.byId.get(campaignId) ?? null;
+}
+
+// How long campaigns loaded from D1 are reused by the fallbacks of this isolate, in milliseconds
+const D1_FALLBACK_CACHE_MS = 10_000;
+
+// Minimum time between KV rebuilds started by this isolate, in milliseconds
+const SNAPSHOT_REBUILD_COOLDOWN_MS = 60_000;
+
+// Pending KV rebuild of this isolate, so concurrent fallbacks start only one
+let snapshotRebuild: Promise<void> | null = null;
+let snapshotRebuildStartedAt = 0;
+
+// Campaigns recently loaded from D1, so a missing snapshot does not send every request to D1
+let d1Fallback: { snapshot: Promise<CampaignSnapshot>; expiresAt: number } | null = null;
+
+/**
+ * Load active campaigns straight from D1 with the sync's query, reused for a short time
+ * Emits a warning metric and, when an execution context is given, rebuilds KV in the background
+ * at most once per cooldown
+ * @param reason Why the KV snapshot could not be used, "missing" or "corrupt"
+ */
+async function loadCampaignsFromD1(
+  env: Env,
+  zoneId: number,
+  reason: string,
+  ctx?: ExecutionContext
+): Promise<CampaignSnapshot> {
+  const now = Date.now();
+  
+  // Structured so log-based metrics can count fallbacks by reason
+  logWarning(JSON.stringify({
+    level: 'warn',
+    metric: 'campaign_snapshot_fallback',
+    reason,
+    zone_id: zoneId,
+    timestamp: now
+  }));
+  
+  if (ctx && !snapshotRebuild && now - snapshotRebuildStartedAt >= SNAPSHOT_REBUILD_COOLDOWN_MS) {
+    snapshotRebuildStartedAt = now;
+    snapshotRebuild = syncAll(env)
+      .then(response => {
+        if (!response.ok) {
+          logError(`Rebuilding the KV snapshot failed with status ${response.status}`);
+        }
+      })
+      .finally(() => {
+        snapshotRebuild = null;
+      });
+    ctx.waitUntil(snapshotRebuild);
+  }
+  
+  let fallback = d1Fallback;
+  if (!fallback || fallback.expiresAt <= now) {
+    const created = {
+      snapshot: loadActiveCampaigns(env).then(campaigns => toCampaignSnapshot(campaigns as KvCampaign[], true)),
+      expiresAt: now + D1_FALLBACK_CACHE_MS
+    };
+    // Do not keep failed loads
+    created.snapshot.catch(() => {
+      if (d1Fallback === created) {
+        d1Fallback = null;
+      }
+    });
+    d1Fallback = fallback = created;
+  }
+  
+  return await fallback.snapshot;
+}
+
+/**
+ * Keep only the highest priority tier and pick one campaign from it by weight
+ * @param campaigns Eligible campaigns
+ * @returns The picked campaign or null if there are no candidates
+ */
+export function pickByPriorityAndWeight<T extends { priority?: number; weight?: number }>(
+  campaigns: T[]
+): T | null {
+  if (campaigns.length === 0) {
+    return null;
+  }
+  
+  const topPriority = Math.max(...campaigns.map(campaign => campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY));
+  const topTier = campaigns.filter(campaign => (campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY) === topPriority);
+  
+  return pickWeighted(topTier, campaign => campaign.weight ?? DEFAULT_CAMPAIGN_WEIGHT);
+}
+
+/**
+ * Pick a campaign by priority and weight, skipping frequency capped campaigns
+ * A lower priority tier is only considered once every campaign above it is capped
+ * @param campaigns Campaigns that passed the targeting rules
+ * @param env Environment for Durable Object access
+ * @param userKey Stable user key, capping is skipped when unknown
+ * @returns The picked campaign or null if all campaigns are capped
+ */
+async function pickUncappedCampaign(
+  campaigns: KvCampaign[],
+  env: Env,
+  userKey?: string
+): Promise<KvCampaign | null> {
+  let candidates = campaigns;
+  
+  while (candidates.length > 0) {
+    const topPriority = Math.max(...candidates.map(campaign => campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY));
+    const tier = candidates.filter(campaign => (campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY) === topPriority);
+    
+    const cappedFlags = userKey
+      ? await Promise.all(tier.map(campaign => isCampaignCapped(campaign, env, userKey)))
+      : tier.map(() => false);
+    const uncapped = tier.filter((_, index) => !cappedFlags[index]);
+    
+    const picked = pickByPriorityAndWeight(uncapped);
+    if (picked) {
+      return picked;
+    }
+    
+    candidates = candidates.filter(campaign => (campaign.priority ?? DEFAULT_CAMPAIGN_PRIORITY) !== topPriority);
+  }
+  
+  return null;
+}
+
+/**
+ * Check if any capping or unique_users rule of a campaign is exhausted for the user
+ */
+async function isCampaignCapped(campaign: KvCampaign, env: Env, userKey: string): Promise<boolean> {
+  const caps = getCappingRules(campaign.targeting_rules);
+  const visitLimits = getUniqueUsersRules(campaign.targeting_rules);
+  if (caps.length === 0 && visitLimits.length === 0) {
+    return false;
+  }
+  
+  const results = await Promise.all([
+    ...caps.map(cap => isFrequencyCapped(env, userKey, campaign.id, cap.impressions, cap.hours)),
+    ...visitLimits.map(limit => hasReachedVisitLimit(env, userKey, campaign.id, limit.visits, limit.hours))
+  ]);
+  return results.some(capped => capped);
+}
+
+/**
+ * Parse the capping rules of a campaign, skipping malformed rules
+ */
+function getCappingRules(
+  targetingRules: Array<{ targeting_rule_type_id: number; rule: string }>
+): Array<{ impressions: number; hours: number }> {
+  const caps: Array<{ impressions: number; hours: number }> = [];
+  
+  for (const rule of targetingRules) {
+    if (rule.targeting_rule_type_id !== TARGETING_RULE_TYPES.CAPPING) {
+      continue;
+    }
+    try {
+      caps.push(parseCappingRule(rule.rule));
+    } catch (error) {
+      logError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  
+  return caps;
+}
+
+/**
+ * Parse the unique_users rules of a campaign, skipping malformed rules
+ */
+function getUniqueUsersRules(
+  targetingRules: Array<{ targeting_rule_type_id: number; rule: string }>
+): Array<{ visits: number; hours: number }> {
+  const limits: Array<{ visits: number; hours: number }> = [];
+  
+  for (const rule of targetingRules) {
+    if (rule.targeting_rule_type_id !== TARGETING_RULE_TYPES.UNIQUE_USERS) {
+      continue;
+    }
+    try {
+      limits.push(parseUniqueUsersRule(rule.rule));
+    } catch (error) {
+      logError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  
+  return limits;
+}
+
+/**
+ * Check if a campaign has a rule of a type, in its flat rules or in its rule groups
+ */
+function hasRuleOfType(
+  campaign: { targeting_rules: Array<{ targeting_rule_type_id: number }>; targeting_groups?: TargetingRuleGroup | null },
+  typeId: number
+): boolean {
+  const groupHasType = (group: TargetingRuleGroup): boolean =>
+    group.rules.some(node => isTargetingRuleGroup(node) ? groupHasType(node) : node.targeting_rule_type_id === typeId);
+  
+  return campaign.targeting_rules.some(rule => rule.targeting_rule_type_id === typeId) ||
+    (campaign.targeting_groups ? groupHasType(campaign.targeting_groups) : false);
+}
+
+/**
+ * Check if a campaign has capping rules, so its impressions must be counted per user
+ */
+export function hasCappingRules(
+  campaign: { targeting_rules: Array<{ targeting_rule_type_id: number }>; targeting_groups?: TargetingRuleGroup | null }
+): boolean {
+  return hasRuleOfType(campaign, TARGETING_RULE_TYPES.CAPPING);
+}
+
+/**
+ * Check if a campaign has unique_users rules, so its visits must be counted per user
+ */
+export function hasUniqueUsersRules(
+  campaign: { targeting_rules: Array<{ targeting_rule_type_id: number }>; targeting_groups?: TargetingRuleGroup | null }
+): boolean {
+  return hasRuleOfType(campaign, TARGETING_RULE_TYPES.UNIQUE_USERS);
+}
+
+/**
+ * Get how long visits must be retained for a campaign's unique_users rules
+ * @param targetingRules Targeting rules of the campaign
+ * @returns The longest visit window in hours, or the default window without unique_users rules
+ */
+export function getVisitWindowHours(
+  targetingRules: Array<{ targeting_rule_type_id: number; rule: string }>
+): number {
+  const limits = getUniqueUsersRules(targetingRules);
+  if (limits.length === 0) {
+    return DEFAULT_CAPPING_WINDOW_HOURS;
+  }
+  return Math.max(...limits.map(limit => limit.hours));
+}
+
+/**
+ * Get how long impressions must be retained for a campaign's capping rules
+ * @param targetingRules Targeting rules of the campaign
+ * @returns The longest capping window in hours, or the default window without capping rules
+ */
+export function getCappingWindowHours(
+  targetingRules: Array<{ targeting_rule_type_id: number; rule: string }>
+): number {
+  const caps = getCappingRules(targetingRules);
+  if (caps.length === 0) {
+    return DEFAULT_CAPPING_WINDOW_HOURS;
+  }
+  return Math.max(...caps.map(cap => cap.hours));
+}
+
+/**
+ * Find the redirect URL override of a campaign that applies to a request
+ * Entries are matched like whitelist rules of their type; an unknown country or OS matches no entry
+ * @param overrides Redirect URL overrides of the campaign, in order
+ * @param context Request attributes, built the same way as for campaign selection
+ * @returns The first matching override, or null if the redirect URL applies
+ */
+export function resolveRedirectOverride(
+  overrides: RedirectOverride[],
+  context: TargetingContext
+): RedirectOverride | null {
+  return overrides.find(override => {
+    switch (override.targeting_rule_type_id) {
+      case TARGETING_RULE_TYPES.GEO:
+        return context.country !== '' && parseGeoRule(override.rule).includes(context.country);
+      case TARGETING_RULE_TYPES.DEVICE_TYPE:
+        return parseDeviceTypeRule(override.rule).includes(context.deviceType);
+      case TARGETING_RULE_TYPES.OS:
+        return matchesVersionedName(parseOsRule(override.rule), context.os, context.osVersion);
+      default:
+        return false;
+    }
+  }) ?? null;
+}
+
+/**
+ * Check if a campaign has weekday or hour targeting rules
+ */
+function hasDaypartingRules(campaign: KvCampaign): boolean {
+  return hasRuleOfType(campaign, TARGETING_RULE_TYPES.WEEKDAYS) || hasRuleOfType(campaign, TARGETING_RULE_TYPES.HOURS);
+}
+
+/**
+ * Fetch the configured time zone of a zone from KV
+ */
+async function fetchZoneTimeZone(env: Env, zoneId: number): Promise<string | undefined> {
+  const zoneData = await getCachedSnapshotValue<{ timezone?: string | null }>(env, `zones:${zoneId}`);
+  return zoneData?.timezone ?? undefined;
+}
+
+/**
+ * A targeting rule as evaluated by the matchers
+ * The parsed rule added when the snapshot is loaded is used instead of parsing the rule string
+ */
+type RuleEntry = Omit<CompilableTargetingRule, 'targeting_rule_type_id'>;
+
+/**
+ * Check if a campaign passes all targeting rules
+ * Flat rules are ANDed by type; the optional rule group must pass as well
+ */
+function isEligibleForAllRules(
+  campaign: {
+    timezone?: string | null;
+    targeting_rules: Array<RuleEntry & { targeting_rule_type_id: number }>;
+    targeting_groups?: TargetingRuleGroup | null;
+  },
+  context: TargetingContext
+): boolean {
+  // Group targeting rules by type
+  const rulesByType = new Map<number, RuleEntry[]>();
+  
+  for (const rule of campaign.targeting_rules) {
+    if (!rulesByType.has(rule.targeting_rule_type_id)) {
+      rulesByType.set(rule.targeting_rule_type_id, []);
+    }
+    rulesByType.get(rule.targeting_rule_type_id)?.push(rule);
+  }
+  
+  // Check the rules of each type
+  for (const [typeId, rules] of rulesByType) {
+    if (!passesRulesOfType(typeId, rules, context, campaign.timezone)) {
+      return false;
+    }
+  }
+  
+  // Check the AND/OR rule group
+  if (campaign.targeting_groups && !passesTargetingGroup(campaign.targeting_groups, context, campaign.timezone)) {
+    return false;
+  }
+  
+  // All targeting rules passed
+  return true;
+}
+
+/**
+ * Check if an AND/OR rule group passes
+ * Each rule in a group is evaluated on its own, as if it were the only rule of its type
+ */
+function passesTargetingGroup(
+  group: TargetingRuleGroup,
+  context: TargetingContext,
+  campaignTimeZone: string | null | undefined
+): boolean {
+  const passes = (node: TargetingRuleCondition | TargetingRuleGroup): boolean =>
+    isTargetingRuleGroup(node)
+      ? passesTargetingGroup(node, context, campaignTimeZone)
+      : passesRulesOfType(node.targeting_rule_type_id, [node], context, campaignTimeZone);
+  
+  return group.operator === 'or' ? group.rules.some(passes) : group.rules.every(passes);
+}
+
+/**
+ * Check if the rules of one targeting rule type pass
+ * Capping and unique_users rules always pass here; they are enforced per user when picking a campaign
+ * @param typeId Targeting rule type ID
+ * @param rules Rules of that type
+ * @param context Request attributes
+ * @param campaignTimeZone Campaign time zone for weekday and hour rules
+ */
+function passesRulesOfType(
+  typeId: number,
+  rules: RuleEntry[],
+  context: TargetingContext,
+  campaignTimeZone: string | null | undefined
+): boolean {
+  switch (typeId) {
+    case TARGETING_RULE_TYPES.ZONE_ID:
+      return passesZoneTargeting(rules, context.zoneId);
+    case TARGETING_RULE_TYPES.GEO:
+      return passesGeoTargeting(rules, context.country);
+    case TARGETING_RULE_TYPES.IP_ADDRESS:
+      return passesIpTargeting(rules, context.ip);
+    case TARGETING_RULE_TYPES.REGION:
+      return passesRegionTargeting(rules, context.region);
+    case TARGETING_RULE_TYPES.CITY:
+      return passesCityTargeting(rules, context.city);
+    case TARGETING_RULE_TYPES.POSTAL_CODE:
+      return passesPostalCodeTargeting(rules, context.postalCode);
+    case TARGETING_RULE_TYPES.METRO_CODE:
+      return passesMetroCodeTargeting(rules, context.metroCode);
+    case TARGETING_RULE_TYPES.DEVICE_TYPE:
+      return passesDeviceTargeting(rules, context.deviceType);
+    case TARGETING_RULE_TYPES.DEVICE_VENDOR:
+      return passesVendorTargeting(rules, context.vendor);
+    case TARGETING_RULE_TYPES.DEVICE_MODEL:
+      return passesModelTargeting(rules, context.model);
+    case TARGETING_RULE_TYPES.OS:
+      return passesOsTargeting(rules, context.os, context.osVersion);
+    case TARGETING_RULE_TYPES.BROWSER:
+      return passesBrowserTargeting(rules, context.browser, context.browserVersion);
+    case TARGETING_RULE_TYPES.ASN:
+      return passesAsnTargeting(rules, context.asn);
+    case TARGETING_RULE_TYPES.AS_ORGANIZATION:
+      return passesAsOrganizationTargeting(rules, context.asOrganization);
+    case TARGETING_RULE_TYPES.LANGUAGE:
+      return passesLanguageTargeting(rules, context.languages);
+    case TARGETING_RULE_TYPES.REFERRER_DOMAIN:
+      return passesReferrerTargeting(rules, context.referrerHost);
+    case TARGETING_RULE_TYPES.SUB_ID:
+      return passesSubIdTargeting(rules, context.subId);
+    case TARGETING_RULE_TYPES.WEEKDAYS:
+    case TARGETING_RULE_TYPES.HOURS: {
+      // Evaluated in the campaign time zone, falling back to the zone time zone and then UTC
+      const timeZone = resolveTimeZone(campaignTimeZone, context.zoneTimeZone);
+      const { weekday, hour } = getLocalWeekdayAndHour(context.timestamp, timeZone);
+      return typeId === TARGETING_RULE_TYPES.WEEKDAYS
+        ? passesWeekdayTargeting(rules, weekday)
+        : passesHourTargeting(rules, hour);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Resolve the time zone for time-based rules, skipping invalid values
+ */
+function resolveTimeZone(campaignTimeZone: string | null | undefined, zoneTimeZone: string | undefined): string {
+  if (campaignTimeZone && isValidTimeZone(campaignTimeZone)) {
+    return campaignTimeZone;
+  }
+  if (zoneTimeZone && isValidTimeZone(zoneTimeZone)) {
+    return zoneTimeZone;
+  }
+  return DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Check if the zone ID passes targeting rules
+ */
+function passesZoneTargeting(
+  zoneRules: RuleEntry[],
+  zoneId: number
+): boolean {
+  // If no rules exist, default behavior is to allow
+  if (zoneRules.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of zoneRules) {
+    const isInList = rule.value_set ? rule.value_set.has(zoneId) : parseZoneIdRule(rule.rule).includes(zoneId);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the country code passes targeting rules
+ */
+function passesGeoTargeting(
+  geoRules: RuleEntry[],
+  country: string
+): boolean {
+  // If no rules exist or country is missing, default behavior is to allow
+  if (geoRules.length === 0 || !country) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of geoRules) {
+    const isInList = rule.value_set ? rule.value_set.has(country) : parseGeoRule(rule.rule).includes(country);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the client IP address passes targeting rules
+ * Uses the ranges precompiled at sync time, compiling from the rule string otherwise
+ */
+function passesIpTargeting(
+  ipRules: RuleEntry[],
+  ip: string
+): boolean {
+  // If no rules exist or IP is missing, default behavior is to allow
+  if (ipRules.length === 0 || !ip) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of ipRules) {
+    let isInList = false;
+    try {
+      const ranges = rule.ip_ranges ?? compileIpRanges(parseIpRule(rule.rule));
+      isInList = isIpInRanges(ip, ranges);
+    } catch (error) {
+      // A malformed rule matches nothing
+      logError(error instanceof Error ? error.message : String(error));
+    }
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the region passes targeting rules
+ */
+function passesRegionTargeting(
+  regionRules: RuleEntry[],
+  region: string
+): boolean {
+  // If no rules exist or region is missing, default behavior is to allow
+  if (regionRules.length === 0 || !region) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of regionRules) {
+    const isInList = rule.value_set ? rule.value_set.has(region) : parseRegionRule(rule.rule).includes(region);
     
-    // Parse campaigns JSON
-    interface CampaignData {
-      id: number;
-      name: string;
-      redirect_url: string;
-      status: string;
-      targeting_rules: Array<{
-        targeting_rule_type_id: number;
-        targeting_method: string;
-        rule: string;
-      }>;
-      [key: string]: unknown;
-    }
-    
-    const campaigns = JSON.parse(campaignsJson) as CampaignData[];
-    
-    // Find the first eligible campaign
-    for (const campaign of campaigns) {
-      if (isEligibleForAllRules(campaign, zoneIdNum, country, deviceType, os, browser)) {
-        // Convert to CampaignDetail format
-        const targetingRules = campaign.targeting_rules as unknown as TargetingRule[];
-        
-        return {
-          id: campaign.id,
-          name: campaign.name,
-          redirect_url: campaign.redirect_url,
-          status: campaign.status,
-          targeting_rules: targetingRules
-        };
-      }
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
     }
     
-    // No eligible campaigns found
-    return null;
-  } catch (error) {
-    logError(`Error selecting eligible campaign: ${error instanceof Error ? error.message : String(error)}`);
-    return null;
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
   }
+  
+  return true;
 }
 
 /**
- * Check if a campaign passes all targeting rules
+ * Check if the city passes targeting rules
  */
-function isEligibleForAllRules(
-  campaign: {
-    targeting_rules: Array<{
-      targeting_rule_type_id: number;
-      targeting_method: string;
-      rule: string;
-    }>;
-  },
-  zoneId: number,
-  country: string,
-  deviceType: string,
-  os: string,
-  browser: string
+function passesCityTargeting(
+  cityRules: RuleEntry[],
+  city: string
 ): boolean {
-  // Group targeting rules by type
-  const rulesByType = new Map<number, Array<{ 
-    targeting_method: string;
-    rule: string;
-  }>>();
-  
-  for (const rule of campaign.targeting_rules) {
-    if (!rulesByType.has(rule.targeting_rule_type_id)) {
-      rulesByType.set(rule.targeting_rule_type_id, []);
-    }
-    rulesByType.get(rule.targeting_rule_type_id)?.push({
-      targeting_method: rule.targeting_method,
-      rule: rule.rule
-    });
+  // If no rules exist or city is missing, default behavior is to allow
+  if (cityRules.length === 0 || !city) {
+    return true;
   }
   
-  // Check zone ID targeting rules
-  const zoneRules = rulesByType.get(TARGETING_RULE_TYPES.ZONE_ID) ?? [];
-  if (!passesZoneTargeting(zoneRules, zoneId)) {
-    return false;
+  // Check each rule
+  for (const rule of cityRules) {
+    const isInList = rule.value_set ? rule.value_set.has(city) : parseCityRule(rule.rule).includes(city);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
   }
   
-  // Check geo targeting rules
-  const geoRules = rulesByType.get(TARGETING_RULE_TYPES.GEO) ?? [];
-  if (!passesGeoTargeting(geoRules, country)) {
-    return false;
+  return true;
+}
+
+/**
+ * Check if the postal code passes targeting rules
+ */
+function passesPostalCodeTargeting(
+  postalCodeRules: RuleEntry[],
+  postalCode: string
+): boolean {
+  // If no rules exist or postal code is missing, default behavior is to allow
+  if (postalCodeRules.length === 0 || !postalCode) {
+    return true;
   }
   
-  // Check device type targeting rules
-  const deviceRules = rulesByType.get(TARGETING_RULE_TYPES.DEVICE_TYPE) ?? [];
-  if (!passesDeviceTargeting(deviceRules, deviceType)) {
-    return false;
+  // Check each rule
+  for (const rule of postalCodeRules) {
+    const isInList = rule.value_set ? rule.value_set.has(postalCode) : parsePostalCodeRule(rule.rule).includes(postalCode);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
   }
   
-  // Check OS targeting rules
-  const osRules = rulesByType.get(TARGETING_RULE_TYPES.OS) ?? [];
-  if (!passesOsTargeting(osRules, os)) {
-    return false;
+  return true;
+}
+
+/**
+ * Check if the metro code passes targeting rules
+ */
+function passesMetroCodeTargeting(
+  metroCodeRules: RuleEntry[],
+  metroCode: string
+): boolean {
+  // If no rules exist or metro code is missing, default behavior is to allow
+  if (metroCodeRules.length === 0 || !metroCode) {
+    return true;
   }
   
-  // Check browser targeting rules
-  const browserRules = rulesByType.get(TARGETING_RULE_TYPES.BROWSER) ?? [];
-  if (!passesBrowserTargeting(browserRules, browser)) {
-    return false;
+  // Check each rule
+  for (const rule of metroCodeRules) {
+    const isInList = rule.value_set ? rule.value_set.has(metroCode) : parseMetroCodeRule(rule.rule).includes(metroCode);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
   }
   
-  // All targeting rules passed
   return true;
 }
 
 /**
- * Check if the zone ID passes targeting rules
+ * Check if the device type passes targeting rules
  */
-function passesZoneTargeting(
-  zoneRules: Array<{ targeting_method: string; rule: string }>,
-  zoneId: number
+function passesDeviceTargeting(
+  deviceRules: RuleEntry[],
+  deviceType: string
 ): boolean {
   // If no rules exist, default behavior is to allow
-  if (zoneRules.length === 0) {
+  if (deviceRules.length === 0) {
     return true;
   }
   
   // Check each rule
-  for (const rule of zoneRules) {
-    const zoneIds = parseZoneIdRule(rule.rule);
-    const isInList = zoneIds.includes(zoneId);
+  for (const rule of deviceRules) {
+    const isInList = rule.value_set ? rule.value_set.has(deviceType) : parseDeviceTypeRule(rule.rule).includes(deviceType);
     
     if (rule.targeting_method === 'whitelist' && !isInList) {
       return false;
@@ -186,21 +1343,21 @@ function passesZoneTargeting(
 }
 
 /**
- * Check if the country code passes targeting rules
+ * Check if the device vendor passes targeting rules
+ * An unknown vendor matches no entry
  */
-function passesGeoTargeting(
-  geoRules: Array<{ targeting_method: string; rule: string }>,
-  country: string
+function passesVendorTargeting(
+  vendorRules: RuleEntry[],
+  vendor: string
 ): boolean {
-  // If no rules exist or country is missing, default behavior is to allow
-  if (geoRules.length === 0 || !country) {
+  // If no rules exist, default behavior is to allow
+  if (vendorRules.length === 0) {
     return true;
   }
   
   // Check each rule
-  for (const rule of geoRules) {
-    const countries = parseGeoRule(rule.rule);
-    const isInList = countries.includes(country);
+  for (const rule of vendorRules) {
+    const isInList = vendor !== '' && (rule.value_set ? rule.value_set.has(vendor.toLowerCase()) : parseDeviceVendorRule(rule.rule).includes(vendor.toLowerCase()));
     
     if (rule.targeting_method === 'whitelist' && !isInList) {
       return false;
@@ -215,21 +1372,23 @@ function passesGeoTargeting(
 }
 
 /**
- * Check if the device type passes targeting rules
+ * Check if the device model passes targeting rules
+ * An unknown model matches no entry
  */
-function passesDeviceTargeting(
-  deviceRules: Array<{ targeting_method: string; rule: string }>,
-  deviceType: string
+function passesModelTargeting(
+  modelRules: RuleEntry[],
+  model: string
 ): boolean {
   // If no rules exist, default behavior is to allow
-  if (deviceRules.length === 0) {
+  if (modelRules.length === 0) {
     return true;
   }
   
   // Check each rule
-  for (const rule of deviceRules) {
-    const deviceTypes = parseDeviceTypeRule(rule.rule);
-    const isInList = deviceTypes.includes(deviceType);
+  const normalizedModel = model.toLowerCase();
+  for (const rule of modelRules) {
+    const models = rule.patterns ?? parseDeviceModelRule(rule.rule);
+    const isInList = normalizedModel !== '' && models.some(pattern => matchesWildcard(normalizedModel, pattern));
     
     if (rule.targeting_method === 'whitelist' && !isInList) {
       return false;
@@ -244,11 +1403,23 @@ function passesDeviceTargeting(
 }
 
 /**
- * Check if the OS passes targeting rules
+ * Check if a name and version match any entry of an OS or browser rule
+ * Entries with a version condition never match an unknown version
+ */
+function matchesVersionedName(entries: VersionedNameEntry[], name: string, version: string): boolean {
+  const parsedVersion = parseVersion(version);
+  return entries.some(entry =>
+    entry.name === name && (!entry.version || satisfiesVersion(parsedVersion, entry.version))
+  );
+}
+
+/**
+ * Check if the OS and its version pass targeting rules
  */
 function passesOsTargeting(
-  osRules: Array<{ targeting_method: string; rule: string }>,
-  os: string
+  osRules: RuleEntry[],
+  os: string,
+  osVersion: string
 ): boolean {
   // If no rules exist, default behavior is to allow
   if (osRules.length === 0) {
@@ -257,8 +1428,8 @@ function passesOsTargeting(
   
   // Check each rule
   for (const rule of osRules) {
-    const osList = parseOsRule(rule.rule);
-    const isInList = osList.includes(os);
+    const osList = rule.names ?? parseOsRule(rule.rule);
+    const isInList = matchesVersionedName(osList, os, osVersion);
     
     if (rule.targeting_method === 'whitelist' && !isInList) {
       return false;
@@ -273,11 +1444,12 @@ function passesOsTargeting(
 }
 
 /**
- * Check if the browser passes targeting rules
+ * Check if the browser and its version pass targeting rules
  */
 function passesBrowserTargeting(
-  browserRules: Array<{ targeting_method: string; rule: string }>,
-  browser: string
+  browserRules: RuleEntry[],
+  browser: string,
+  browserVersion: string
 ): boolean {
   // If no rules exist, default behavior is to allow
   if (browserRules.length === 0) {
@@ -286,8 +1458,225 @@ function passesBrowserTargeting(
   
   // Check each rule
   for (const rule of browserRules) {
-    const browsers = parseBrowserRule(rule.rule);
-    const isInList = browsers.includes(browser);
+    const browsers = rule.names ?? parseBrowserRule(rule.rule);
+    const isInList = matchesVersionedName(browsers, browser, browserVersion);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the ASN passes targeting rules
+ */
+function passesAsnTargeting(
+  asnRules: RuleEntry[],
+  asn: number | null
+): boolean {
+  // If no rules exist or ASN is missing, default behavior is to allow
+  if (asnRules.length === 0 || asn === null) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of asnRules) {
+    const isInList = rule.value_set ? rule.value_set.has(asn) : parseAsnRule(rule.rule).includes(asn);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the AS organization passes targeting rules
+ * An organization matches when its name contains any of the listed names
+ */
+function passesAsOrganizationTargeting(
+  asOrganizationRules: RuleEntry[],
+  asOrganization: string
+): boolean {
+  // If no rules exist or organization is missing, default behavior is to allow
+  if (asOrganizationRules.length === 0 || !asOrganization) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of asOrganizationRules) {
+    const organizations = rule.patterns ?? parseAsOrganizationRule(rule.rule);
+    const isInList = organizations.some(organization => asOrganization.includes(organization));
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the browser languages pass targeting rules
+ * Depending on the rule mode, only the first or any preferred language is compared
+ */
+function passesLanguageTargeting(
+  languageRules: RuleEntry[],
+  languages: string[]
+): boolean {
+  // If no rules exist or languages are missing, default behavior is to allow
+  if (languageRules.length === 0 || languages.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of languageRules) {
+    let isInList = false;
+    try {
+      const { mode, languages: entries } = rule.language_rule ?? parseLanguageRule(rule.rule);
+      const candidates = mode === 'first' ? languages.slice(0, 1) : languages;
+      isInList = candidates.some(language => entries.some(entry => languageMatches(language, entry)));
+    } catch (error) {
+      // A malformed rule matches nothing
+      logError(error instanceof Error ? error.message : String(error));
+    }
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the referrer hostname passes targeting rules
+ * A missing referrer is only matched by the "(none)" token
+ */
+function passesReferrerTargeting(
+  referrerRules: RuleEntry[],
+  referrerHost: string
+): boolean {
+  // If no rules exist, default behavior is to allow
+  if (referrerRules.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of referrerRules) {
+    let isInList = false;
+    try {
+      const domains = rule.patterns ?? parseReferrerDomainRule(rule.rule);
+      isInList = domains.some(domain => hostMatchesPattern(referrerHost, domain));
+    } catch (error) {
+      // A malformed rule matches nothing
+      logError(error instanceof Error ? error.message : String(error));
+    }
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the sub_id passes targeting rules
+ * A missing sub_id matches no pattern
+ */
+function passesSubIdTargeting(
+  subIdRules: RuleEntry[],
+  subId: string
+): boolean {
+  // If no rules exist, default behavior is to allow
+  if (subIdRules.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of subIdRules) {
+    const patterns = rule.patterns ?? parseSubIdRule(rule.rule);
+    const isInList = subId !== '' && patterns.some(pattern => matchesWildcard(subId, pattern));
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the local day of week passes targeting rules
+ */
+function passesWeekdayTargeting(
+  weekdayRules: RuleEntry[],
+  weekday: number
+): boolean {
+  // If no rules exist, default behavior is to allow
+  if (weekdayRules.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of weekdayRules) {
+    const isInList = rule.value_set ? rule.value_set.has(weekday) : parseWeekdaysRule(rule.rule).includes(weekday);
+    
+    if (rule.targeting_method === 'whitelist' && !isInList) {
+      return false;
+    }
+    
+    if (rule.targeting_method === 'blacklist' && isInList) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check if the local hour of day passes targeting rules
+ */
+function passesHourTargeting(
+  hourRules: RuleEntry[],
+  hour: number
+): boolean {
+  // If no rules exist, default behavior is to allow
+  if (hourRules.length === 0) {
+    return true;
+  }
+  
+  // Check each rule
+  for (const rule of hourRules) {
+    const isInList = rule.value_set ? rule.value_set.has(hour) : parseHoursRule(rule.rule).includes(hour);
     
     if (rule.targeting_method === 'whitelist' && !isInList) {
       return false;
@@ -299,4 +1688,4 @@ function passesBrowserTargeting(
   }
   
   return true;
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+/**
+ * Frequency Cap Service
+ * Talks to the CounterDO Durable Object to check and record per-user impressions and visits
+ */
+
+import type { Env } from '../models/interfaces';
+
+// A logger function that's compatible with linting rules
+function logError(message: string): void {
+  // eslint-disable-next-line no-console
+  console.error(message);
+}
+
+/**
+ * Get the counter stub for a user
+ * Each user gets their own Durable Object so per-user history stays small
+ * and requests for different users never contend on one object
+ */
+function getUserCounter(env: Env, userKey: string): DurableObjectStub {
+  return env.COUNTER.get(env.COUNTER.idFromName(`user:${userKey}`));
+}
+
+/**
+ * Check if a user has reached the impression cap for a campaign
+ * @param env Environment with the COUNTER binding
+ * @param userKey Stable user key
+ * @param campaignId Campaign ID
+ * @param limit Maximum impressions within the window
+ * @param windowHours Length of the sliding window in hours
+ * @returns true if the user is capped; errors are logged and treated as not capped
+ */
+export async function isFrequencyCapped(
+  env: Env,
+  userKey: string,
+  campaignId: number,
+  limit: number,
+  windowHours: number
+): Promise<boolean> {
+  try {
+    const response = await getUserCounter(env, userKey).fetch('https://counter/check-cap', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId, userId: userKey, cappingValue: limit, windowHours })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Counter responded with status ${response.status}`);
+    }
+
+    const result = await response.json() as { capped: boolean };
+    return result.capped;
+  } catch (error) {
+    logError(`Error checking frequency cap for campaign ${campaignId}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Record an impression of a campaign for a user
+ * @param env Environment with the COUNTER binding
+ * @param userKey Stable user key
+ * @param campaignId Campaign ID
+ * @param windowHours How long to retain the impression for capping, in hours
+ */
+export async function recordUserImpression(
+  env: Env,
+  userKey: string,
+  campaignId: number,
+  windowHours: number
+): Promise<void> {
+  try {
+    const response = await getUserCounter(env, userKey).fetch('https://counter/impression', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId, userId: userKey, windowHours })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Counter responded with status ${response.status}`);
+    }
+  } catch (error) {
+    logError(`Error recording impression for campaign ${campaignId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check if a user has reached the visit limit of a unique_users rule for a campaign
+ * @param env Environment with the COUNTER binding
+ * @param userKey Stable user key
+ * @param campaignId Campaign ID
+ * @param visitLimit Maximum visits within the window
+ * @param windowHours Length of the sliding window in hours
+ * @returns true if the limit is reached; errors are logged and treated as not limited
+ */
+export async function hasReachedVisitLimit(
+  env: Env,
+  userKey: string,
+  campaignId: number,
+  visitLimit: number,
+  windowHours: number
+): Promise<boolean> {
+  try {
+    const response = await getUserCounter(env, userKey).fetch('https://counter/check-visits', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId, userId: userKey, visitLimit, windowHours })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Counter responded with status ${response.status}`);
+    }
+
+    const result = await response.json() as { limited: boolean };
+    return result.limited;
+  } catch (error) {
+    logError(`Error checking visit limit for campaign ${campaignId}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Record a visit (click) of a campaign for a user
+ * @param env Environment with the COUNTER binding
+ * @param userKey Stable user key
+ * @param campaignId Campaign ID
+ * @param windowHours How long to retain the visit for visit limits, in hours
+ */
+export async function recordUserClick(
+  env: Env,
+  userKey: string,
+  campaignId: number,
+  windowHours: number
+): Promise<void> {
+  try {
+    const response = await getUserCounter(env, userKey).fetch('https://counter/click', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId, userId: userKey, windowHours })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Counter responded with status ${response.status}`);
+    }
+  } catch (error) {
+    logError(`Error recording click for campaign ${campaignId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
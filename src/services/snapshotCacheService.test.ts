@@ -0,0 +1,76 @@
+import { clearSnapshotCache, getCachedSnapshotValue, SNAPSHOT_MAX_AGE_MS, SNAPSHOT_MISSING_MAX_AGE_MS } from './snapshotCacheService';
+import { Env } from '../models/interfaces';
+
+/**
+ * Build an environment whose KV namespace counts reads of each key
+ */
+function createEnv(values: Map<string, string>, reads: Map<string, number>): Env {
+  return {
+    campaigns_zones: {
+      get: (key: string): Promise<string | null> => {
+        reads.set(key, (reads.get(key) ?? 0) + 1);
+        return Promise.resolve(values.get(key) ?? null);
+      }
+    }
+  } as unknown as Env;
+}
+
+describe('getCachedSnapshotValue', () => {
+  let now: number;
+  let values: Map<string, string>;
+  let reads: Map<string, number>;
+  let env: Env;
+
+  beforeEach(() => {
+    clearSnapshotCache();
+    now = Date.parse('2024-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    values = new Map([['snapshot_version', 'v1'], ['zones:1', '{"id":1}']]);
+    reads = new Map();
+    env = createEnv(values, reads);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a value until the maximum age even if the version did not change', async () => {
+    expect(await getCachedSnapshotValue(env, 'zones:1')).toEqual({ id: 1 });
+    values.set('zones:1', '{"id":2}');
+
+    now += SNAPSHOT_MAX_AGE_MS - 1;
+    expect(await getCachedSnapshotValue(env, 'zones:1')).toEqual({ id: 1 });
+
+    now += 1;
+    expect(await getCachedSnapshotValue(env, 'zones:1')).toEqual({ id: 2 });
+    expect(reads.get('zones:1')).toBe(2);
+  });
+
+  it('reads a missing key again after the shorter missing age', async () => {
+    expect(await getCachedSnapshotValue(env, 'zones:2')).toBeNull();
+    values.set('zones:2', '{"id":2}');
+
+    now += SNAPSHOT_MISSING_MAX_AGE_MS - 1;
+    expect(await getCachedSnapshotValue(env, 'zones:2')).toBeNull();
+
+    now += 1;
+    expect(await getCachedSnapshotValue(env, 'zones:2')).toEqual({ id: 2 });
+  });
+
+  it('drops every value when the version changes', async () => {
+    await getCachedSnapshotValue(env, 'zones:1');
+    values.set('zones:1', '{"id":2}');
+    values.set('snapshot_version', 'v2');
+
+    now += 10_000;
+    expect(await getCachedSnapshotValue(env, 'zones:1')).toEqual({ id: 2 });
+  });
+
+  it('does not cache values that fail to parse', async () => {
+    values.set('zones:1', 'not json');
+    await expect(getCachedSnapshotValue(env, 'zones:1')).rejects.toThrow();
+
+    values.set('zones:1', '{"id":1}');
+    expect(await getCachedSnapshotValue(env, 'zones:1')).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Snapshot Cache Service
+ * Keeps parsed KV values of the campaign snapshot in isolate memory.
+ * The sync writes a new version stamp whenever it changes the snapshot; each isolate
+ * reads the stamp at most once per check interval and drops its cache when it changes.
+ * Cached values also expire after a maximum age, so a value read before a KV write had
+ * propagated, or a key that was missing, is read again even if the stamp did not change.
+ */
+
+import type { Env } from '../models/interfaces';
+
+// KV key of the version stamp written by the sync
+export const SNAPSHOT_VERSION_KEY = 'snapshot_version';
+
+// How often an isolate checks the version stamp, in milliseconds
+export const SNAPSHOT_VERSION_CHECK_INTERVAL_MS = 10_000;
+
+// How long a parsed value is kept, in milliseconds
+export const SNAPSHOT_MAX_AGE_MS = 60_000;
+
+// How long a missing key is cached as null, in milliseconds
+export const SNAPSHOT_MISSING_MAX_AGE_MS = 10_000;
+
+/**
+ * A cached read of a KV key
+ */
+interface CachedValue {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+// Parsed values by KV key; pending reads are shared by concurrent requests
+const cachedValues = new Map<string, CachedValue>();
+
+let cachedVersion: string | null = null;
+let versionCheckedAt = 0;
+let versionCheck: Promise<void> | null = null;
+
+/**
+ * Drop the cache when the version stamp has changed since the last check
+ */
+async function refreshVersion(env: Env, now: number): Promise<void> {
+  if (now - versionCheckedAt < SNAPSHOT_VERSION_CHECK_INTERVAL_MS) {
+    return;
+  }
+  
+  // Share one check between concurrent requests
+  versionCheck ??= (async (): Promise<void> => {
+    try {
+      const version = await env.campaigns_zones.get(SNAPSHOT_VERSION_KEY);
+      if (version !== cachedVersion) {
+        cachedValues.clear();
+        cachedVersion = version;
+      }
+      versionCheckedAt = now;
+    } finally {
+      versionCheck = null;
+    }
+  })();
+  
+  await versionCheck;
+}
+
+/**
+ * Get a parsed value of the campaign snapshot from KV, cached in isolate memory
+ * The parse function runs once per version and maximum age, so it may also precompute derived data.
+ * Missing keys are cached as null for a shorter time.
+ * Every caller reading the same key must pass the same parse function.
+ * @param env Environment with the KV binding
+ * @param key KV key, e.g. "campaigns" or "zones:1"
+ * @param parse Converts the stored JSON text into the cached value
+ * @returns The cached value, or null if the key does not exist
+ */
+export async function getCachedSnapshotValue<T>(
+  env: Env,
+  key: string,
+  parse: (json: string) => T = (json): T => JSON.parse(json) as T
+): Promise<T | null> {
+  const now = Date.now();
+  await refreshVersion(env, now);
+  
+  let entry = cachedValues.get(key);
+  if (!entry || entry.expiresAt <= now) {
+    const value = env.campaigns_zones.get(key).then(json => json === null ? null : parse(json));
+    const created: CachedValue = { value, expiresAt: now + SNAPSHOT_MAX_AGE_MS };
+    cachedValues.set(key, created);
+    
+    value.then(
+      result => {
+        if (result === null) {
+          created.expiresAt = now + SNAPSHOT_MISSING_MAX_AGE_MS;
+        }
+      },
+      () => {
+        // Do not keep failed reads or unparsable values
+        if (cachedValues.get(key) === created) {
+          cachedValues.delete(key);
+        }
+      }
+    );
+    entry = created;
+  }
+  
+  return await (entry.value as Promise<T | null>);
+}
+
+/**
+ * Drop all cached values of this isolate
+ */
+export function clearSnapshotCache(): void {
+  cachedValues.clear();
+  cachedVersion = null;
+  versionCheckedAt = 0;
+}
+
+/**
+ * Write a new version stamp after the snapshot changed, so every isolate reloads it
+ * The cache of the calling isolate is dropped right away
+ * @param env Environment with the KV binding
+ */
+export async function bumpSnapshotVersion(env: Env): Promise<void> {
+  await env.campaigns_zones.put(SNAPSHOT_VERSION_KEY, `${Date.now()}-${crypto.randomUUID()}`);
+  clearSnapshotCache();
+}
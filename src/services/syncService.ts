@@ -2,6 +2,14 @@ import type { KVNamespace } from '@cloudflare/workers-types';
 import { parseAndValidateId } from '../utils/idValidation';
 import { hasValidAuthorizationAsync } from '../utils/auth';
 import type { Env } from '../models/interfaces';
+import { TARGETING_RULE_TYPES, TargetingRuleCondition, TargetingRuleGroup, parseIpRule, parseTargetingRuleGroup, isTargetingRuleGroup } from '../models/TargetingRule';
+import { SyncedLandingPage } from '../models/LandingPage';
+import { SyncedCreative } from '../models/Creative';
+import { DEFAULT_ZONE_FORMAT } from '../models/Zone';
+import { RedirectOverride, parseRedirectOverrides } from '../models/RedirectOverride';
+import { compileIpRanges, CompiledIpRanges } from '../utils/ipMatching';
+import { updateCampaignIndexForCampaign, updateZoneCampaignIndex, writeCampaignIndex } from './campaignIndexService';
+import { bumpSnapshotVersion } from './snapshotCacheService';
 
 /**
  * Type for the environment with required bindings for sync operations
@@ -27,10 +35,30 @@ interface Campaign {
   status: string;
   start_date?: number;
   end_date?: number;
+  priority?: number;
+  weight?: number;
+  timezone?: string;
+  bid_price?: number | null;
   targeting_rules: TargetingRule[];
+  // JSON text as read from D1, parsed into a group before it is written to KV
+  targeting_groups?: TargetingRuleGroup | string | null;
+  // Active landing pages that clicks rotate between
+  landing_pages?: SyncedLandingPage[];
+  // Active creatives shown in banner, video and native zones
+  creatives?: SyncedCreative[];
+  // JSON text as read from D1, parsed into a list before it is written to KV
+  redirect_overrides?: RedirectOverride[] | string | null;
   [key: string]: unknown;
 }
 
+/**
+ * Campaign whose rule group and redirect overrides have been parsed
+ */
+export type PreparedCampaign = Campaign & {
+  targeting_groups?: TargetingRuleGroup | null;
+  redirect_overrides?: RedirectOverride[];
+};
+
 /**
  * Type for targeting rule data
  */
@@ -39,9 +67,143 @@ interface TargetingRule {
   targeting_method: string;
   rule: string;
   campaign_id?: number;
+  // Precompiled ranges of IP address rules
+  ip_ranges?: CompiledIpRanges;
   [key: string]: unknown;
 }
 
+/**
+ * Precompile targeting rules that are expensive to parse on every request
+ * Malformed rules are left as-is and evaluated from the rule string during selection
+ */
+function precompileTargetingRules<T extends TargetingRule | TargetingRuleCondition>(rules: T[]): T[] {
+  for (const rule of rules) {
+    if (rule.targeting_rule_type_id !== TARGETING_RULE_TYPES.IP_ADDRESS) {
+      continue;
+    }
+    try {
+      rule.ip_ranges = compileIpRanges(parseIpRule(rule.rule));
+    } catch (error) {
+      logError(`Error compiling IP rule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Parse the stored AND/OR rule group of a campaign and precompile its rules
+ * A group that cannot be parsed is replaced by an empty OR group, which never matches,
+ * so a broken group cannot widen the campaign's audience
+ */
+function prepareTargetingGroups(campaign: Campaign): void {
+  let group: TargetingRuleGroup | null;
+  try {
+    const stored = campaign.targeting_groups;
+    group = typeof stored === 'string' ? parseTargetingRuleGroup(stored) : stored ?? null;
+  } catch (error) {
+    logError(`Error parsing targeting groups for campaign ${campaign.id}: ${error instanceof Error ? error.message : String(error)}`);
+    group = { operator: 'or', rules: [] };
+  }
+  
+  if (group) {
+    const conditions: TargetingRuleCondition[] = [];
+    const collect = (node: TargetingRuleGroup): void => {
+      for (const child of node.rules) {
+        if (isTargetingRuleGroup(child)) {
+          collect(child);
+        } else {
+          conditions.push(child);
+        }
+      }
+    };
+    collect(group);
+    precompileTargetingRules(conditions);
+  }
+  
+  campaign.targeting_groups = group;
+}
+
+/**
+ * Parse the stored redirect URL overrides of a campaign
+ * Overrides that cannot be parsed are dropped, so clicks fall back to the redirect URL
+ */
+function prepareRedirectOverrides(campaign: Campaign): void {
+  try {
+    const stored = campaign.redirect_overrides;
+    campaign.redirect_overrides = typeof stored === 'string' || !stored ? parseRedirectOverrides(stored) : stored;
+  } catch (error) {
+    logError(`Error parsing redirect overrides for campaign ${campaign.id}: ${error instanceof Error ? error.message : String(error)}`);
+    campaign.redirect_overrides = [];
+  }
+}
+
+/**
+ * Load the active landing pages of campaigns, grouped by campaign ID
+ * Pages with weight 0 are left out because they never receive clicks
+ */
+async function loadLandingPages(env: Env, campaignIds: number[]): Promise<Record<number, SyncedLandingPage[]>> {
+  const pagesResult = await env.DB.prepare(`
+    SELECT id, campaign_id, url, weight
+    FROM landing_pages
+    WHERE campaign_id IN (${campaignIds.map(() => '?').join(',')})
+    AND active = 1
+    AND weight > 0
+    ORDER BY id ASC
+  `).bind(...campaignIds).all<SyncedLandingPage & { campaign_id: number }>();
+  
+  if (pagesResult.error) {
+    throw new Error(`Database error: ${pagesResult.error}`);
+  }
+  
+  const pagesByCampaign: Record<number, SyncedLandingPage[]> = {};
+  for (const page of pagesResult.results ?? []) {
+    (pagesByCampaign[page.campaign_id] ??= []).push({ id: page.id, url: page.url, weight: page.weight });
+  }
+  return pagesByCampaign;
+}
+
+/**
+ * Load the active creatives of campaigns, grouped by campaign ID
+ * Creatives with weight 0 are left out because they are never served
+ */
+async function loadCreatives(env: Env, campaignIds: number[]): Promise<Record<number, SyncedCreative[]>> {
+  const creativesResult = await env.DB.prepare(`
+    SELECT id, campaign_id, type, width, height, image_url, html, media_url, mime_type, duration,
+      title, body, cta, icon_url, sponsor, weight
+    FROM creatives
+    WHERE campaign_id IN (${campaignIds.map(() => '?').join(',')})
+    AND active = 1
+    AND weight > 0
+    ORDER BY id ASC
+  `).bind(...campaignIds).all<SyncedCreative & { campaign_id: number }>();
+  
+  if (creativesResult.error) {
+    throw new Error(`Database error: ${creativesResult.error}`);
+  }
+  
+  const creativesByCampaign: Record<number, SyncedCreative[]> = {};
+  for (const { campaign_id: campaignId, ...creative } of creativesResult.results ?? []) {
+    (creativesByCampaign[campaignId] ??= []).push(creative);
+  }
+  return creativesByCampaign;
+}
+
+/**
+ * Read the campaign snapshot stored in KV
+ */
+async function loadSnapshotCampaigns(env: SyncEnv): Promise<PreparedCampaign[]> {
+  const campaignsJson = await env.campaigns_zones.get('campaigns');
+  return campaignsJson ? JSON.parse(campaignsJson) as PreparedCampaign[] : [];
+}
+
+/**
+ * Rebuild the per-zone campaign index from the campaigns stored in KV
+ * Used after zone changes, when the campaign snapshot itself is unchanged
+ */
+async function rebuildCampaignIndex(env: SyncEnv): Promise<number> {
+  return await writeCampaignIndex(env, await loadSnapshotCampaigns(env));
+}
+
 /**
  * Handle sync API requests
  */
@@ -115,7 +277,8 @@ export async function syncAll(env: SyncEnv): Promise<Response> {
   try {
     // Create dedicated functions that return responses without undefined values
     const syncCampaignsResponse = await syncAllCampaigns(env);
-    const syncZonesResponse = await syncAllZones(env);
+    // The campaign sync already indexed the active zones
+    const syncZonesResponse = await syncAllZones(env, { rebuildIndex: false });
     
     // Get the status codes and response bodies
     const campaignsStatus = syncCampaignsResponse.status;
@@ -158,76 +321,98 @@ export async function syncAll(env: SyncEnv): Promise<Response> {
 }
 
 /**
- * Sync all active campaigns from D1 to KV
+ * Load all active campaigns from D1 with their targeting rules, prepared for KV
+ * Used by the sync and by ad serving when the KV snapshot is unavailable
+ * @param env Environment with the DB binding
+ * @param now Unix timestamp in milliseconds that start and end dates are compared with
+ * @returns Active campaigns with precompiled targeting rules and parsed rule groups
  */
-export async function syncAllCampaigns(env: SyncEnv): Promise<Response> {
-  try {
-    // Get current timestamp in milliseconds
-    const now = Date.now();
+export async function loadActiveCampaigns(env: Env, now: number = Date.now()): Promise<PreparedCampaign[]> {
+  // Fetch all active campaigns with targeting rules
+  const campaignsResult = await env.DB.prepare(`
+    SELECT c.id, c.name, c.redirect_url, c.status, c.start_date, c.end_date, c.priority, c.weight, c.timezone, c.bid_price, c.targeting_groups, c.redirect_overrides
+    FROM campaigns c
+    WHERE c.status = 'active'
+    AND (c.start_date IS NULL OR c.start_date <= ?)
+    AND (c.end_date IS NULL OR c.end_date >= ?)
+  `).bind(now, now).all();
+  
+  if (campaignsResult.error) {
+    throw new Error(`Database error: ${campaignsResult.error}`);
+  }
+  
+  const campaigns = campaignsResult.results ?? [];
+  
+  // Get targeting rules for all active campaigns
+  if (campaigns.length > 0) {
+    const campaignIds = campaigns.map(campaign => (campaign as { id: number }).id);
     
-    // Fetch all active campaigns with targeting rules
-    const campaignsResult = await env.DB.prepare(`
-      SELECT c.id, c.name, c.redirect_url, c.status, c.start_date, c.end_date
-      FROM campaigns c
-      WHERE c.status = 'active'
-      AND (c.start_date IS NULL OR c.start_date <= ?)
-      AND (c.end_date IS NULL OR c.end_date >= ?)
-    `).bind(now, now).all();
+    // Get rules for all campaigns
+    const rulesResult = await env.DB.prepare(`
+      SELECT 
+        campaign_id, 
+        targeting_rule_type_id, 
+        targeting_method, 
+        rule
+      FROM 
+        targeting_rules
+      WHERE 
+        campaign_id IN (${campaignIds.map(() => '?').join(',')})
+    `).bind(...campaignIds).all();
     
-    if (campaignsResult.error) {
-      throw new Error(`Database error: ${campaignsResult.error}`);
+    if (rulesResult.error) {
+      throw new Error(`Database error: ${rulesResult.error}`);
     }
     
-    const campaigns = campaignsResult.results ?? [];
+    const rules = rulesResult.results ?? [];
+    const landingPages = await loadLandingPages(env, campaignIds);
+    const creatives = await loadCreatives(env, campaignIds);
     
-    // Get targeting rules for all active campaigns
-    if (campaigns.length > 0) {
-      const campaignIds = campaigns.map(campaign => (campaign as { id: number }).id);
-      
-      // Get rules for all campaigns
-      const rulesResult = await env.DB.prepare(`
-        SELECT 
-          campaign_id, 
-          targeting_rule_type_id, 
-          targeting_method, 
-          rule
-        FROM 
-          targeting_rules
-        WHERE 
-          campaign_id IN (${campaignIds.map(() => '?').join(',')})
-      `).bind(...campaignIds).all();
-      
-      if (rulesResult.error) {
-        throw new Error(`Database error: ${rulesResult.error}`);
-      }
-      
-      const rules = rulesResult.results ?? [];
-      
-      // Organize rules by campaign
-      const rulesByCampaign = rules.reduce<Record<number, TargetingRule[]>>((acc, rule) => {
-        const campaignId = (rule as TargetingRule).campaign_id;
-        if (campaignId !== undefined) {
-          if (!acc[campaignId]) {
-            acc[campaignId] = [];
-          }
-          acc[campaignId].push(rule as TargetingRule);
+    // Organize rules by campaign
+    const rulesByCampaign = rules.reduce<Record<number, TargetingRule[]>>((acc, rule) => {
+      const campaignId = (rule as TargetingRule).campaign_id;
+      if (campaignId !== undefined) {
+        if (!acc[campaignId]) {
+          acc[campaignId] = [];
         }
-        return acc;
-      }, {});
-      
-      // Add targeting rules to each campaign
-      for (const campaign of campaigns) {
-        const campaignId = (campaign as { id: number }).id;
-        (campaign as Campaign).targeting_rules = rulesByCampaign[campaignId] ?? [];
+        acc[campaignId].push(rule as TargetingRule);
       }
+      return acc;
+    }, {});
+    
+    // Add targeting rules to each campaign
+    for (const campaign of campaigns) {
+      const campaignId = (campaign as { id: number }).id;
+      (campaign as Campaign).targeting_rules = precompileTargetingRules(rulesByCampaign[campaignId] ?? []);
+      prepareTargetingGroups(campaign as Campaign);
+      prepareRedirectOverrides(campaign as Campaign);
+      (campaign as Campaign).landing_pages = landingPages[campaignId] ?? [];
+      (campaign as Campaign).creatives = creatives[campaignId] ?? [];
     }
+  }
+  
+  return campaigns as PreparedCampaign[];
+}
+
+/**
+ * Sync all active campaigns from D1 to KV
+ */
+export async function syncAllCampaigns(env: SyncEnv): Promise<Response> {
+  try {
+    // Fetch all active campaigns with targeting rules
+    const campaigns = await loadActiveCampaigns(env);
     
     // Store in KV - this replaces all campaigns with just the active ones
     await env.campaigns_zones.put('campaigns', JSON.stringify(campaigns));
     
+    // Store the per-zone index used by ad serving
+    const indexedZones = await writeCampaignIndex(env, campaigns);
+    await bumpSnapshotVersion(env);
+    
     return new Response(JSON.stringify({
       success: true,
-      synced_campaigns: campaigns.length
+      synced_campaigns: campaigns.length,
+      indexed_zones: indexedZones
     }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -246,12 +431,13 @@ export async function syncAllCampaigns(env: SyncEnv): Promise<Response> {
 
 /**
  * Sync all active zones from D1 to KV
+ * @param options.rebuildIndex Whether to rebuild the per-zone campaign index, true by default
  */
-export async function syncAllZones(env: SyncEnv): Promise<Response> {
+export async function syncAllZones(env: SyncEnv, options: { rebuildIndex?: boolean } = {}): Promise<Response> {
   try {
     // Fetch all active zones from D1
     const zonesResult = await env.DB.prepare(`
-      SELECT id, name, traffic_back_url
+      SELECT id, name, traffic_back_url, timezone, format, width, height, native_layout
       FROM zones
       WHERE status = 'active'
     `).all();
@@ -294,17 +480,27 @@ export async function syncAllZones(env: SyncEnv): Promise<Response> {
       const zoneId = (zone as { id: number }).id;
       return env.campaigns_zones.put(`zones:${zoneId}`, JSON.stringify({
         id: zoneId,
-        traffic_back_url: (zone as { traffic_back_url?: string }).traffic_back_url ?? null
+        traffic_back_url: (zone as { traffic_back_url?: string }).traffic_back_url ?? null,
+        timezone: (zone as { timezone?: string }).timezone ?? null,
+        format: (zone as { format?: string }).format ?? DEFAULT_ZONE_FORMAT,
+        width: (zone as { width?: number }).width ?? null,
+        height: (zone as { height?: number }).height ?? null,
+        native_layout: (zone as { native_layout?: string }).native_layout ?? null
       }));
     });
     
     // Wait for all operations to complete
     await Promise.all([...deletePromises, ...putPromises]);
     
+    // Zones may have been added or removed, so rebuild the per-zone campaign index
+    const indexedZones = options.rebuildIndex === false ? undefined : await rebuildCampaignIndex(env);
+    await bumpSnapshotVersion(env);
+    
     return new Response(JSON.stringify({
       success: true,
       synced_zones: zones.length,
-      removed_zones: deletePromises.length
+      removed_zones: deletePromises.length,
+      indexed_zones: indexedZones
     }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -354,7 +550,7 @@ export async function syncCampaign(campaignId: string, env: SyncEnv): Promise<Re
     
     // Fetch the specific campaign with targeting rules
     const campaignResult = await env.DB.prepare(`
-      SELECT c.id, c.name, c.redirect_url, c.status, c.start_date, c.end_date
+      SELECT c.id, c.name, c.redirect_url, c.status, c.start_date, c.end_date, c.priority, c.weight, c.timezone, c.bid_price, c.targeting_groups, c.redirect_overrides
       FROM campaigns c
       WHERE c.id = ?
     `).bind(id).all();
@@ -389,7 +585,15 @@ export async function syncCampaign(campaignId: string, env: SyncEnv): Promise<Re
     }
     
     // Add targeting rules to the campaign
-    campaign.targeting_rules = rulesResult.results as TargetingRule[] ?? [];
+    campaign.targeting_rules = precompileTargetingRules(rulesResult.results as TargetingRule[] ?? []);
+    prepareTargetingGroups(campaign);
+    prepareRedirectOverrides(campaign);
+    
+    // Add the landing pages that clicks rotate between
+    campaign.landing_pages = (await loadLandingPages(env, [id]))[id] ?? [];
+    
+    // Add the creatives shown in banner zones
+    campaign.creatives = (await loadCreatives(env, [id]))[id] ?? [];
     
     // Check if campaign should be active based on dates
     const isActive = 
@@ -398,6 +602,7 @@ export async function syncCampaign(campaignId: string, env: SyncEnv): Promise<Re
       (!campaign.end_date || campaign.end_date >= now);
     
     // Update the campaigns list for KV
+    const previous = campaigns.find((c: Campaign) => c.id === id);
     // Remove existing campaign with this ID if present
     campaigns = campaigns.filter((c: Campaign) => c.id !== id);
     
@@ -409,6 +614,15 @@ export async function syncCampaign(campaignId: string, env: SyncEnv): Promise<Re
     // Store updated campaign list in KV
     await env.campaigns_zones.put('campaigns', JSON.stringify(campaigns));
     
+    // Update the indexes of the zones the campaign joined or left
+    await updateCampaignIndexForCampaign(
+      env,
+      campaigns as PreparedCampaign[],
+      previous as PreparedCampaign | undefined,
+      isActive ? campaign as PreparedCampaign : undefined
+    );
+    await bumpSnapshotVersion(env);
+    
     return new Response(JSON.stringify({
       success: true,
       campaign_id: id,
@@ -446,7 +660,7 @@ export async function syncZone(zoneId: string, env: SyncEnv): Promise<Response>
     
     // Fetch the specific zone
     const zoneResult = await env.DB.prepare(`
-      SELECT id, name, traffic_back_url, status
+      SELECT id, name, traffic_back_url, timezone, format, width, height, native_layout, status
       FROM zones
       WHERE id = ?
     `).bind(id).all();
@@ -466,6 +680,11 @@ export async function syncZone(zoneId: string, env: SyncEnv): Promise<Response>
       id: number; 
       name: string; 
       traffic_back_url?: string; 
+      timezone?: string;
+      format?: string;
+      width?: number;
+      height?: number;
+      native_layout?: string;
       status: string 
     };
     const isActive = zone.status === 'active';
@@ -474,13 +693,27 @@ export async function syncZone(zoneId: string, env: SyncEnv): Promise<Response>
       // Store zone in KV
       await env.campaigns_zones.put(`zones:${id}`, JSON.stringify({
         id,
-        traffic_back_url: zone.traffic_back_url ?? null
+        traffic_back_url: zone.traffic_back_url ?? null,
+        timezone: zone.timezone ?? null,
+        format: zone.format ?? DEFAULT_ZONE_FORMAT,
+        width: zone.width ?? null,
+        height: zone.height ?? null,
+        native_layout: zone.native_layout ?? null
       }));
     } else {
       // Delete zone from KV if it exists but is not active
       await env.campaigns_zones.delete(`zones:${id}`);
     }
     
+    // Rewrite the zone's campaign index for its new status and time zone
+    await updateZoneCampaignIndex(
+      env,
+      await loadSnapshotCampaigns(env),
+      id,
+      isActive ? { id, timezone: zone.timezone ?? null } : null
+    );
+    await bumpSnapshotVersion(env);
+    
     return new Response(JSON.stringify({
       success: true,
       zone_id: id,
@@ -42,6 +42,7 @@ interface DurableObjectStub {
 
 interface DurableObject {
   fetch(request: Request): Promise<Response>;
+  alarm?(): Promise<void>;
 }
 
 interface DurableObjectState {
@@ -60,6 +61,9 @@ interface DurableObjectStorage {
   delete(keys: string[]): Promise<number>;
   deleteAll(): Promise<void>;
   transaction<T>(closure: (txn: DurableObjectTransaction) => Promise<T>): Promise<T>;
+  getAlarm(): Promise<number | null>;
+  setAlarm(scheduledTime: number | Date): Promise<void>;
+  deleteAlarm(): Promise<void>;
 }
 
 interface DurableObjectTransaction {
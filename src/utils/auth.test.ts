@@ -0,0 +1,61 @@
+import { isAuthenticatedServerCaller } from './auth';
+import type { Env } from '../models/interfaces';
+
+const NOW = 1_700_000_000_000;
+
+/**
+ * Build an env with the admin API key and the given namespace API keys in KV
+ */
+function createEnv(apiKeys: Record<string, { namespace: string; expires_at?: number }>, apiKey?: string): Env {
+  return {
+    API_KEY: apiKey,
+    campaigns_zones: {
+      get: (key: string): Promise<unknown> => Promise.resolve(apiKeys[key.replace('api_key:', '')] ?? null)
+    }
+  } as unknown as Env;
+}
+
+/**
+ * Build a request with the given headers
+ */
+function request(headers: Record<string, string>): Request {
+  return new Request('https://ads.example.com/serve', { headers });
+}
+
+describe('isAuthenticatedServerCaller', () => {
+  const env = createEnv({
+    'ns-key': { namespace: 'partner' },
+    'expired-key': { namespace: 'partner', expires_at: NOW - 1 }
+  }, 'admin-key');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts the admin API key', async () => {
+    expect(await isAuthenticatedServerCaller(request({ Authorization: 'Bearer admin-key' }), env)).toBe(true);
+  });
+
+  it('accepts an API key of the requested namespace', async () => {
+    expect(await isAuthenticatedServerCaller(request({ Authorization: 'Bearer ns-key', 'X-Namespace': 'partner' }), env)).toBe(true);
+  });
+
+  it.each([
+    ['no credentials', {}],
+    ['a wrong admin key', { Authorization: 'Bearer other-key' }],
+    ['a non-bearer header', { Authorization: 'admin-key' }],
+    ['a namespace key without its namespace', { Authorization: 'Bearer ns-key' }],
+    ['a namespace key of another namespace', { Authorization: 'Bearer ns-key', 'X-Namespace': 'other' }],
+    ['an expired namespace key', { Authorization: 'Bearer expired-key', 'X-Namespace': 'partner' }]
+  ])('rejects %s', async (_name, headers: Record<string, string>) => {
+    expect(await isAuthenticatedServerCaller(request(headers), env)).toBe(false);
+  });
+
+  it('does not accept an empty bearer token when no admin key is configured', async () => {
+    expect(await isAuthenticatedServerCaller(request({ Authorization: 'Bearer ' }), createEnv({}))).toBe(false);
+  });
+});
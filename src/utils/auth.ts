@@ -74,4 +74,15 @@ export async function hasValidAuthorizationAsync(request: Request, env: Env): Pr
     console.error('Error validating API key:', error);
     return false;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Check if a request comes from a server authenticated with the admin API key or an API key of its namespace
+ */
+export async function isAuthenticatedServerCaller(request: Request, env: Env): Promise<boolean> {
+  const authHeader = request.headers.get('Authorization');
+  if (env.API_KEY && authHeader === `Bearer ${env.API_KEY}`) {
+    return true;
+  }
+  return await hasValidAuthorizationAsync(request, env);
+}
@@ -0,0 +1,113 @@
+/**
+ * Markup of banner ads served in iframes and by the JavaScript ad tag
+ */
+
+import type { SyncedCreative } from '../models/Creative';
+
+// Sandbox of HTML creatives embedded by the JavaScript ad tag and of banner documents: scripts run,
+// but without access to the publisher page, and clicks may open the advertiser in a new tab
+export const CREATIVE_FRAME_SANDBOX = 'allow-scripts allow-popups allow-popups-to-escape-sandbox allow-top-navigation-by-user-activation';
+
+/**
+ * Escape text for use in HTML content and quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the invisible image that reports the impression when the ad is shown
+ */
+function renderImpressionPixel(impressionUrl: string): string {
+  return `<img src="${escapeHtml(impressionUrl)}" width="1" height="1" alt="" style="position:absolute;border:0">`;
+}
+
+/**
+ * Render a creative with its click and impression tracking
+ * Image creatives link to the click URL; HTML creatives use the {click_url} macro.
+ * Tracking URLs are already percent-encoded, so the macro needs no escaping.
+ * @param creative The creative to render
+ * @param clickUrl Click tracking URL
+ * @param impressionUrl Impression tracking URL
+ * @returns HTML markup of the ad
+ */
+export function renderCreativeMarkup(creative: SyncedCreative, clickUrl: string, impressionUrl: string): string {
+  const ad = creative.type === 'html'
+    ? (creative.html ?? '').replace(/{click_url}/g, clickUrl)
+    : `<a href="${escapeHtml(clickUrl)}" target="_blank" rel="noopener">` +
+      `<img src="${escapeHtml(creative.image_url ?? '')}" width="${creative.width}" height="${creative.height}" alt="" style="border:0;display:block">` +
+      '</a>';
+
+  return ad + renderImpressionPixel(impressionUrl);
+}
+
+/**
+ * Render a creative for insertion into a publisher page
+ * HTML creatives run in a sandboxed frame so their scripts and styles stay apart from the page
+ * @param creative The creative to render
+ * @param clickUrl Click tracking URL
+ * @param impressionUrl Impression tracking URL
+ * @returns HTML markup of the ad
+ */
+export function renderCreativeEmbed(creative: SyncedCreative, clickUrl: string, impressionUrl: string): string {
+  const markup = renderCreativeMarkup(creative, clickUrl, impressionUrl);
+  if (creative.type !== 'html') {
+    return markup;
+  }
+
+  return `<iframe srcdoc="${escapeHtml(renderAdDocument(markup))}" width="${creative.width}" height="${creative.height}" ` +
+    `sandbox="${CREATIVE_FRAME_SANDBOX}" frameborder="0" scrolling="no" style="border:0"></iframe>`;
+}
+
+/**
+ * Render a frame of the given size that loads a URL, e.g. a zone's traffic back URL
+ */
+export function renderFrame(url: string, width: number, height: number): string {
+  return `<iframe src="${escapeHtml(url)}" width="${width}" height="${height}" frameborder="0" scrolling="no" style="border:0"></iframe>`;
+}
+
+/**
+ * Wrap ad markup in an HTML document for an iframe
+ * Links open in a new tab instead of navigating the frame
+ * @param markup Ad markup, empty when there is no ad
+ */
+export function renderAdDocument(markup: string): string {
+  return '<!DOCTYPE html>\n' +
+    '<html>\n' +
+    '<head>\n' +
+    '<meta charset="utf-8">\n' +
+    '<base target="_blank">\n' +
+    '<style>html,body{margin:0;padding:0;overflow:hidden;background:transparent}</style>\n' +
+    '</head>\n' +
+    `<body>${markup}</body>\n` +
+    '</html>\n';
+}
+
+/**
+ * Wrap ad markup in a script that writes it into the page next to the script tag
+ * Inserted before the current script when it is known, so async tags work too;
+ * falls back to document.write for tags that run while the page is parsed
+ * @param markup Ad markup, empty when there is no ad
+ */
+export function renderAdScript(markup: string): string {
+  if (!markup) {
+    return '';
+  }
+
+  return '(function () {\n' +
+    `  var markup = ${JSON.stringify(markup)};\n` +
+    '  var script = document.currentScript;\n' +
+    '  if (script && script.parentNode) {\n' +
+    "    var container = document.createElement('div');\n" +
+    '    container.innerHTML = markup;\n' +
+    '    script.parentNode.insertBefore(container, script);\n' +
+    '  } else {\n' +
+    '    document.write(markup);\n' +
+    '  }\n' +
+    '})();\n';
+}
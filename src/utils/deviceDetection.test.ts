@@ -0,0 +1,67 @@
+import { detectDevice, detectRequestDevice } from './deviceDetection';
+
+const WINDOWS_CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Build a request with the given headers
+ */
+function request(headers: Record<string, string>): Request {
+  return new Request('https://example.com/serve', { headers });
+}
+
+describe('detectDevice', () => {
+  it('reads the user agent', () => {
+    expect(detectDevice(WINDOWS_CHROME_UA)).toMatchObject({
+      deviceType: 'desktop',
+      os: 'Windows',
+      osVersion: 'NT 10.0',
+      browser: 'Chrome',
+      browserVersion: '120.0.0.0'
+    });
+  });
+
+  it('falls back to defaults without a user agent', () => {
+    expect(detectDevice('')).toMatchObject({ os: 'Other', browser: 'Other', deviceType: 'desktop' });
+  });
+});
+
+describe('detectRequestDevice', () => {
+  it.each([
+    ['15.0.0', '11'],
+    ['13.0.0', '11'],
+    ['10.0.0', '10'],
+    ['1.0.0', '10'],
+    ['0.3.0', 'NT 10.0']
+  ])('maps the Windows platform version %s to %s', (platformVersion, osVersion) => {
+    const device = detectRequestDevice(request({
+      'User-Agent': WINDOWS_CHROME_UA,
+      'Sec-CH-UA-Platform': '"Windows"',
+      'Sec-CH-UA-Platform-Version': `"${platformVersion}"`
+    }));
+
+    expect(device.os).toBe('Windows');
+    expect(device.osVersion).toBe(osVersion);
+  });
+
+  it('uses the platform version of other systems as is', () => {
+    const device = detectRequestDevice(request({
+      'User-Agent': 'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+      'Sec-CH-UA-Platform': '"Android"',
+      'Sec-CH-UA-Platform-Version': '"14.0.0"',
+      'Sec-CH-UA-Mobile': '?1',
+      'Sec-CH-UA-Model': '"SM-G991B"'
+    }));
+
+    expect(device).toMatchObject({ os: 'Android', osVersion: '14.0.0', deviceType: 'mobile', model: 'SM-G991B' });
+  });
+
+  it('prefers the hinted brand over Chromium', () => {
+    const device = detectRequestDevice(request({
+      'User-Agent': WINDOWS_CHROME_UA,
+      'Sec-CH-UA': '"Not_A Brand";v="8", "Chromium";v="120", "Microsoft Edge";v="120"'
+    }));
+
+    expect(device.browser).toBe('Microsoft Edge');
+    expect(device.browserVersion).toBe('120.0.0.0');
+  });
+});
@@ -5,14 +5,54 @@
 import Bowser from 'bowser';
 
 /**
- * Detects device type from user agent string
+ * Everything detected from a user agent
+ */
+export interface DeviceInfo {
+  // Device type classification (mobile, tablet, desktop)
+  deviceType: string;
+  os: string;
+  // OS version, empty when unknown
+  osVersion: string;
+  browser: string;
+  // Browser version, empty when unknown
+  browserVersion: string;
+  // Device vendor such as "Apple" or "Samsung", empty when unknown
+  vendor: string;
+  // Device model such as "iPhone" or "SM-G991B", empty when unknown
+  model: string;
+}
+
+/**
+ * Detects everything about the device from a user agent string in a single parse
  * @param userAgent The User-Agent header string
- * @returns Device type classification (mobile, tablet, desktop)
+ * @returns Device details
  */
-export function detectDeviceType(userAgent: string): string {
+export function detectDevice(userAgent: string): DeviceInfo {
+  // Bowser rejects empty user agents
+  if (!userAgent) {
+    return { deviceType: 'desktop', os: 'Other', osVersion: '', browser: 'Other', browserVersion: '', vendor: '', model: '' };
+  }
+  
   const parser = Bowser.getParser(userAgent);
-  const platformType = parser.getPlatformType();
+  const platform = parser.getPlatform();
+  const os = parser.getOS();
+  const browser = parser.getBrowser();
   
+  return {
+    deviceType: toDeviceType(platform.type),
+    os: os.name ?? 'Other',
+    osVersion: os.version ?? '',
+    browser: browser.name ?? 'Other',
+    browserVersion: browser.version ?? '',
+    vendor: platform.vendor ?? '',
+    model: platform.model ?? ''
+  };
+}
+
+/**
+ * Map a Bowser platform type to a device type classification
+ */
+function toDeviceType(platformType: string | undefined): string {
   if (platformType === 'mobile') {
     return 'mobile';
   } else if (platformType === 'tablet') {
@@ -23,23 +63,120 @@ export function detectDeviceType(userAgent: string): string {
 }
 
 /**
- * Detects browser type from user agent string
- * @param userAgent The User-Agent header string
- * @returns Browser type classification
+ * User-Agent Client Hints used by device detection
+ * Sec-CH-UA, Sec-CH-UA-Platform and Sec-CH-UA-Mobile are sent by default;
+ * the others are only sent after the server asks for them with Accept-CH
  */
-export function detectBrowser(userAgent: string): string {
-  const parser = Bowser.getParser(userAgent);
-  const browser = parser.getBrowser();
-  return browser.name ?? 'Other';
+export const CLIENT_HINT_HEADERS = [
+  'Sec-CH-UA',
+  'Sec-CH-UA-Platform',
+  'Sec-CH-UA-Platform-Version',
+  'Sec-CH-UA-Mobile',
+  'Sec-CH-UA-Model'
+];
+
+// Client Hint brand and platform names that differ from Bowser's names
+const HINT_BROWSER_NAMES: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Samsung Internet': 'Samsung Internet for Android',
+  'YaBrowser': 'Yandex Browser'
+};
+const HINT_OS_NAMES: Record<string, string> = {
+  'Chromium OS': 'Chrome OS'
+};
+
+/**
+ * Strip the quotes of a structured header string, e.g. "\"Android\"" becomes "Android"
+ */
+function unquoteHint(value: string): string {
+  return value.trim().replace(/^"(.*)"$/, '$1');
 }
 
 /**
- * Detects operating system from user agent string
- * @param userAgent The User-Agent header string
- * @returns Operating system classification
+ * Convert a Sec-CH-UA-Platform-Version hint to the OS version used by targeting rules
+ * Windows reports the Windows.Foundation contract version rather than the release, where
+ * majors 1 to 10 are Windows 10 and 13 and up are Windows 11; majors below 1 are Windows 8.1
+ * and older, which are left to the user agent's "NT" version
+ * @returns The OS version, or an empty string to keep the user agent's version
  */
-export function detectOS(userAgent: string): string {
-  const parser = Bowser.getParser(userAgent);
-  const os = parser.getOS();
-  return os.name ?? 'Other';
-} 
\ No newline at end of file
+function toHintOsVersion(os: string, platformVersion: string): string {
+  if (os !== 'Windows') {
+    return platformVersion;
+  }
+  
+  const major = parseInt(platformVersion, 10);
+  if (major >= 13) {
+    return '11';
+  } else if (major >= 1) {
+    return '10';
+  } else {
+    return '';
+  }
+}
+
+/**
+ * Pick the browser brand and major version from a Sec-CH-UA header
+ * Made-up "Not A Brand" entries are skipped and a specific brand wins over "Chromium"
+ */
+function parseBrandHint(header: string): { name: string; version: string } | null {
+  const brands: Array<{ name: string; version: string }> = [];
+  for (const match of header.matchAll(/"([^"]*)"\s*;\s*v\s*=\s*"([^"]*)"/g)) {
+    const name = match[1] ?? '';
+    if (name && !/not.?a.?brand/i.test(name)) {
+      brands.push({ name, version: match[2] ?? '' });
+    }
+  }
+  
+  const brand = brands.find(candidate => candidate.name !== 'Chromium') ?? brands[0];
+  return brand ? { name: HINT_BROWSER_NAMES[brand.name] ?? brand.name, version: brand.version } : null;
+}
+
+/**
+ * Detects device details for a request, preferring User-Agent Client Hints over the user agent
+ * Chromium browsers send a reduced user agent with a frozen OS version and no device model,
+ * so hints are used whenever present and Bowser's result fills in everything else
+ * @param request The HTTP request
+ * @returns Device details
+ */
+export function detectRequestDevice(request: Request): DeviceInfo {
+  const device = detectDevice(request.headers.get('User-Agent') ?? '');
+  
+  const brandHint = request.headers.get('Sec-CH-UA');
+  const brand = brandHint ? parseBrandHint(brandHint) : null;
+  if (brand) {
+    device.browser = brand.name;
+    // Keep the full version from the user agent when it agrees with the hinted major version
+    if (!device.browserVersion.startsWith(`${brand.version}.`)) {
+      device.browserVersion = brand.version;
+    }
+  }
+  
+  const platformHint = unquoteHint(request.headers.get('Sec-CH-UA-Platform') ?? '');
+  if (platformHint && platformHint !== 'Unknown') {
+    const os = HINT_OS_NAMES[platformHint] ?? platformHint;
+    if (os !== device.os) {
+      device.os = os;
+      device.osVersion = '';
+    }
+  }
+  
+  const platformVersionHint = unquoteHint(request.headers.get('Sec-CH-UA-Platform-Version') ?? '');
+  const osVersion = platformVersionHint ? toHintOsVersion(device.os, platformVersionHint) : '';
+  if (osVersion) {
+    device.osVersion = osVersion;
+  }
+  
+  const mobileHint = request.headers.get('Sec-CH-UA-Mobile')?.trim();
+  if (mobileHint === '?1') {
+    device.deviceType = 'mobile';
+  } else if (mobileHint === '?0' && device.deviceType === 'mobile') {
+    device.deviceType = 'desktop';
+  }
+  
+  const modelHint = unquoteHint(request.headers.get('Sec-CH-UA-Model') ?? '');
+  if (modelHint) {
+    device.model = modelHint;
+  }
+  
+  return device;
+}
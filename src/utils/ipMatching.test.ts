@@ -0,0 +1,64 @@
+import { compileIpRanges, isIpInRanges, parseIpAddress, parseIpRange } from './ipMatching';
+
+describe('parseIpAddress', () => {
+  it.each([
+    ['192.168.1.1', 4, 0xc0a80101n],
+    ['::1', 6, 1n],
+    ['2001:db8::ff00:42:8329', 6, 0x20010db8000000000000ff0000428329n],
+    ['::ffff:10.0.0.1', 4, 0x0a000001n]
+  ])('parses %s', (text, version, value) => {
+    expect(parseIpAddress(text)).toEqual({ version, value });
+  });
+
+  it.each(['', '256.0.0.1', '1.2.3', '1.2.3.4.5', '01234.0.0.1', '1::2::3', '2001:db8:0:0:0:0:0:0:1', 'gggg::1'])(
+    'rejects "%s"',
+    text => {
+      expect(parseIpAddress(text)).toBeNull();
+    }
+  );
+});
+
+describe('parseIpRange', () => {
+  it('ignores host bits below the prefix', () => {
+    expect(parseIpRange('10.1.2.3/8')).toEqual({ version: 4, start: 0x0a000000n, end: 0x0affffffn });
+  });
+
+  it('counts prefixes of IPv4-mapped addresses over the IPv6 width', () => {
+    expect(parseIpRange('::ffff:10.0.0.0/104')).toEqual({ version: 4, start: 0x0a000000n, end: 0x0affffffn });
+  });
+
+  it.each(['10.0.0.0/33', '2001:db8::/129', '10.0.0.0/', '10.0.0.0/8/8', '::ffff:10.0.0.0/8'])('rejects "%s"', entry => {
+    expect(parseIpRange(entry)).toBeNull();
+  });
+});
+
+describe('compileIpRanges', () => {
+  it('merges overlapping and adjacent ranges', () => {
+    expect(compileIpRanges(['10.0.0.0/24', '10.0.1.0/24', '10.0.0.128/25', '192.168.0.1'])).toEqual({
+      v4: [['0a000000', '0a0001ff'], ['c0a80001', 'c0a80001']],
+      v6: []
+    });
+  });
+
+  it('throws on malformed entries', () => {
+    expect(() => compileIpRanges(['10.0.0.0/8', 'example.com'])).toThrow('Invalid IP address or CIDR range: example.com');
+  });
+});
+
+describe('isIpInRanges', () => {
+  const ranges = compileIpRanges(['10.0.0.0/8', '192.168.1.1', '172.16.0.0/12', '2001:db8::/32']);
+
+  it.each([
+    ['10.255.255.255', true],
+    ['11.0.0.0', false],
+    ['192.168.1.1', true],
+    ['192.168.1.2', false],
+    ['172.31.0.1', true],
+    ['::ffff:10.1.1.1', true],
+    ['2001:db8:1::1', true],
+    ['2001:db9::1', false],
+    ['not-an-ip', false]
+  ])('%s matches: %s', (ip, expected) => {
+    expect(isIpInRanges(ip, ranges)).toBe(expected);
+  });
+});
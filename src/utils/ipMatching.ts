@@ -0,0 +1,237 @@
+/**
+ * IP address and CIDR range matching utilities
+ */
+
+export type IpVersion = 4 | 6;
+
+/**
+ * A parsed IP address
+ */
+export interface IpAddress {
+  version: IpVersion;
+  value: bigint;
+}
+
+/**
+ * Precompiled IP ranges, safe to store as JSON
+ * Each range is a pair of fixed-width hex keys (8 digits for IPv4, 32 for IPv6),
+ * so ranges can be compared as plain strings. Ranges are sorted and non-overlapping.
+ */
+export interface CompiledIpRanges {
+  v4: Array<[string, string]>;
+  v6: Array<[string, string]>;
+}
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+
+/**
+ * Parse a dotted IPv4 address
+ */
+function parseIpv4(text: string): bigint | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) {
+      return null;
+    }
+    const octet = Number(part);
+    if (octet > 255) {
+      return null;
+    }
+    value = (value << 8n) | BigInt(octet);
+  }
+
+  return value;
+}
+
+/**
+ * Parse an IPv6 address, including "::" compression and an embedded IPv4 tail
+ */
+function parseIpv6(text: string): bigint | null {
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (half: string): number[] | null => {
+    if (half === '') {
+      return [];
+    }
+    const groups: number[] = [];
+    const parts = half.split(':');
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i] ?? '';
+      if (i === parts.length - 1 && part.includes('.')) {
+        const ipv4 = parseIpv4(part);
+        if (ipv4 === null) {
+          return null;
+        }
+        groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+      } else if (/^[0-9a-fA-F]{1,4}$/.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0] ?? '');
+  const tail = halves.length === 2 ? parseGroups(halves[1] ?? '') : [];
+  if (head === null || tail === null) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4
+ * @param text Address text
+ * @returns The parsed address or null if invalid
+ */
+export function parseIpAddress(text: string): IpAddress | null {
+  const trimmed = text.trim();
+
+  if (!trimmed.includes(':')) {
+    const value = parseIpv4(trimmed);
+    return value === null ? null : { version: 4, value };
+  }
+
+  const value = parseIpv6(trimmed);
+  if (value === null) {
+    return null;
+  }
+  if (value >> 32n === 0xffffn) {
+    return { version: 4, value: value & 0xffffffffn };
+  }
+  return { version: 6, value };
+}
+
+/**
+ * Parse a single address or CIDR block into an inclusive range
+ * Host bits below the prefix are ignored, so "10.1.2.3/8" covers 10.0.0.0-10.255.255.255
+ * @param entry Address or CIDR block, e.g. "192.168.0.0/16" or "2001:db8::/32"
+ * @returns The range or null if the entry is malformed
+ */
+export function parseIpRange(entry: string): { version: IpVersion; start: bigint; end: bigint } | null {
+  const [addressText, prefixText, ...rest] = entry.trim().split('/');
+  if (addressText === undefined || rest.length > 0) {
+    return null;
+  }
+
+  const address = parseIpAddress(addressText);
+  if (!address) {
+    return null;
+  }
+
+  // Prefixes on IPv4-mapped addresses count the full IPv6 width
+  const mapped = address.version === 4 && addressText.includes(':');
+  const bits = address.version === 4 ? IPV4_BITS : IPV6_BITS;
+
+  let prefix = bits;
+  if (prefixText !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixText)) {
+      return null;
+    }
+    prefix = Number(prefixText) - (mapped ? IPV6_BITS - IPV4_BITS : 0);
+    if (prefix < 0 || prefix > bits) {
+      return null;
+    }
+  }
+
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n;
+  const start = address.value & ~hostMask;
+  return { version: address.version, start, end: start | hostMask };
+}
+
+/**
+ * Convert an address value into a fixed-width hex key
+ */
+function toKey(version: IpVersion, value: bigint): string {
+  return value.toString(16).padStart(version === 4 ? 8 : 32, '0');
+}
+
+/**
+ * Compile a list of addresses and CIDR blocks into sorted, merged ranges
+ * @param entries Addresses and CIDR blocks
+ * @returns Compiled ranges
+ * @throws Error if any entry is malformed
+ */
+export function compileIpRanges(entries: string[]): CompiledIpRanges {
+  const ranges: Record<IpVersion, Array<{ start: bigint; end: bigint }>> = { 4: [], 6: [] };
+
+  for (const entry of entries) {
+    const range = parseIpRange(entry);
+    if (!range) {
+      throw new Error(`Invalid IP address or CIDR range: ${entry}`);
+    }
+    ranges[range.version].push({ start: range.start, end: range.end });
+  }
+
+  const merge = (version: IpVersion): Array<[string, string]> => {
+    const sorted = ranges[version].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+    const merged: Array<{ start: bigint; end: bigint }> = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + 1n) {
+        if (range.end > last.end) {
+          last.end = range.end;
+        }
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged.map(range => [toKey(version, range.start), toKey(version, range.end)]);
+  };
+
+  return { v4: merge(4), v6: merge(6) };
+}
+
+/**
+ * Check if an IP address falls within compiled ranges
+ * @param ip Client IP address
+ * @param ranges Compiled ranges
+ * @returns true if the address is inside any range; invalid addresses never match
+ */
+export function isIpInRanges(ip: string, ranges: CompiledIpRanges): boolean {
+  const address = parseIpAddress(ip);
+  if (!address) {
+    return false;
+  }
+
+  const key = toKey(address.version, address.value);
+  const list = address.version === 4 ? ranges.v4 : ranges.v6;
+
+  // Binary search for the last range starting at or before the key
+  let low = 0;
+  let high = list.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const range = list[middle];
+    if (!range) {
+      return false;
+    }
+    if (range[0] > key) {
+      high = middle - 1;
+    } else if (range[1] < key) {
+      low = middle + 1;
+    } else {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,61 @@
+import { detectLanguages, languageMatches, normalizeLanguageTag, parseAcceptLanguage } from './languageDetection';
+import { parseLanguageRule } from '../models/TargetingRule';
+
+describe('normalizeLanguageTag', () => {
+  it.each([
+    ['EN', 'en'],
+    ['pt-br', 'pt-BR'],
+    ['pt_BR', 'pt-BR'],
+    ['zh-Hant-TW', 'zh-TW'],
+    ['es-419', 'es-419'],
+    ['*', ''],
+    ['english', '']
+  ])('normalizes "%s" to "%s"', (tag, expected) => {
+    expect(normalizeLanguageTag(tag)).toBe(expected);
+  });
+});
+
+describe('parseAcceptLanguage', () => {
+  it('orders tags by weight and keeps header order for equal weights', () => {
+    expect(parseAcceptLanguage('de;q=0.5, en-US, fr;q=0.9, en;q=0.9')).toEqual(['en-US', 'fr', 'en', 'de']);
+  });
+
+  it('drops q=0 entries, wildcards, invalid weights and duplicates', () => {
+    expect(parseAcceptLanguage('en, *;q=0.5, de;q=0, fr;q=abc, EN;q=0.8')).toEqual(['en']);
+  });
+
+  it('reads the Accept-Language header of a request', () => {
+    const request = new Request('https://example.com/serve', { headers: { 'Accept-Language': 'de-DE,de;q=0.9' } });
+
+    expect(detectLanguages(request)).toEqual(['de-DE', 'de']);
+    expect(detectLanguages(new Request('https://example.com/serve'))).toEqual([]);
+  });
+});
+
+describe('languageMatches', () => {
+  it('matches every region of a language without a region', () => {
+    expect(languageMatches('en-US', 'en')).toBe(true);
+    expect(languageMatches('en', 'en')).toBe(true);
+    expect(languageMatches('de-DE', 'en')).toBe(false);
+  });
+
+  it('matches only the same region of a language with a region', () => {
+    expect(languageMatches('pt-BR', 'pt-BR')).toBe(true);
+    expect(languageMatches('pt-PT', 'pt-BR')).toBe(false);
+    expect(languageMatches('pt', 'pt-BR')).toBe(false);
+  });
+});
+
+describe('parseLanguageRule', () => {
+  it('defaults to matching any preferred language', () => {
+    expect(parseLanguageRule('en, pt-br')).toEqual({ mode: 'any', languages: ['en', 'pt-BR'] });
+  });
+
+  it('reads the mode prefix', () => {
+    expect(parseLanguageRule('FIRST: de')).toEqual({ mode: 'first', languages: ['de'] });
+  });
+
+  it.each(['', 'first:', 'en,english'])('rejects "%s"', rule => {
+    expect(() => parseLanguageRule(rule)).toThrow('Invalid language rule format');
+  });
+});
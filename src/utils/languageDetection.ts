@@ -0,0 +1,77 @@
+/**
+ * Language detection utilities
+ * Parses the Accept-Language header into ordered language tags
+ */
+
+/**
+ * Normalize a language tag to its primary language and optional region, e.g. "pt-br" becomes "pt-BR"
+ * Script and variant subtags are dropped, so "zh-Hant-TW" becomes "zh-TW"
+ * @param tag Language tag
+ * @returns The normalized tag, or an empty string if the tag is invalid
+ */
+export function normalizeLanguageTag(tag: string): string {
+  const subtags = tag.trim().replace(/_/g, '-').split('-');
+  const language = subtags[0]?.toLowerCase() ?? '';
+  if (!/^[a-z]{2,3}$/.test(language)) {
+    return '';
+  }
+
+  const region = subtags.slice(1).find(subtag => /^([a-zA-Z]{2}|\d{3})$/.test(subtag));
+  return region ? `${language}-${region.toUpperCase()}` : language;
+}
+
+/**
+ * Parse an Accept-Language header into language tags ordered by preference
+ * Entries with q=0 and the "*" wildcard are ignored; equal weights keep header order
+ * @param header The Accept-Language header value
+ * @returns Normalized language tags, most preferred first
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  const entries: Array<{ tag: string; quality: number; index: number }> = [];
+
+  header.split(',').forEach((part, index) => {
+    const [tagText = '', ...params] = part.split(';');
+    const tag = normalizeLanguageTag(tagText);
+    if (!tag) {
+      return;
+    }
+
+    let quality = 1;
+    for (const param of params) {
+      const [name, value] = param.split('=').map(text => text.trim());
+      if (name === 'q' && value !== undefined) {
+        quality = Number(value);
+      }
+    }
+    if (!Number.isFinite(quality) || quality <= 0) {
+      return;
+    }
+
+    entries.push({ tag, quality, index });
+  });
+
+  const tags = entries
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.tag);
+
+  return [...new Set(tags)];
+}
+
+/**
+ * Detect the preferred languages of a request
+ * @param request The HTTP request
+ * @returns Normalized language tags, most preferred first
+ */
+export function detectLanguages(request: Request): string[] {
+  return parseAcceptLanguage(request.headers.get('Accept-Language') ?? '');
+}
+
+/**
+ * Check if a language tag matches a rule entry
+ * An entry without a region matches every region of the language, so "en" matches "en-US"
+ * @param tag Normalized language tag of the request
+ * @param entry Normalized language tag from a targeting rule
+ */
+export function languageMatches(tag: string, entry: string): boolean {
+  return entry.includes('-') ? tag === entry : tag.split('-')[0] === entry;
+}
@@ -3,6 +3,7 @@
  */
 export function replaceMacros(url: string, macroValues: {
     click_id?: string | null,
+    click_token?: string | null,
     zone_id?: string | null,
     aff_sub_id?: string | null
   }): string {
@@ -13,6 +14,10 @@ export function replaceMacros(url: string, macroValues: {
       result = result.replace(/{click_id}/g, macroValues.click_id);
     }
     
+    if (macroValues.click_token) {
+      result = result.replace(/{click_token}/g, macroValues.click_token);
+    }
+    
     if (macroValues.zone_id) {
       result = result.replace(/{zone_id}/g, macroValues.zone_id);
     }
@@ -0,0 +1,56 @@
+import { buildNativeResponse, NATIVE_VERSION } from './nativeResponse';
+import type { SyncedCreative } from '../models/Creative';
+
+const CREATIVE: SyncedCreative = {
+  id: 7,
+  type: 'native',
+  width: 1200,
+  height: 627,
+  image_url: 'https://cdn.example.com/main.jpg',
+  html: null,
+  media_url: null,
+  mime_type: null,
+  duration: null,
+  title: 'Spring sale',
+  body: 'Everything half price',
+  cta: 'Shop now',
+  icon_url: 'https://cdn.example.com/icon.png',
+  sponsor: 'Example Shop',
+  weight: 1
+};
+
+const CLICK_URL = 'https://ads.example.com/track/click/1/1';
+const IMPRESSION_URL = 'https://ads.example.com/track/impression/1/1';
+
+describe('buildNativeResponse', () => {
+  it('returns every asset of the creative with fixed IDs', () => {
+    const { native } = buildNativeResponse(CREATIVE, ['title', 'image'], CLICK_URL, IMPRESSION_URL);
+
+    expect(native.ver).toBe(NATIVE_VERSION);
+    expect(native.assets).toEqual([
+      { id: 1, required: 1, title: { text: 'Spring sale' } },
+      { id: 2, required: 0, data: { type: 2, value: 'Everything half price' } },
+      { id: 3, required: 0, data: { type: 12, value: 'Shop now' } },
+      { id: 4, required: 0, img: { type: 1, url: 'https://cdn.example.com/icon.png' } },
+      { id: 5, required: 1, img: { type: 3, url: 'https://cdn.example.com/main.jpg', w: 1200, h: 627 } },
+      { id: 6, required: 0, data: { type: 1, value: 'Example Shop' } }
+    ]);
+  });
+
+  it('links to the click URL and fires the impression URL', () => {
+    const { native } = buildNativeResponse(CREATIVE, [], CLICK_URL, IMPRESSION_URL);
+
+    expect(native.link).toEqual({ url: CLICK_URL });
+    expect(native.imptrackers).toEqual([IMPRESSION_URL]);
+    expect(native.eventtrackers).toEqual([{ event: 1, method: 1, url: IMPRESSION_URL }]);
+  });
+
+  it('leaves out missing assets and the size of an image without one', () => {
+    const creative = { ...CREATIVE, width: null, height: null, body: null, cta: '', icon_url: null, sponsor: null };
+
+    const { native } = buildNativeResponse(creative, ['title'], CLICK_URL, IMPRESSION_URL);
+
+    expect(native.assets.map(({ id }) => id)).toEqual([1, 5]);
+    expect(JSON.parse(JSON.stringify(native.assets[1]?.img))).toEqual({ type: 3, url: 'https://cdn.example.com/main.jpg' });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * OpenRTB Native 1.2 responses returned by native zones
+ */
+
+import { NativeAsset, SyncedCreative, NATIVE_ASSETS, hasNativeAsset } from '../models/Creative';
+
+// Native version of the generated responses
+export const NATIVE_VERSION = '1.2';
+
+// Asset IDs of the response; there is no native request to take them from, so every asset has a fixed ID
+const NATIVE_ASSET_IDS: Record<NativeAsset, number> = {
+  title: 1,
+  body: 2,
+  cta: 3,
+  icon: 4,
+  image: 5,
+  sponsor: 6
+};
+
+// Image asset types
+const IMAGE_TYPE_ICON = 1;
+const IMAGE_TYPE_MAIN = 3;
+
+// Data asset types
+const DATA_TYPE_SPONSORED = 1;
+const DATA_TYPE_DESC = 2;
+const DATA_TYPE_CTA_TEXT = 12;
+
+// Event tracker of the impression, fired as an image pixel
+const EVENT_TYPE_IMPRESSION = 1;
+const EVENT_TRACKING_METHOD_IMAGE = 1;
+
+/**
+ * Asset of a native response, holding one of title, img or data
+ */
+export interface NativeResponseAsset {
+  id: number;
+  // 1 when the zone's layout requires the asset
+  required: number;
+  title?: { text: string };
+  img?: { type: number; url: string; w?: number; h?: number };
+  data?: { type: number; value: string };
+}
+
+/**
+ * Native response of a native zone
+ */
+export interface NativeResponse {
+  native: {
+    ver: string;
+    assets: NativeResponseAsset[];
+    link: { url: string };
+    // Impression pixels for players that predate event trackers
+    imptrackers: string[];
+    eventtrackers: Array<{ event: number; method: number; url: string }>;
+  };
+}
+
+/**
+ * Build the asset of a native creative, without its ID and required flag
+ */
+function buildAsset(creative: SyncedCreative, asset: NativeAsset): Omit<NativeResponseAsset, 'id' | 'required'> {
+  switch (asset) {
+    case 'title':
+      return { title: { text: creative.title ?? '' } };
+    case 'image':
+      return { img: { type: IMAGE_TYPE_MAIN, url: creative.image_url ?? '', w: creative.width ?? undefined, h: creative.height ?? undefined } };
+    case 'icon':
+      return { img: { type: IMAGE_TYPE_ICON, url: creative.icon_url ?? '' } };
+    case 'body':
+      return { data: { type: DATA_TYPE_DESC, value: creative.body ?? '' } };
+    case 'cta':
+      return { data: { type: DATA_TYPE_CTA_TEXT, value: creative.cta ?? '' } };
+    case 'sponsor':
+      return { data: { type: DATA_TYPE_SPONSORED, value: creative.sponsor ?? '' } };
+  }
+}
+
+/**
+ * Build the native response of a creative
+ * @param creative Native creative to show
+ * @param layout Assets the zone requires, flagged as required in the response
+ * @param clickUrl Click tracking URL the ad links to
+ * @param impressionUrl Impression tracking URL to fire when the ad is shown
+ * @returns Native response with every asset the creative has
+ */
+export function buildNativeResponse(
+  creative: SyncedCreative,
+  layout: readonly NativeAsset[],
+  clickUrl: string,
+  impressionUrl: string
+): NativeResponse {
+  const assets = NATIVE_ASSETS
+    .filter(asset => hasNativeAsset(creative, asset))
+    .map(asset => ({
+      id: NATIVE_ASSET_IDS[asset],
+      required: layout.includes(asset) ? 1 : 0,
+      ...buildAsset(creative, asset)
+    }));
+
+  return {
+    native: {
+      ver: NATIVE_VERSION,
+      assets,
+      link: { url: clickUrl },
+      imptrackers: [impressionUrl],
+      eventtrackers: [{ event: EVENT_TYPE_IMPRESSION, method: EVENT_TRACKING_METHOD_IMAGE, url: impressionUrl }]
+    }
+  };
+}
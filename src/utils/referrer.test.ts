@@ -0,0 +1,46 @@
+import { getReferrerHost, hostMatchesPattern, NO_REFERRER_TOKEN } from './referrer';
+import { parseReferrerDomainRule } from '../models/TargetingRule';
+
+/**
+ * Build a request with the given Referer header
+ */
+function request(referer?: string): Request {
+  return new Request('https://example.com/serve', { headers: referer === undefined ? {} : { Referer: referer } });
+}
+
+describe('getReferrerHost', () => {
+  it('returns the lowercased hostname without a trailing dot', () => {
+    expect(getReferrerHost(request('https://News.Example.COM./article?id=1'))).toBe('news.example.com');
+  });
+
+  it('returns an empty string without a usable referrer', () => {
+    expect(getReferrerHost(request())).toBe('');
+    expect(getReferrerHost(request('not a url'))).toBe('');
+  });
+});
+
+describe('hostMatchesPattern', () => {
+  it.each([
+    ['example.com', 'example.com', true],
+    ['www.example.com', 'example.com', false],
+    ['www.example.com', '*.example.com', true],
+    ['a.b.example.com', '*.example.com', true],
+    ['example.com', '*.example.com', false],
+    ['badexample.com', '*.example.com', false],
+    ['', NO_REFERRER_TOKEN, true],
+    ['example.com', NO_REFERRER_TOKEN, false],
+    ['', 'example.com', false]
+  ])('"%s" against "%s": %s', (host, pattern, expected) => {
+    expect(hostMatchesPattern(host, pattern)).toBe(expected);
+  });
+});
+
+describe('parseReferrerDomainRule', () => {
+  it('lowercases entries and strips trailing dots', () => {
+    expect(parseReferrerDomainRule('Example.com., *.News.org,(none)')).toEqual(['example.com', '*.news.org', NO_REFERRER_TOKEN]);
+  });
+
+  it.each(['', 'https://example.com', 'example.*', 'exa mple.com'])('rejects "%s"', rule => {
+    expect(() => parseReferrerDomainRule(rule)).toThrow('Invalid referrer domain rule format');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Referrer utilities
+ */
+
+// Rule token that matches requests without a usable Referer header
+export const NO_REFERRER_TOKEN = '(none)';
+
+/**
+ * Get the hostname of the Referer header
+ * @param request The HTTP request
+ * @returns The lowercased hostname, or an empty string if the header is missing or not a URL
+ */
+export function getReferrerHost(request: Request): string {
+  const referer = request.headers.get('Referer');
+  if (!referer) {
+    return '';
+  }
+
+  try {
+    return new URL(referer).hostname.toLowerCase().replace(/\.$/, '');
+  } catch (e) {
+    return '';
+  }
+}
+
+/**
+ * Check if a hostname matches a domain pattern
+ * "*.example.com" matches any subdomain of example.com but not example.com itself;
+ * "(none)" matches a missing referrer
+ * @param host Lowercased hostname, empty when there is no referrer
+ * @param pattern Lowercased domain pattern
+ */
+export function hostMatchesPattern(host: string, pattern: string): boolean {
+  if (pattern === NO_REFERRER_TOKEN) {
+    return host === '';
+  }
+  if (!host) {
+    return false;
+  }
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
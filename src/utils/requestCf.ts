@@ -0,0 +1,72 @@
+/**
+ * Helpers for the Cloudflare `request.cf` object
+ * The object is only populated by the Workers runtime, so every field is optional
+ */
+import type { IncomingRequestCfProperties } from '@cloudflare/workers-types';
+
+/**
+ * Location attributes of a request
+ */
+export interface RequestLocation {
+  // ISO 3166-1 alpha-2 country code, e.g. "US"
+  country: string;
+  // ISO 3166-2 subdivision code including the country, e.g. "US-TX"
+  region: string;
+  city: string;
+  postalCode: string;
+  // Nielsen DMA code, US only
+  metroCode: string;
+}
+
+/**
+ * Network attributes of a request
+ */
+export interface RequestNetwork {
+  // Autonomous System Number, null when unknown
+  asn: number | null;
+  // Organization owning the AS, e.g. "Google Cloud"
+  asOrganization: string;
+}
+
+/**
+ * Get the Cloudflare properties of a request, if any
+ * @param request The HTTP request
+ * @returns The `cf` object or an empty object outside the Workers runtime
+ */
+export function getRequestCf(request: Request): Partial<IncomingRequestCfProperties> {
+  return (request as unknown as { cf?: IncomingRequestCfProperties }).cf ?? {};
+}
+
+/**
+ * Get the location of a request
+ * The country comes from the CF-IPCountry header, the finer levels from `request.cf`
+ * @param request The HTTP request
+ * @returns Location attributes, with empty strings for unknown values
+ */
+export function getRequestLocation(request: Request): RequestLocation {
+  const cf = getRequestCf(request);
+  const country = request.headers.get('CF-IPCountry') ?? cf.country ?? '';
+  const regionCode = cf.regionCode ?? '';
+
+  return {
+    country,
+    region: country && regionCode ? `${country}-${regionCode}`.toUpperCase() : '',
+    city: cf.city ?? '',
+    postalCode: cf.postalCode ?? '',
+    metroCode: cf.metroCode ?? ''
+  };
+}
+
+/**
+ * Get the network of a request
+ * @param request The HTTP request
+ * @returns Network attributes, with null or empty values when unknown
+ */
+export function getRequestNetwork(request: Request): RequestNetwork {
+  const cf = getRequestCf(request);
+
+  return {
+    asn: typeof cf.asn === 'number' ? cf.asn : null,
+    asOrganization: cf.asOrganization ?? ''
+  };
+}
@@ -3,6 +3,7 @@
  */
 
 import type { Env } from '../models/interfaces';
+import { CREATIVE_FRAME_SANDBOX } from './creativeMarkup';
 
 // Security headers to apply to all responses
 export const SECURITY_HEADERS = {
@@ -15,14 +16,31 @@ export const SECURITY_HEADERS = {
   'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
 };
 
+// Security headers for banner documents that publisher pages embed in iframes
+// Framing is allowed and creatives may load images and scripts from any origin, but the document
+// is sandboxed like HTML creatives, so it runs in an opaque origin even if the iframe is not sandboxed
+export const AD_FRAME_SECURITY_HEADERS = {
+  'Content-Security-Policy': `object-src 'none'; base-uri 'none'; sandbox ${CREATIVE_FRAME_SANDBOX}; upgrade-insecure-requests;`,
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+  'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+};
+
 /**
  * Apply security headers and CORS headers to a response
+ * @param securityHeaders Security headers to set, SECURITY_HEADERS by default
  */
-export function applySecurityHeaders(response: Response, request: Request, env: Env): Response {
+export function applySecurityHeaders(
+  response: Response,
+  request: Request,
+  env: Env,
+  securityHeaders: Record<string, string> = SECURITY_HEADERS
+): Response {
   const headers = new Headers(response.headers);
   
   // Add all security headers
-  Object.entries(SECURITY_HEADERS).forEach(([key, value]) => {
+  Object.entries(securityHeaders).forEach(([key, value]) => {
     headers.set(key, value);
   });
   
@@ -42,6 +60,28 @@ export function applySecurityHeaders(response: Response, request: Request, env:
     }
   }
   
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+/**
+ * Let any origin read a response with credentials, so the user cookie is sent along
+ * Used for ad responses that scripts on publisher pages fetch, independent of ALLOWED_ORIGINS
+ */
+export function applyPublicCors(response: Response, request: Request): Response {
+  const origin = request.headers.get('Origin');
+  if (!origin) {
+    return response;
+  }
+  
+  const headers = new Headers(response.headers);
+  headers.set('Access-Control-Allow-Origin', origin);
+  headers.set('Access-Control-Allow-Credentials', 'true');
+  headers.append('Vary', 'Origin');
+  
   return new Response(response.body, {
     status: response.status,
     statusText: response.statusText,
@@ -0,0 +1,53 @@
+import { getLocalWeekdayAndHour, isValidTimeZone } from './timeZone';
+
+describe('getLocalWeekdayAndHour', () => {
+  it('returns the UTC weekday and hour', () => {
+    // Monday
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-01T00:00:00Z'), 'UTC')).toEqual({ weekday: 1, hour: 0 });
+    // Sunday
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-07T23:59:59Z'), 'UTC')).toEqual({ weekday: 7, hour: 23 });
+  });
+
+  it('shifts the weekday across midnight in the time zone', () => {
+    // Sunday 23:59 in New York, Monday 00:00 one minute later
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-01T04:59:00Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 23 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-01T05:00:00Z'), 'America/New_York')).toEqual({ weekday: 1, hour: 0 });
+
+    // Sunday afternoon in UTC is already Monday in Tokyo
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-07T15:00:00Z'), 'Asia/Tokyo')).toEqual({ weekday: 1, hour: 0 });
+  });
+
+  it('handles time zones with a half-hour offset', () => {
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-01T18:29:00Z'), 'Asia/Kolkata')).toEqual({ weekday: 1, hour: 23 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-01-01T18:30:00Z'), 'Asia/Kolkata')).toEqual({ weekday: 2, hour: 0 });
+  });
+
+  it('skips the missing hour when daylight saving time starts', () => {
+    // Clocks in New York jump from 02:00 to 03:00 on 10 March 2024
+    expect(getLocalWeekdayAndHour(Date.parse('2024-03-10T06:59:59Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 1 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-03-10T07:00:00Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 3 });
+
+    // Clocks in Berlin jump from 02:00 to 03:00 on 31 March 2024
+    expect(getLocalWeekdayAndHour(Date.parse('2024-03-31T00:59:59Z'), 'Europe/Berlin')).toEqual({ weekday: 7, hour: 1 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-03-31T01:00:00Z'), 'Europe/Berlin')).toEqual({ weekday: 7, hour: 3 });
+  });
+
+  it('repeats the hour when daylight saving time ends', () => {
+    // Clocks in New York go back from 02:00 to 01:00 on 3 November 2024
+    expect(getLocalWeekdayAndHour(Date.parse('2024-11-03T05:30:00Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 1 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-11-03T06:30:00Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 1 });
+    expect(getLocalWeekdayAndHour(Date.parse('2024-11-03T07:00:00Z'), 'America/New_York')).toEqual({ weekday: 7, hour: 2 });
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA time zone names', () => {
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+  });
+
+  it('rejects empty and unknown names', () => {
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
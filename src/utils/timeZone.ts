@@ -0,0 +1,73 @@
+/**
+ * Time zone utilities for time-based targeting
+ * Uses the Intl API, which is available in the Workers runtime
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7
+};
+
+// Formatters are relatively expensive to build, so keep one per time zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: 'numeric',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA time zone name
+ * @param timeZone Time zone name, e.g. "Europe/Berlin"
+ * @returns true if the runtime recognises the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Get the local day of week and hour for a timestamp in a time zone
+ * @param timestamp Unix timestamp in milliseconds
+ * @param timeZone IANA time zone name
+ * @returns Weekday (1-7, where 1 is Monday) and hour (0-23)
+ */
+export function getLocalWeekdayAndHour(timestamp: number, timeZone: string): { weekday: number; hour: number } {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+  
+  let weekday = 0;
+  let hour = 0;
+  for (const part of parts) {
+    if (part.type === 'weekday') {
+      weekday = WEEKDAY_NUMBERS[part.value] ?? 0;
+    } else if (part.type === 'hour') {
+      // Some runtimes render midnight as "24" even with h23
+      hour = parseInt(part.value, 10) % 24;
+    }
+  }
+  
+  return { weekday, hour };
+}
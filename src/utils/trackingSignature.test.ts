@@ -0,0 +1,80 @@
+import { AUCTION_PRICE_PARAM, signClickId, signTrackingUrl, TRACKING_SIGNATURE_PARAM, TRACKING_TIMESTAMP_PARAM, TRACKING_URL_MAX_AGE_MS, verifyClickToken, verifyTrackingUrl } from './trackingSignature';
+
+const SECRET = 'test-secret';
+
+describe('click tokens', () => {
+  it('accepts the token of the click', async () => {
+    const token = await signClickId('7052987354062348288', SECRET);
+
+    expect(await verifyClickToken('7052987354062348288', token, SECRET)).toBe(true);
+  });
+
+  it('rejects the token of another click or secret', async () => {
+    const token = await signClickId('7052987354062348288', SECRET);
+
+    expect(await verifyClickToken('7052987354062348289', token, SECRET)).toBe(false);
+    expect(await verifyClickToken('7052987354062348288', token, 'other-secret')).toBe(false);
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifyClickToken('1', '', SECRET)).toBe(false);
+    expect(await verifyClickToken('1', 'not base64!', SECRET)).toBe(false);
+  });
+});
+
+describe('tracking URLs', () => {
+  const NOW = 1_700_000_000_000;
+
+  /**
+   * Sign an impression URL issued at the given time
+   */
+  async function signedUrl(issuedAt: number = NOW): Promise<URL> {
+    const url = new URL('https://ads.example.com/track/impression/42/7?sub_id=fb_1&creative_id=3');
+    return new URL(await signTrackingUrl(url, SECRET, issuedAt));
+  }
+
+  it('accepts a signed URL with reordered parameters', async () => {
+    const url = await signedUrl();
+    const reordered = new URL(url.pathname, url.origin);
+    [...url.searchParams.entries()].reverse().forEach(([name, value]) => reordered.searchParams.append(name, value));
+
+    expect(url.searchParams.get(TRACKING_TIMESTAMP_PARAM)).toBe(String(NOW));
+    expect(await verifyTrackingUrl(reordered, SECRET, NOW)).toBe(true);
+  });
+
+  it('rejects expired URLs and URLs issued too far in the future', async () => {
+    expect(await verifyTrackingUrl(await signedUrl(), SECRET, NOW + TRACKING_URL_MAX_AGE_MS)).toBe(true);
+    expect(await verifyTrackingUrl(await signedUrl(), SECRET, NOW + TRACKING_URL_MAX_AGE_MS + 1)).toBe(false);
+    expect(await verifyTrackingUrl(await signedUrl(NOW + 60 * 60 * 1000), SECRET, NOW)).toBe(false);
+  });
+
+  it.each<[string, (url: URL) => void]>([
+    ['a changed campaign', (url): void => { url.pathname = '/track/impression/43/7'; }],
+    ['a changed parameter', (url): void => url.searchParams.set('sub_id', 'fb_2')],
+    ['an added parameter', (url): void => url.searchParams.set('bid_id', '1')],
+    ['a changed issue time', (url): void => url.searchParams.set(TRACKING_TIMESTAMP_PARAM, String(NOW + 1))],
+    ['a missing signature', (url): void => url.searchParams.delete(TRACKING_SIGNATURE_PARAM)],
+    ['a malformed signature', (url): void => url.searchParams.set(TRACKING_SIGNATURE_PARAM, 'not base64!')]
+  ])('rejects %s', async (_name, tamper) => {
+    const url = await signedUrl();
+    tamper(url);
+
+    expect(await verifyTrackingUrl(url, SECRET, NOW)).toBe(false);
+  });
+
+  it('leaves the clearing price out of the signature', async () => {
+    const url = new URL('https://ads.example.com/track/win/42/7?bid_id=9');
+    const signed = new URL(await signTrackingUrl(url, SECRET, NOW));
+    signed.searchParams.set(AUCTION_PRICE_PARAM, '1.25');
+
+    expect(await verifyTrackingUrl(signed, SECRET, NOW)).toBe(true);
+
+    signed.searchParams.set('bid_id', '10');
+
+    expect(await verifyTrackingUrl(signed, SECRET, NOW)).toBe(false);
+  });
+
+  it('rejects URLs signed with another secret', async () => {
+    expect(await verifyTrackingUrl(await signedUrl(), 'other-secret', NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tracking URL signing utilities
+ * Signs click and impression URLs with HMAC-SHA256, so partners cannot forge events
+ * for other campaigns or zones and old URLs stop being accepted after a while
+ */
+
+// Query parameter holding the issue time in milliseconds
+export const TRACKING_TIMESTAMP_PARAM = 'ts';
+
+// Query parameter holding the signature
+export const TRACKING_SIGNATURE_PARAM = 'sig';
+
+// Query parameter holding the clearing price of a win or billing notice
+// The exchange fills it in after the bid, so it is not part of the signature
+export const AUCTION_PRICE_PARAM = 'price';
+
+// How long a signed tracking URL is accepted, in milliseconds
+export const TRACKING_URL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Tolerated clock difference for URLs issued by another isolate, in milliseconds
+const TRACKING_URL_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Build the signed text of a tracking URL: its path and its query parameters sorted by name,
+ * without the signature and the clearing price, so reordered parameters keep a valid signature
+ */
+function getSignedText(url: URL): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => name !== TRACKING_SIGNATURE_PARAM && name !== AUCTION_PRICE_PARAM)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * Import the HMAC key for a secret
+ */
+async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url, returning null when the text is not valid base64url
+ */
+function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+    return null;
+  }
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Add the issue time and signature to a tracking URL, in place
+ * @param url Tracking URL with all other query parameters already set
+ * @param secret Signing secret
+ * @param now Issue time in milliseconds
+ * @returns The signed URL as a string
+ */
+export async function signTrackingUrl(url: URL, secret: string, now: number = Date.now()): Promise<string> {
+  url.searchParams.delete(TRACKING_SIGNATURE_PARAM);
+  url.searchParams.set(TRACKING_TIMESTAMP_PARAM, String(now));
+
+  const key = await importSigningKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(getSignedText(url)));
+  url.searchParams.set(TRACKING_SIGNATURE_PARAM, toBase64Url(new Uint8Array(signature)));
+
+  return url.toString();
+}
+
+/**
+ * Check the signature and age of a tracking URL
+ * @param url Tracking URL of the request
+ * @param secret Signing secret
+ * @param now Current time in milliseconds
+ * @returns true if the URL was signed with the secret and has not expired
+ */
+export async function verifyTrackingUrl(url: URL, secret: string, now: number = Date.now()): Promise<boolean> {
+  const issuedAt = Number(url.searchParams.get(TRACKING_TIMESTAMP_PARAM));
+  if (!Number.isFinite(issuedAt) || issuedAt <= 0
+    || now - issuedAt > TRACKING_URL_MAX_AGE_MS || issuedAt - now > TRACKING_URL_CLOCK_SKEW_MS) {
+    return false;
+  }
+
+  const signature = fromBase64Url(url.searchParams.get(TRACKING_SIGNATURE_PARAM) ?? '');
+  if (!signature || signature.length === 0) {
+    return false;
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importSigningKey(secret);
+  return await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(getSignedText(url)));
+}
+
+/**
+ * Build the token that authenticates the conversion postback of a click
+ * Tokens do not expire, as conversions may be reported long after the click
+ * @param clickId Click ID
+ * @param secret Signing secret
+ * @returns The token as unpadded base64url
+ */
+export async function signClickId(clickId: string, secret: string): Promise<string> {
+  const key = await importSigningKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`click:${clickId}`));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Check the postback token of a click
+ * @param clickId Click ID
+ * @param token Token received through the {click_token} macro
+ * @param secret Signing secret
+ * @returns true if the token was issued for the click with the secret
+ */
+export async function verifyClickToken(clickId: string, token: string, secret: string): Promise<boolean> {
+  const signature = fromBase64Url(token);
+  if (!signature || signature.length === 0) {
+    return false;
+  }
+
+  const key = await importSigningKey(secret);
+  return await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(`click:${clickId}`));
+}
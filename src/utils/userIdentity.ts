@@ -0,0 +1,79 @@
+/**
+ * User identity utilities
+ * Derives a stable per-user key for frequency capping and visit limits
+ */
+
+// First-party cookie holding the user key
+export const USER_COOKIE_NAME = 'las_uid';
+
+// Keep the cookie for one year
+const USER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Result of resolving the user key for a request
+ */
+export interface UserIdentity {
+  // Stable identifier for the user
+  userKey: string;
+  // Set-Cookie header value to send when the cookie is missing, otherwise null
+  setCookie: string | null;
+}
+
+/**
+ * Read a cookie value from the request
+ * @param request The HTTP request
+ * @param name Cookie name
+ * @returns The cookie value or null if absent
+ */
+export function getCookie(request: Request, name: string): string | null {
+  const cookieHeader = request.headers.get('Cookie');
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const pair of cookieHeader.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+    if (pair.slice(0, separatorIndex).trim() === name) {
+      return pair.slice(separatorIndex + 1).trim();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hash the client IP and user agent into a hex user key
+ */
+async function hashIpAndUserAgent(ip: string, userAgent: string): Promise<string> {
+  const data = new TextEncoder().encode(`${ip}|${userAgent}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Resolve the user key for a request
+ * Uses the first-party cookie when present, otherwise falls back to a hash
+ * of the client IP and user agent and asks for it to be stored as the cookie
+ * @param request The HTTP request
+ * @returns The user key and an optional Set-Cookie header value
+ */
+export async function resolveUserIdentity(request: Request): Promise<UserIdentity> {
+  const cookieValue = getCookie(request, USER_COOKIE_NAME);
+  if (cookieValue && /^[a-zA-Z0-9-]{8,64}$/.test(cookieValue)) {
+    return { userKey: cookieValue, setCookie: null };
+  }
+
+  const ip = request.headers.get('CF-Connecting-IP') ?? '';
+  const userAgent = request.headers.get('User-Agent') ?? '';
+  const userKey = await hashIpAndUserAgent(ip, userAgent);
+
+  return {
+    userKey,
+    setCookie: `${USER_COOKIE_NAME}=${userKey}; Max-Age=${USER_COOKIE_MAX_AGE}; Path=/; Secure; HttpOnly; SameSite=None`
+  };
+}
@@ -0,0 +1,85 @@
+import { escapeXml, formatVastDuration, renderEmptyVast, renderVastInline, renderVastWrapper, VAST_VERSION } from './vastMarkup';
+import { VIDEO_EVENT_TYPES } from '../models/AdEvent';
+import type { SyncedCreative } from '../models/Creative';
+
+const VIDEO_CREATIVE: SyncedCreative = {
+  id: 5,
+  type: 'video',
+  width: 1280,
+  height: 720,
+  image_url: null,
+  html: null,
+  media_url: 'https://cdn.example.com/ad.mp4?a=1&b=2',
+  mime_type: 'video/mp4',
+  duration: 75,
+  title: null,
+  body: null,
+  cta: null,
+  icon_url: null,
+  sponsor: null,
+  weight: 1
+};
+
+describe('formatVastDuration', () => {
+  it.each([
+    [0, '00:00:00'],
+    [75, '00:01:15'],
+    [3725, '01:02:05']
+  ])('formats %i seconds as %s', (seconds, expected) => {
+    expect(formatVastDuration(seconds)).toBe(expected);
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  });
+});
+
+describe('renderVastWrapper', () => {
+  it('hands the player over to the VAST tag and tracks the impression', () => {
+    const vast = renderVastWrapper('123', 'https://backfill.example.com/vast?zone=1', 'https://ads.example.com/track/impression/0/1?sig=abc');
+
+    expect(vast).toContain(`<VAST version="${VAST_VERSION}"`);
+    expect(vast).toContain('<Wrapper>');
+    expect(vast).toContain('<Impression id="123"><![CDATA[https://ads.example.com/track/impression/0/1?sig=abc]]></Impression>');
+    expect(vast).toContain('<VASTAdTagURI><![CDATA[https://backfill.example.com/vast?zone=1]]></VASTAdTagURI>');
+    expect(vast).not.toContain('<InLine>');
+  });
+
+  it('keeps URLs containing a CDATA end inside the section', () => {
+    const vast = renderVastWrapper('1', 'https://backfill.example.com/?q=]]>', 'https://ads.example.com/i');
+
+    expect(vast).toContain('<![CDATA[https://backfill.example.com/?q=]]]]><![CDATA[>]]>');
+  });
+});
+
+describe('renderVastInline', () => {
+  const eventUrls = Object.fromEntries(VIDEO_EVENT_TYPES.map(event => [event, `https://ads.example.com/track/${event}`])) as Record<typeof VIDEO_EVENT_TYPES[number], string>;
+  const vast = renderVastInline('456', 'Spring <Sale>', VIDEO_CREATIVE, {
+    impressionUrl: 'https://ads.example.com/track/impression',
+    clickUrl: 'https://ads.example.com/track/click',
+    eventUrls
+  });
+
+  it('describes the linear ad', () => {
+    expect(vast).toContain('<Ad id="5">');
+    expect(vast).toContain('<AdTitle>Spring &lt;Sale&gt;</AdTitle>');
+    expect(vast).toContain('<Duration>00:01:15</Duration>');
+    expect(vast).toContain('<MediaFile delivery="progressive" type="video/mp4" width="1280" height="720"><![CDATA[https://cdn.example.com/ad.mp4?a=1&b=2]]></MediaFile>');
+  });
+
+  it('includes the impression, click and playback tracking URLs', () => {
+    expect(vast).toContain('<Impression id="456"><![CDATA[https://ads.example.com/track/impression]]></Impression>');
+    expect(vast).toContain('<ClickThrough><![CDATA[https://ads.example.com/track/click]]></ClickThrough>');
+    VIDEO_EVENT_TYPES.forEach(event => {
+      expect(vast).toContain(`<Tracking event="${event}"><![CDATA[https://ads.example.com/track/${event}]]></Tracking>`);
+    });
+  });
+});
+
+describe('renderEmptyVast', () => {
+  it('renders a document without ads', () => {
+    expect(renderEmptyVast()).toBe(`<?xml version="1.0" encoding="UTF-8"?>\n<VAST version="${VAST_VERSION}" xmlns="http://www.iab.com/VAST"/>\n`);
+  });
+});
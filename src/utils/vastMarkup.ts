@@ -0,0 +1,135 @@
+/**
+ * VAST 4 documents returned to video players by video zones
+ */
+
+import type { SyncedCreative } from '../models/Creative';
+import type { VideoEventType } from '../models/AdEvent';
+
+// VAST version of the generated documents
+export const VAST_VERSION = '4.2';
+
+const VAST_NAMESPACE = 'http://www.iab.com/VAST';
+
+const AD_SYSTEM = 'Lite Ad Server';
+
+/**
+ * Tracking URLs of a video ad
+ */
+export interface VastTracking {
+  impressionUrl: string;
+  clickUrl: string;
+  // Playback event tracking URLs by VAST event name
+  eventUrls: Record<VideoEventType, string>;
+}
+
+/**
+ * Escape text for use in XML content and quoted attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wrap a URL in a CDATA section, as VAST recommends for URIs
+ */
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Format a length in seconds as the HH:MM:SS duration of VAST
+ */
+export function formatVastDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = seconds % 60;
+  return [hours, minutes, remainder].map(part => String(part).padStart(2, '0')).join(':');
+}
+
+/**
+ * Wrap ads in a VAST document
+ * @param ads Markup of the Ad elements, empty for a document without ads
+ */
+function renderVastDocument(ads: string): string {
+  const root = `<VAST version="${VAST_VERSION}" xmlns="${VAST_NAMESPACE}"`;
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    (ads ? `${root}>\n${ads}</VAST>\n` : `${root}/>\n`);
+}
+
+/**
+ * Render a VAST document with a linear video ad
+ * @param adServingId Unique ID of this ad response, for reconciling reports
+ * @param title Ad title, e.g. the campaign name
+ * @param creative Video creative with its media file
+ * @param tracking Impression, click and playback tracking URLs
+ * @returns VAST document with one InLine ad
+ */
+export function renderVastInline(
+  adServingId: string,
+  title: string,
+  creative: SyncedCreative,
+  tracking: VastTracking
+): string {
+  const trackingEvents = (Object.entries(tracking.eventUrls) as Array<[VideoEventType, string]>)
+    .map(([event, url]) => `              <Tracking event="${event}">${cdata(url)}</Tracking>\n`)
+    .join('');
+
+  return renderVastDocument(
+    `  <Ad id="${creative.id}">\n` +
+    '    <InLine>\n' +
+    `      <AdSystem>${AD_SYSTEM}</AdSystem>\n` +
+    `      <AdServingId>${escapeXml(adServingId)}</AdServingId>\n` +
+    `      <AdTitle>${escapeXml(title)}</AdTitle>\n` +
+    `      <Impression id="${escapeXml(adServingId)}">${cdata(tracking.impressionUrl)}</Impression>\n` +
+    '      <Creatives>\n' +
+    `        <Creative id="${creative.id}" sequence="1">\n` +
+    `          <UniversalAdId idRegistry="unknown">${creative.id}</UniversalAdId>\n` +
+    '          <Linear>\n' +
+    `            <Duration>${formatVastDuration(creative.duration ?? 0)}</Duration>\n` +
+    '            <TrackingEvents>\n' +
+    trackingEvents +
+    '            </TrackingEvents>\n' +
+    '            <VideoClicks>\n' +
+    `              <ClickThrough>${cdata(tracking.clickUrl)}</ClickThrough>\n` +
+    '            </VideoClicks>\n' +
+    '            <MediaFiles>\n' +
+    `              <MediaFile delivery="progressive" type="${escapeXml(creative.mime_type ?? '')}" width="${creative.width}" height="${creative.height}">${cdata(creative.media_url ?? '')}</MediaFile>\n` +
+    '            </MediaFiles>\n' +
+    '          </Linear>\n' +
+    '        </Creative>\n' +
+    '      </Creatives>\n' +
+    '    </InLine>\n' +
+    '  </Ad>\n'
+  );
+}
+
+/**
+ * Render a VAST wrapper that hands the player over to another VAST tag, e.g. a zone's traffic back URL
+ * @param adServingId Unique ID of this ad response, for reconciling reports
+ * @param vastTagUrl VAST tag the player loads the ad from
+ * @param impressionUrl Tracking URL the player calls when the wrapped ad is shown
+ * @returns VAST document with one Wrapper ad
+ */
+export function renderVastWrapper(adServingId: string, vastTagUrl: string, impressionUrl: string): string {
+  return renderVastDocument(
+    '  <Ad>\n' +
+    '    <Wrapper>\n' +
+    `      <AdSystem>${AD_SYSTEM}</AdSystem>\n` +
+    `      <Impression id="${escapeXml(adServingId)}">${cdata(impressionUrl)}</Impression>\n` +
+    `      <VASTAdTagURI>${cdata(vastTagUrl)}</VASTAdTagURI>\n` +
+    '    </Wrapper>\n' +
+    '  </Ad>\n'
+  );
+}
+
+/**
+ * Render a VAST document without ads, which tells the player that no ad is available
+ */
+export function renderEmptyVast(): string {
+  return renderVastDocument('');
+}
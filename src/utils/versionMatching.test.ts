@@ -0,0 +1,55 @@
+import { compareVersionToBound, parseVersion, satisfiesVersion, VersionConstraint } from './versionMatching';
+import { parseBrowserRule, parseOsRule } from '../models/TargetingRule';
+
+describe('parseVersion', () => {
+  it.each([
+    ['16.4.1', [16, 4, 1]],
+    ['10_15_7', [10, 15, 7]],
+    ['NT 10.0', [10, 0]],
+    ['10.0_beta', [10, 0]],
+    ['', []],
+    ['unknown', []]
+  ])('parses "%s"', (text, expected) => {
+    expect(parseVersion(text)).toEqual(expected);
+  });
+});
+
+describe('compareVersionToBound', () => {
+  it('compares at the precision of the bound', () => {
+    expect(compareVersionToBound([16, 4, 1], [16])).toBe(0);
+    expect(compareVersionToBound([16, 4, 1], [16, 5])).toBeLessThan(0);
+    expect(compareVersionToBound([16], [16, 0, 1])).toBeLessThan(0);
+    expect(compareVersionToBound([17], [16, 9])).toBeGreaterThan(0);
+  });
+});
+
+describe('satisfiesVersion', () => {
+  it.each<[string, VersionConstraint, boolean]>([
+    ['16.0', { operator: '>=', version: [16] }, true],
+    ['15.8', { operator: '>=', version: [16] }, false],
+    ['10.0', { operator: '<', version: [10] }, false],
+    ['9.1', { operator: '<', version: [10] }, true],
+    ['120.0.6099', { operator: '=', version: [120] }, true],
+    ['121.0', { operator: '<=', version: [120] }, false],
+    ['120.1', { operator: '>', version: [120] }, false],
+    ['120.0.6099', { operator: 'range', min: [110], max: [120] }, true],
+    ['109.9', { operator: 'range', min: [110], max: [120] }, false],
+    ['', { operator: '>=', version: [0] }, false]
+  ])('"%s" against %j: %s', (version, constraint, expected) => {
+    expect(satisfiesVersion(parseVersion(version), constraint)).toBe(expected);
+  });
+});
+
+describe('OS and browser rule versions', () => {
+  it('parses version conditions and ranges', () => {
+    expect(parseOsRule('iOS>=16, Android < 10.1,Windows')).toEqual([
+      { name: 'iOS', version: { operator: '>=', version: [16] } },
+      { name: 'Android', version: { operator: '<', version: [10, 1] } },
+      { name: 'Windows' }
+    ]);
+    expect(parseBrowserRule('Chrome 110-120,Microsoft Edge=120')).toEqual([
+      { name: 'Chrome', version: { operator: 'range', min: [110], max: [120] } },
+      { name: 'Microsoft Edge', version: { operator: '=', version: [120] } }
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Version matching utilities
+ * Compares dotted versions such as "16.4.1" against rule bounds such as ">=16" or "110-120"
+ */
+
+export type VersionOperator = '>=' | '<=' | '>' | '<' | '=';
+
+/**
+ * A version condition from a targeting rule
+ */
+export type VersionConstraint =
+  | { operator: VersionOperator; version: number[] }
+  | { operator: 'range'; min: number[]; max: number[] };
+
+/**
+ * Parse a dotted version into numeric components
+ * The first numeric run is used, so "10.0_beta" becomes [10, 0] and "NT 10.0" becomes [10, 0]
+ * @param text Version text
+ * @returns Numeric components, or an empty array if the version is unknown
+ */
+export function parseVersion(text: string): number[] {
+  const match = /(\d+(?:[._]\d+)*)/.exec(text);
+  if (!match?.[1]) {
+    return [];
+  }
+  return match[1].split(/[._]/).map(part => parseInt(part, 10));
+}
+
+/**
+ * Compare a version with a bound at the precision of the bound
+ * Only as many components as the bound has are compared, so "16.4.1" equals the bound "16"
+ * and "120.0.6099" equals the bound "120"; missing components of the version count as 0
+ * @returns A negative number, zero or a positive number as the version is below, at or above the bound
+ */
+export function compareVersionToBound(version: number[], bound: number[]): number {
+  for (let i = 0; i < bound.length; i++) {
+    const difference = (version[i] ?? 0) - (bound[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check if a version satisfies a constraint
+ * @param version Numeric version components; an unknown (empty) version never matches
+ * @param constraint Version constraint
+ */
+export function satisfiesVersion(version: number[], constraint: VersionConstraint): boolean {
+  if (version.length === 0) {
+    return false;
+  }
+
+  switch (constraint.operator) {
+    case 'range':
+      return compareVersionToBound(version, constraint.min) >= 0 && compareVersionToBound(version, constraint.max) <= 0;
+    case '>=':
+      return compareVersionToBound(version, constraint.version) >= 0;
+    case '<=':
+      return compareVersionToBound(version, constraint.version) <= 0;
+    case '>':
+      return compareVersionToBound(version, constraint.version) > 0;
+    case '<':
+      return compareVersionToBound(version, constraint.version) < 0;
+    case '=':
+      return compareVersionToBound(version, constraint.version) === 0;
+  }
+}
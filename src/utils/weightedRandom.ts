@@ -0,0 +1,47 @@
+/**
+ * Weighted random selection utilities
+ */
+
+/**
+ * Pick one item at random, with probability proportional to its weight
+ * @param items Candidate items
+ * @param getWeight Returns the weight of an item; non-positive weights are never picked
+ * @param random Random number source in [0, 1), defaults to Math.random
+ * @returns The picked item, or null if no item has a positive weight
+ */
+export function pickWeighted<T>(
+  items: T[],
+  getWeight: (item: T) => number,
+  random: () => number = Math.random
+): T | null {
+  const weights = items.map(item => {
+    const weight = getWeight(item);
+    return Number.isFinite(weight) && weight > 0 ? weight : 0;
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  let threshold = random() * totalWeight;
+  for (let i = 0; i < items.length; i++) {
+    const weight = weights[i] ?? 0;
+    if (weight <= 0) {
+      continue;
+    }
+    if (threshold < weight) {
+      return items[i] ?? null;
+    }
+    threshold -= weight;
+  }
+
+  // Floating point rounding can leave a tiny remainder; fall back to the last weighted item
+  for (let i = items.length - 1; i >= 0; i--) {
+    if ((weights[i] ?? 0) > 0) {
+      return items[i] ?? null;
+    }
+  }
+
+  return null;
+}
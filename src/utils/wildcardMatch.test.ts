@@ -0,0 +1,31 @@
+import { matchesWildcard } from './wildcardMatch';
+
+describe('matchesWildcard', () => {
+  it.each([
+    ['fb_123', 'fb_123', true],
+    ['fb_123', 'FB_123', false],
+    ['fb_123', 'fb_*', true],
+    ['fb_', 'fb_*', true],
+    ['google_123', 'fb_*', false],
+    ['summer_retargeting', '*_retargeting', true],
+    ['summer_retargeting_2', '*_retargeting', false],
+    ['src-eu-42', 'src-??-*', true],
+    ['src-e-42', 'src-??-*', false],
+    ['abc', 'a?c', true],
+    ['ac', 'a?c', false],
+    ['a_b_c_d', '*_c_*', true],
+    ['aaab', '*a*b', true],
+    ['', '*', true],
+    ['', '?', false],
+    ['x', '**', true]
+  ])('"%s" against "%s": %s', (value, pattern, expected) => {
+    expect(matchesWildcard(value, pattern)).toBe(expected);
+  });
+
+  it('does not backtrack catastrophically', () => {
+    const value = 'a'.repeat(10000);
+    const pattern = `${'*a'.repeat(50)}b`;
+
+    expect(matchesWildcard(value, pattern)).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Wildcard matching utilities
+ * Patterns are matched without building regular expressions, so user input cannot cause catastrophic backtracking
+ */
+
+/**
+ * Check if a value matches a wildcard pattern
+ * "*" matches any sequence of characters (including none) and "?" matches exactly one character;
+ * every other character matches itself, case-sensitively
+ * @param value Value to test
+ * @param pattern Wildcard pattern, e.g. "fb_*", "*_retargeting" or "src-??-*"
+ */
+export function matchesWildcard(value: string, pattern: string): boolean {
+  // Fast paths for patterns without wildcards and plain prefixes
+  if (!pattern.includes('*') && !pattern.includes('?')) {
+    return value === pattern;
+  }
+  const firstStar = pattern.indexOf('*');
+  if (firstStar === pattern.length - 1 && !pattern.includes('?')) {
+    return value.startsWith(pattern.slice(0, -1));
+  }
+
+  // Greedy matching that backtracks only to the most recent "*", which runs in O(value * pattern)
+  let valueIndex = 0;
+  let patternIndex = 0;
+  let starIndex = -1;
+  let starValueIndex = 0;
+
+  while (valueIndex < value.length) {
+    const patternChar = pattern[patternIndex];
+    if (patternChar === '?' || (patternChar !== undefined && patternChar !== '*' && patternChar === value[valueIndex])) {
+      valueIndex++;
+      patternIndex++;
+    } else if (patternChar === '*') {
+      starIndex = patternIndex;
+      starValueIndex = valueIndex;
+      patternIndex++;
+    } else if (starIndex !== -1) {
+      patternIndex = starIndex + 1;
+      starValueIndex++;
+      valueIndex = starValueIndex;
+    } else {
+      return false;
+    }
+  }
+
+  // Any remaining pattern characters must all be "*"
+  while (pattern[patternIndex] === '*') {
+    patternIndex++;
+  }
+  return patternIndex === pattern.length;
+}
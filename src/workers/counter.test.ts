@@ -0,0 +1,77 @@
+import { CounterDO } from './counter';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Build a Durable Object state with in-memory storage and alarm
+ */
+function createState(): { state: DurableObjectState; storage: Map<string, unknown>; getAlarm: () => number | null } {
+  const storage = new Map<string, unknown>();
+  let alarm: number | null = null;
+
+  const state = {
+    storage: {
+      get: (key: string): Promise<unknown> => Promise.resolve(storage.get(key)),
+      put: (key: string, value: unknown): Promise<void> => {
+        storage.set(key, value);
+        return Promise.resolve();
+      },
+      delete: (keys: string | string[]): Promise<number> => {
+        const list = Array.isArray(keys) ? keys : [keys];
+        return Promise.resolve(list.filter(key => storage.delete(key)).length);
+      },
+      getAlarm: (): Promise<number | null> => Promise.resolve(alarm),
+      setAlarm: (time: number): Promise<void> => {
+        alarm = time;
+        return Promise.resolve();
+      }
+    }
+  } as unknown as DurableObjectState;
+
+  return { state, storage, getAlarm: () => alarm };
+}
+
+/**
+ * Send an action to the counter
+ */
+async function post(counter: CounterDO, action: string, body: Record<string, unknown>): Promise<Response> {
+  return await counter.fetch(new Request(`https://counter/${action}`, { method: 'POST', body: JSON.stringify(body) }));
+}
+
+describe('CounterDO cleanup alarm', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sets the alarm at the end of the longest window', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const { state, getAlarm } = createState();
+    const counter = new CounterDO(state);
+
+    await post(counter, 'impression', { campaignId: 1, userId: 'u', windowHours: 48 });
+    await post(counter, 'click', { campaignId: 2, userId: 'u', windowHours: 1 });
+
+    expect(getAlarm()).toBe(1_000_000 + 48 * HOUR_MS);
+  });
+
+  it('deletes expired lists and keeps the others', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const { state, storage, getAlarm } = createState();
+    const counter = new CounterDO(state);
+
+    await post(counter, 'impression', { campaignId: 1, userId: 'u', windowHours: 1 });
+    await post(counter, 'impression', { campaignId: 2, userId: 'u', windowHours: 2 });
+
+    jest.setSystemTime(1_000_000 + HOUR_MS);
+    await counter.alarm();
+
+    expect(storage.has('user:u:campaign:1:impressions')).toBe(false);
+    expect(storage.has('user:u:campaign:2:impressions')).toBe(true);
+    expect(getAlarm()).toBe(1_000_000 + 2 * HOUR_MS);
+
+    jest.setSystemTime(1_000_000 + 2 * HOUR_MS);
+    await counter.alarm();
+
+    expect([...storage.keys()]).toEqual([]);
+  });
+});
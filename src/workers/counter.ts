@@ -1,38 +1,58 @@
 /**
  * Counter Durable Object
- * Handles frequency caps and could be used for real-time analytics
+ * Handles frequency caps; one object is addressed per user
+ * An alarm deletes the per-user lists once their window has ended, so users who never
+ * return do not keep storage forever
  * 
- * NOTE: While we now store raw click data in D1, this Durable Object
- * is still useful for frequency capping and could be extended for
- * real-time analytics that don't require persistence.
+ * NOTE: Campaign and zone statistics are read from the ad events in D1,
+ * as a per-user object only ever sees the events of a single user.
  */
 
+import { DEFAULT_CAPPING_WINDOW_HOURS } from '../models/TargetingRule';
+
 interface ImpressionData {
   campaignId: number;
-  zoneId?: number;
   userId?: string;
   timestamp?: number;
+  windowHours?: number;
 }
 
 interface ClickData {
   campaignId: number;
-  zoneId?: number;
   userId?: string;
   timestamp?: number;
+  windowHours?: number;
 }
 
 interface CappingCheckData {
   campaignId: number;
   userId: string;
   cappingValue?: number;
+  windowHours?: number;
+}
+
+interface VisitCheckData {
+  campaignId: number;
+  userId: string;
+  visitLimit: number;
+  windowHours?: number;
 }
 
-interface StatsResponse {
-  campaignId: string | null;
-  zoneId?: string | null;
-  date?: string | null;
-  impressions: number;
-  clicks: number;
+// Hard bound on timestamps kept per user list, whatever the window
+const MAX_USER_TIMESTAMPS = 1000;
+
+// Storage key of the time each per-user list expires, read by the cleanup alarm
+const LIST_EXPIRY_KEY = 'list_expiry';
+
+// Most keys a single storage delete accepts
+const MAX_DELETE_KEYS = 128;
+
+/**
+ * Convert a window in hours to milliseconds, falling back to the default window
+ */
+function windowToMs(windowHours: number | undefined): number {
+  const hours = windowHours && windowHours > 0 ? windowHours : DEFAULT_CAPPING_WINDOW_HOURS;
+  return hours * 60 * 60 * 1000;
 }
 
 export class CounterDO implements DurableObject {
@@ -56,13 +76,8 @@ export class CounterDO implements DurableObject {
           return await this.recordClick(data as ClickData);
         case 'check-cap':
           return await this.checkCap(data as CappingCheckData);
-        default:
-          return new Response('Unknown action', { status: 400 });
-      }
-    } else if (request.method === 'GET') {
-      switch (action) {
-        case 'stats':
-          return await this.getStats(url.searchParams);
+        case 'check-visits':
+          return await this.checkVisits(data as VisitCheckData);
         default:
           return new Response('Unknown action', { status: 400 });
       }
@@ -71,45 +86,41 @@ export class CounterDO implements DurableObject {
     return new Response('Method not allowed', { status: 405 });
   }
   
+  /**
+   * Delete the per-user lists whose window has ended
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const expiry = (await this.state.storage.get(LIST_EXPIRY_KEY) as Record<string, number>) || {};
+    
+    const expired = Object.keys(expiry).filter(key => (expiry[key] ?? 0) <= now);
+    for (let i = 0; i < expired.length; i += MAX_DELETE_KEYS) {
+      await this.state.storage.delete(expired.slice(i, i + MAX_DELETE_KEYS));
+    }
+    expired.forEach(key => delete expiry[key]);
+    
+    const remaining = Object.values(expiry);
+    if (remaining.length === 0) {
+      await this.state.storage.delete(LIST_EXPIRY_KEY);
+    } else {
+      await this.state.storage.put(LIST_EXPIRY_KEY, expiry);
+      await this.state.storage.setAlarm(Math.max(...remaining));
+    }
+  }
+  
   /**
    * Record an impression for a campaign
    */
   private async recordImpression(data: ImpressionData): Promise<Response> {
-    const { campaignId, zoneId, userId, timestamp = Date.now() } = data;
+    const { campaignId, userId, timestamp = Date.now(), windowHours } = data;
     
     if (!campaignId) {
       return new Response('Campaign ID required', { status: 400 });
     }
     
-    const campaignKey = `campaign:${campaignId}:impressions`;
-    const impressions = (await this.state.storage.get(campaignKey) as number) || 0;
-    await this.state.storage.put(campaignKey, impressions + 1);
-    
-    if (zoneId) {
-      const zoneKey = `zone:${zoneId}:impressions`;
-      const zoneImpressions = (await this.state.storage.get(zoneKey) as number) || 0;
-      await this.state.storage.put(zoneKey, zoneImpressions + 1);
-      
-      const campaignZoneKey = `campaign:${campaignId}:zone:${zoneId}:impressions`;
-      const campaignZoneImpressions = (await this.state.storage.get(campaignZoneKey) as number) || 0;
-      await this.state.storage.put(campaignZoneKey, campaignZoneImpressions + 1);
-      
-      const today = new Date().toISOString().split('T')[0];
-      const dailyKey = `daily:${today}:campaign:${campaignId}:zone:${zoneId}:impressions`;
-      const dailyImpressions = (await this.state.storage.get(dailyKey) as number) || 0;
-      await this.state.storage.put(dailyKey, dailyImpressions + 1);
-    }
-    
     if (userId) {
       const userKey = `user:${userId}:campaign:${campaignId}:impressions`;
-      const userImpressions = (await this.state.storage.get(userKey) as number[]) || [];
-      userImpressions.push(timestamp);
-      
-      const recentImpressions = userImpressions.filter(
-        (ts: number) => ts > Date.now() - 24 * 60 * 60 * 1000
-      );
-      
-      await this.state.storage.put(userKey, recentImpressions);
+      await this.appendUserTimestamp(userKey, timestamp, windowToMs(windowHours));
     }
     
     return new Response('Impression recorded', { status: 200 });
@@ -119,36 +130,15 @@ export class CounterDO implements DurableObject {
    * Record a click for a campaign
    */
   private async recordClick(data: ClickData): Promise<Response> {
-    const { campaignId, zoneId, userId, timestamp = Date.now() } = data;
+    const { campaignId, userId, timestamp = Date.now(), windowHours } = data;
     
     if (!campaignId) {
       return new Response('Campaign ID required', { status: 400 });
     }
     
-    const campaignKey = `campaign:${campaignId}:clicks`;
-    const clicks = (await this.state.storage.get(campaignKey) as number) || 0;
-    await this.state.storage.put(campaignKey, clicks + 1);
-    
-    if (zoneId) {
-      const zoneKey = `zone:${zoneId}:clicks`;
-      const zoneClicks = (await this.state.storage.get(zoneKey) as number) || 0;
-      await this.state.storage.put(zoneKey, zoneClicks + 1);
-      
-      const campaignZoneKey = `campaign:${campaignId}:zone:${zoneId}:clicks`;
-      const campaignZoneClicks = (await this.state.storage.get(campaignZoneKey) as number) || 0;
-      await this.state.storage.put(campaignZoneKey, campaignZoneClicks + 1);
-      
-      const today = new Date().toISOString().split('T')[0];
-      const dailyKey = `daily:${today}:campaign:${campaignId}:zone:${zoneId}:clicks`;
-      const dailyClicks = (await this.state.storage.get(dailyKey) as number) || 0;
-      await this.state.storage.put(dailyKey, dailyClicks + 1);
-    }
-    
     if (userId) {
       const userKey = `user:${userId}:campaign:${campaignId}:clicks`;
-      const userClicks = (await this.state.storage.get(userKey) as number[]) || [];
-      userClicks.push(timestamp);
-      await this.state.storage.put(userKey, userClicks);
+      await this.appendUserTimestamp(userKey, timestamp, windowToMs(windowHours));
     }
     
     return new Response('Click recorded', { status: 200 });
@@ -158,25 +148,22 @@ export class CounterDO implements DurableObject {
    * Check if a user has reached frequency cap for a campaign
    */
   private async checkCap(data: CappingCheckData): Promise<Response> {
-    const { campaignId, userId, cappingValue = 10 } = data;
+    const { campaignId, userId, cappingValue = 10, windowHours } = data;
     
     if (!campaignId || !userId) {
       return new Response('Campaign ID and User ID required', { status: 400 });
     }
     
     const userKey = `user:${userId}:campaign:${campaignId}:impressions`;
-    const userImpressions = (await this.state.storage.get(userKey) as number[]) || [];
-    
-    const recentImpressions = userImpressions.filter(
-      (ts: number) => ts > Date.now() - 24 * 60 * 60 * 1000
-    );
+    const recentImpressions = await this.countRecentUserTimestamps(userKey, windowToMs(windowHours));
     
-    const cappedStatus = recentImpressions.length >= cappingValue;
+    const cappedStatus = recentImpressions >= cappingValue;
     
     return new Response(JSON.stringify({ 
       capped: cappedStatus,
-      impressions: recentImpressions.length,
-      limit: cappingValue
+      impressions: recentImpressions,
+      limit: cappingValue,
+      window_hours: windowToMs(windowHours) / (60 * 60 * 1000)
     }), { 
       status: 200,
       headers: { 'content-type': 'application/json' }
@@ -184,50 +171,75 @@ export class CounterDO implements DurableObject {
   }
   
   /**
-   * Get statistics for a campaign
+   * Check if a user has reached the visit limit for a campaign (unique_users rule)
    */
-  private async getStats(params: URLSearchParams): Promise<Response> {
-    const campaignId = params.get('campaignId');
-    const zoneId = params.get('zoneId');
-    const date = params.get('date');
+  private async checkVisits(data: VisitCheckData): Promise<Response> {
+    const { campaignId, userId, visitLimit, windowHours } = data;
     
-    if (!campaignId) {
-      return new Response('Campaign ID required', { status: 400 });
+    if (!campaignId || !userId || typeof visitLimit !== 'number') {
+      return new Response('Campaign ID, User ID and visit limit required', { status: 400 });
     }
     
-    let impressions = 0;
-    let clicks = 0;
+    const userKey = `user:${userId}:campaign:${campaignId}:clicks`;
+    const recentVisits = await this.countRecentUserTimestamps(userKey, windowToMs(windowHours));
     
-    if (zoneId && date) {
-      const impressionsKey = `daily:${date}:campaign:${campaignId}:zone:${zoneId}:impressions`;
-      const clicksKey = `daily:${date}:campaign:${campaignId}:zone:${zoneId}:clicks`;
-      
-      impressions = (await this.state.storage.get(impressionsKey) as number) || 0;
-      clicks = (await this.state.storage.get(clicksKey) as number) || 0;
-    } else if (zoneId) {
-      const impressionsKey = `campaign:${campaignId}:zone:${zoneId}:impressions`;
-      const clicksKey = `campaign:${campaignId}:zone:${zoneId}:clicks`;
-      
-      impressions = (await this.state.storage.get(impressionsKey) as number) || 0;
-      clicks = (await this.state.storage.get(clicksKey) as number) || 0;
-    } else {
-      impressions = (await this.state.storage.get(`campaign:${campaignId}:impressions`) as number) || 0;
-      clicks = (await this.state.storage.get(`campaign:${campaignId}:clicks`) as number) || 0;
+    return new Response(JSON.stringify({
+      limited: recentVisits >= visitLimit,
+      visits: recentVisits,
+      limit: visitLimit,
+      window_hours: windowToMs(windowHours) / (60 * 60 * 1000)
+    }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  }
+  
+  /**
+   * Append a timestamp to a per-user list, dropping entries outside the window
+   */
+  private async appendUserTimestamp(key: string, timestamp: number, windowMs: number): Promise<void> {
+    const timestamps = (await this.state.storage.get(key) as number[]) || [];
+    timestamps.push(timestamp);
+    
+    const windowStart = Date.now() - windowMs;
+    const recent = timestamps
+      .filter((ts: number) => ts > windowStart)
+      .slice(-MAX_USER_TIMESTAMPS);
+    
+    await this.state.storage.put(key, recent);
+    await this.scheduleExpiry(key, timestamp + windowMs);
+  }
+  
+  /**
+   * Remember when a per-user list expires and move the cleanup alarm to the end of the longest window
+   */
+  private async scheduleExpiry(key: string, expiresAt: number): Promise<void> {
+    const expiry = (await this.state.storage.get(LIST_EXPIRY_KEY) as Record<string, number>) || {};
+    expiry[key] = Math.max(expiry[key] ?? 0, expiresAt);
+    await this.state.storage.put(LIST_EXPIRY_KEY, expiry);
+    
+    const alarm = await this.state.storage.getAlarm();
+    if (alarm === null || alarm < expiresAt) {
+      await this.state.storage.setAlarm(expiresAt);
     }
+  }
+  
+  /**
+   * Count the timestamps of a per-user list inside the window
+   * Expired entries are pruned, and the key is deleted once nothing is left
+   */
+  private async countRecentUserTimestamps(key: string, windowMs: number): Promise<number> {
+    const timestamps = (await this.state.storage.get(key) as number[]) || [];
     
-    const response: StatsResponse = {
-      campaignId: campaignId,
-      zoneId: zoneId,
-      date: date,
-      impressions,
-      clicks
-    };
+    const windowStart = Date.now() - windowMs;
+    const recent = timestamps.filter((ts: number) => ts > windowStart);
     
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: {
-        'content-type': 'application/json'
-      }
-    });
+    if (recent.length === 0 && timestamps.length > 0) {
+      await this.state.storage.delete(key);
+    } else if (recent.length !== timestamps.length) {
+      await this.state.storage.put(key, recent);
+    }
+    
+    return recent.length;
   }
-} 
\ No newline at end of file
+}
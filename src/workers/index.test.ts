@@ -0,0 +1,296 @@
+import worker from './index';
+import { getCampaignIndexKey } from '../services/campaignIndexService';
+import { clearSnapshotCache } from '../services/snapshotCacheService';
+import { Env } from '../models/interfaces';
+import { Bid, BidRequest, BidResponse } from '../models/OpenRtb';
+import { TARGETING_RULE_TYPES } from '../models/TargetingRule';
+
+const USER_KEY = 'exchange-user-1';
+
+/**
+ * In-memory stand-in for the D1 tables used by bids and notices
+ * ad_events keeps its unique index on (bid_id, event_type), so INSERT OR IGNORE skips replayed notices
+ */
+function createDb(): { db: D1Database; events: Array<Record<string, unknown>>; bidUsers: Map<string, Record<string, unknown>> } {
+  const events: Array<Record<string, unknown>> = [];
+  const bidUsers = new Map<string, Record<string, unknown>>();
+
+  const execute = (sql: string, params: unknown[]): { changes: number; row: Record<string, unknown> | null } => {
+    if (sql.includes('INTO ad_events')) {
+      const event = { event_type: params[2], campaign_id: params[4], zone_id: params[5], price: params[23], bid_id: params[24] };
+      const duplicate = sql.includes('OR IGNORE') &&
+        events.some(existing => existing['bid_id'] === event.bid_id && existing['event_type'] === event.event_type);
+      if (duplicate) {
+        return { changes: 0, row: null };
+      }
+      events.push(event);
+      return { changes: 1, row: null };
+    }
+    if (sql.includes('INSERT INTO bid_users')) {
+      bidUsers.set(String(params[0]), { user_key: params[1], capping_hours: params[2] });
+      return { changes: 1, row: null };
+    }
+    if (sql.includes('DELETE FROM bid_users') && sql.includes('bid_id = ?')) {
+      const row = bidUsers.get(String(params[0])) ?? null;
+      bidUsers.delete(String(params[0]));
+      return { changes: row ? 1 : 0, row };
+    }
+    return { changes: 0, row: null };
+  };
+
+  const db = {
+    prepare: (sql: string) => ({
+      bind: (...params: unknown[]) => ({
+        run: (): Promise<unknown> => Promise.resolve({ meta: { changes: execute(sql, params).changes } }),
+        first: (): Promise<unknown> => Promise.resolve(execute(sql, params).row)
+      })
+    })
+  } as unknown as D1Database;
+
+  return { db, events, bidUsers };
+}
+
+/**
+ * Build an environment with zone 1 serving the given campaigns, and record the impressions sent to the counters
+ */
+function createEnv(campaigns: Array<Record<string, unknown>>): { env: Env; ctx: ExecutionContext; settle: () => Promise<void>; events: Array<Record<string, unknown>>; impressions: unknown[] } {
+  const store = new Map<string, string>([
+    ['zones:1', JSON.stringify({ id: 1, format: 'banner', width: 300, height: 250 })],
+    [getCampaignIndexKey(1), JSON.stringify({ zone_id: 1, timezone: null, campaigns })]
+  ]);
+  const { db, events } = createDb();
+  const impressions: unknown[] = [];
+  const pending: Array<Promise<unknown>> = [];
+
+  const counter = {
+    fetch: (url: string, init?: RequestInit): Promise<Response> => {
+      const action = url.split('/').pop();
+      if (action === 'impression') {
+        impressions.push(JSON.parse(String(init?.body)));
+      }
+      return Promise.resolve(new Response(JSON.stringify({ capped: false, limited: false })));
+    }
+  };
+
+  const env = {
+    DB: db,
+    campaigns_zones: {
+      get: (key: string): Promise<string | null> => Promise.resolve(store.get(key) ?? null)
+    },
+    COUNTER: {
+      idFromName: (name: string): string => name,
+      get: (): typeof counter => counter
+    }
+  } as unknown as Env;
+
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>): void => {
+      pending.push(promise);
+    },
+    passThroughOnException: (): void => undefined
+  } as unknown as ExecutionContext;
+
+  const settle = async (): Promise<void> => {
+    await Promise.all(pending);
+  };
+
+  return { env, ctx, settle, events, impressions };
+}
+
+/**
+ * Build a campaign of the zone index with a 300x250 image creative
+ */
+function campaign(id: number, bidPrice: number | null, rules: Array<{ type: number; rule: string }> = []): Record<string, unknown> {
+  return {
+    id,
+    name: `Campaign ${id}`,
+    redirect_url: `https://advertiser${id}.example.com/landing`,
+    status: 'active',
+    bid_price: bidPrice,
+    targeting_rules: rules.map(({ type, rule }) => ({ targeting_rule_type_id: type, targeting_method: 'whitelist', rule })),
+    creatives: [{
+      id: id * 10,
+      type: 'image',
+      width: 300,
+      height: 250,
+      image_url: `https://cdn.example.com/${id}.png`,
+      html: null,
+      media_url: null,
+      mime_type: null,
+      duration: null,
+      title: null,
+      body: null,
+      cta: null,
+      icon_url: null,
+      sponsor: null,
+      weight: 1
+    }]
+  };
+}
+
+/**
+ * Build a bid request for one banner impression
+ */
+function bidRequest(overrides: Partial<BidRequest> = {}, bidfloor?: number): BidRequest {
+  return {
+    id: 'auction-1',
+    imp: [{ id: 'imp-1', banner: { w: 728, h: 90, format: [{ w: 300, h: 250 }] }, bidfloor }],
+    device: { ua: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)', ip: '203.0.113.7', geo: { country: 'DEU' } },
+    site: { domain: 'publisher.example.com' },
+    user: { buyeruid: USER_KEY },
+    ...overrides
+  };
+}
+
+/**
+ * Send a bid request to zone 1
+ */
+async function postBidRequest(env: Env, ctx: ExecutionContext, body: unknown): Promise<Response> {
+  return await worker.fetch(new Request('https://ads.example.com/openrtb/1', { method: 'POST', body: JSON.stringify(body) }), env, ctx);
+}
+
+/**
+ * Send a bid request and return its only bid
+ */
+async function bidFor(env: Env, ctx: ExecutionContext, body: BidRequest): Promise<Bid> {
+  const response = await postBidRequest(env, ctx, body);
+  expect(response.status).toBe(200);
+  const bid = (await response.json() as BidResponse).seatbid[0]?.bid[0];
+  if (!bid) {
+    throw new Error('Expected a bid');
+  }
+  return bid;
+}
+
+/**
+ * Send a notice URL of a bid, with the clearing price the exchange fills in
+ */
+async function sendNotice(env: Env, ctx: ExecutionContext, noticeUrl: string, price: string): Promise<Response> {
+  return await worker.fetch(new Request(noticeUrl.replace('${AUCTION_PRICE}', price)), env, ctx);
+}
+
+describe('OpenRTB bidding', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+  });
+
+  it('bids on the banner size with a matching creative', async () => {
+    const { env, ctx } = createEnv([campaign(1, 2.5)]);
+
+    const response = await postBidRequest(env, ctx, bidRequest());
+    const body = await response.json() as BidResponse;
+
+    expect(response.headers.get('x-openrtb-version')).toBe('2.6');
+    expect(body).toMatchObject({ id: 'auction-1', cur: 'USD' });
+    expect(body.seatbid[0]?.bid).toHaveLength(1);
+    expect(body.seatbid[0]?.bid[0]).toMatchObject({
+      impid: 'imp-1',
+      price: 2.5,
+      crid: '10',
+      cid: '1',
+      adomain: ['advertiser1.example.com'],
+      w: 300,
+      h: 250,
+      mtype: 1
+    });
+  });
+
+  it('maps the device, site and user of the bid request for targeting', async () => {
+    const { env, ctx } = createEnv([
+      campaign(1, 1, [{ type: TARGETING_RULE_TYPES.GEO, rule: 'FR' }]),
+      campaign(2, 1, [
+        { type: TARGETING_RULE_TYPES.GEO, rule: 'DE' },
+        { type: TARGETING_RULE_TYPES.REFERRER_DOMAIN, rule: 'publisher.example.com' },
+        { type: TARGETING_RULE_TYPES.IP_ADDRESS, rule: '203.0.113.0/24' }
+      ])
+    ]);
+
+    expect((await bidFor(env, ctx, bidRequest())).cid).toBe('2');
+  });
+
+  it.each<[string, BidRequest]>([
+    ['the floor is above the bid price', bidRequest({}, 3)],
+    ['the floor is in another currency', bidRequest({ imp: [{ id: 'imp-1', banner: { w: 300, h: 250 }, bidfloor: 1, bidfloorcur: 'EUR' }] })],
+    ['the exchange only accepts other currencies', bidRequest({ cur: ['EUR'] })],
+    ['no creative fits the banner', bidRequest({ imp: [{ id: 'imp-1', banner: { w: 728, h: 90 } }] })]
+  ])('does not bid when %s', async (_name, body) => {
+    const { env, ctx } = createEnv([campaign(1, 2.5)]);
+
+    const response = await postBidRequest(env, ctx, body);
+
+    expect(response.status).toBe(204);
+  });
+
+  it('does not bid for campaigns without a bid price', async () => {
+    const { env, ctx } = createEnv([campaign(1, null)]);
+
+    expect((await postBidRequest(env, ctx, bidRequest())).status).toBe(204);
+  });
+
+  it('rejects invalid bid requests', async () => {
+    const { env, ctx } = createEnv([campaign(1, 2.5)]);
+
+    const response = await postBidRequest(env, ctx, { id: 'auction-1', imp: [] });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Bid request must contain at least one imp' });
+  });
+});
+
+describe('OpenRTB notices', () => {
+  beforeEach(() => {
+    clearSnapshotCache();
+    // Recorded events are logged as warnings
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records a win once and counts the impression for the user of the bid', async () => {
+    const { env, ctx, settle, events, impressions } = createEnv([campaign(1, 2.5, [{ type: TARGETING_RULE_TYPES.CAPPING, rule: '3/12' }])]);
+    const bid = await bidFor(env, ctx, bidRequest());
+
+    expect(bid.nurl).toContain(`bid_id=${bid.id}`);
+    expect(bid.nurl).not.toContain(USER_KEY);
+
+    expect((await sendNotice(env, ctx, bid.nurl, '1.75')).status).toBe(204);
+    expect((await sendNotice(env, ctx, bid.nurl, '1.75')).status).toBe(204);
+    await settle();
+
+    expect(events).toEqual([{ event_type: 'win', campaign_id: 1, zone_id: 1, price: 1.75, bid_id: bid.id }]);
+    expect(impressions).toEqual([{ campaignId: 1, userId: USER_KEY, windowHours: 12 }]);
+  });
+
+  it('records billing notices separately from wins', async () => {
+    const { env, ctx, settle, events, impressions } = createEnv([campaign(1, 2.5)]);
+    const bid = await bidFor(env, ctx, bidRequest());
+
+    await sendNotice(env, ctx, bid.nurl, '1.75');
+    await sendNotice(env, ctx, bid.burl, '1.75');
+    await sendNotice(env, ctx, bid.burl, '1.75');
+    await settle();
+
+    expect(events.map(event => event['event_type'])).toEqual(['win', 'billing']);
+    expect(impressions).toEqual([]);
+  });
+
+  it('ignores encrypted clearing prices', async () => {
+    const { env, ctx, events } = createEnv([campaign(1, 2.5)]);
+    const bid = await bidFor(env, ctx, bidRequest());
+
+    await sendNotice(env, ctx, bid.nurl, 'WEp8wQAKlgIAM0TN');
+
+    expect(events[0]?.['price']).toBeNull();
+  });
+
+  it('rejects notices without a bid ID', async () => {
+    const { env, ctx, events } = createEnv([campaign(1, 2.5)]);
+
+    const response = await worker.fetch(new Request('https://ads.example.com/track/win/1/1?price=1'), env, ctx);
+
+    expect(response.status).toBe(400);
+    expect(events).toEqual([]);
+  });
+});
@@ -7,19 +7,43 @@ import { CounterDO } from './counter';
 import { parseAndValidateId, parseId, isValidId } from '../utils/idValidation';
 import { generateSnowflakeId } from '../utils/snowflake';
 import { replaceMacros } from '../utils/macros';
+import { isValidTimeZone } from '../utils/timeZone';
+import { getRequestLocation, getRequestNetwork } from '../utils/requestCf';
+import { detectLanguages } from '../utils/languageDetection';
 import { handleSyncApiRequests } from '../services/syncService';
-import { hasValidAuthorizationAsync } from '../utils/auth';
-import { applySecurityHeaders } from '../utils/securityHeaders';
-import { selectEligibleCampaign } from '../services/campaignSelectionService';
-import { detectDeviceType, detectBrowser, detectOS } from '../utils/deviceDetection';
+import { hasValidAuthorizationAsync, isAuthenticatedServerCaller } from '../utils/auth';
+import { applySecurityHeaders, applyPublicCors, AD_FRAME_SECURITY_HEADERS } from '../utils/securityHeaders';
+import { selectEligibleCampaign, explainCampaignSelection, getSyncedCampaign, buildTargetingContext, getCappingWindowHours, hasCappingRules, hasUniqueUsersRules, getVisitWindowHours, resolveRedirectOverride, TargetingContext } from '../services/campaignSelectionService';
+import { recordUserImpression, recordUserClick } from '../services/frequencyCapService';
+import { getCachedSnapshotValue } from '../services/snapshotCacheService';
+import { resolveUserIdentity, USER_COOKIE_NAME } from '../utils/userIdentity';
+import { detectDevice, detectRequestDevice, DeviceInfo, CLIENT_HINT_HEADERS } from '../utils/deviceDetection';
+import { parseIpAddress } from '../utils/ipMatching';
+import { AUCTION_PRICE_PARAM, signClickId, signTrackingUrl, verifyClickToken, verifyTrackingUrl } from '../utils/trackingSignature';
+import { renderCreativeMarkup, renderCreativeEmbed, renderFrame, renderAdDocument, renderAdScript } from '../utils/creativeMarkup';
+import { renderVastInline, renderVastWrapper, renderEmptyVast, VastTracking } from '../utils/vastMarkup';
+import { toAlpha2CountryCode } from '../utils/countryCodes';
+import { buildNativeResponse } from '../utils/nativeResponse';
 import { 
   Env, 
   DbCampaign, 
   CampaignUpdateData, 
   ZoneUpdateData, 
   CreateCampaignRequestData,
-  TargetingRuleData
+  DebugSelectRequestData,
+  TargetingRuleData,
+  DbLandingPage,
+  DbCreative
 } from '../models/interfaces';
+import { DEFAULT_CAMPAIGN_PRIORITY, DEFAULT_CAMPAIGN_WEIGHT } from '../models/Campaign';
+import { validateTargetingRule, validateTargetingRuleGroup, parseTargetingRuleGroup } from '../models/TargetingRule';
+import { LandingPage, SyncedLandingPage, LandingPageData, DEFAULT_LANDING_PAGE_WEIGHT, validateLandingPages } from '../models/LandingPage';
+import { RedirectOverride, parseRedirectOverrides, validateRedirectOverrides } from '../models/RedirectOverride';
+import { Creative, CreativeData, CreativeSlot, BANNER_CREATIVE_TYPES, VIDEO_CREATIVE_TYPES, NATIVE_CREATIVE_TYPES, DEFAULT_CREATIVE_WEIGHT, findCreativesForSlot, isValidCreativeSize, validateCreatives } from '../models/Creative';
+import { VIDEO_EVENT_TYPES, VideoEventType } from '../models/AdEvent';
+import { DEFAULT_ZONE_FORMAT, ZONE_FORMATS, ZoneFormat, validateZoneFormat, validateNativeLayout, parseNativeLayout } from '../models/Zone';
+import { Bid, BidRequest, BidRequestImp, BidResponse, OPENRTB_VERSION, BID_CURRENCY, AUCTION_PRICE_MACRO, BID_MARKUP_TYPE_BANNER, BID_MARKUP_TYPE_VIDEO, validateBidRequest } from '../models/OpenRtb';
+import { pickWeighted } from '../utils/weightedRandom';
 // Re-export the CounterDO class needed by the Durable Object binding in wrangler.toml
 export { CounterDO };
 
@@ -52,19 +76,30 @@ function handlePing(request: Request): Response {
   for (const [key, value] of url.searchParams.entries()) {
     query[key] = value;
   }
-  const country = request.headers.get('CF-IPCountry') ?? '';
-  const userAgent = request.headers.get('User-Agent') ?? '';
-  const device_type = detectDeviceType(userAgent);
-  const os = detectOS(userAgent);
-  const browser = detectBrowser(userAgent);
+  const { country, region, city, postalCode, metroCode } = getRequestLocation(request);
+  const { asn, asOrganization } = getRequestNetwork(request);
+  const languages = detectLanguages(request);
+  const device = detectRequestDevice(request);
   return new Response(
     JSON.stringify({
       headers,
       query,
       country,
-      device_type,
-      os,
-      browser
+      region,
+      city,
+      postal_code: postalCode,
+      metro_code: metroCode,
+      asn,
+      as_organization: asOrganization,
+      language: languages[0] ?? '',
+      languages,
+      device_type: device.deviceType,
+      os: device.os,
+      os_version: device.osVersion,
+      browser: device.browser,
+      browser_version: device.browserVersion,
+      vendor: device.vendor,
+      model: device.model
     }, null, 2),
     {
       status: 200,
@@ -74,7 +109,7 @@ function handlePing(request: Request): Response {
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     
     // Handle /ping debug endpoint
@@ -97,16 +132,33 @@ export default {
     
     // Ad serving route
     if (url.pathname.startsWith('/serve/')) {
-      const adResponse = await handleAdServing(request, env);
-      return applySecurityHeaders(adResponse, request, env);
+      const adResponse = withClientHintsRequest(await handleAdServing(request, env, ctx));
+      // JSON, native and VAST ad responses are fetched by scripts and video players on publisher pages
+      const isFetchedAd = ['json', 'native', 'vast'].includes(url.searchParams.get('format') ?? '');
+      const servedResponse = isFetchedAd ? applyPublicCors(adResponse, request) : adResponse;
+      // HTML banners are embedded in iframes on publisher pages
+      const securityHeaders = url.searchParams.get('format') === 'html' ? AD_FRAME_SECURITY_HEADERS : undefined;
+      return applySecurityHeaders(servedResponse, request, env, securityHeaders);
+    }
+    
+    // OpenRTB bid requests from exchanges
+    if (url.pathname.startsWith('/openrtb/')) {
+      const bidResponse = await handleOpenRtb(request, env, ctx);
+      return applySecurityHeaders(bidResponse, request, env);
     }
     
     // Tracking route
     if (url.pathname.startsWith('/track/')) {
-      const trackingResponse = await handleTracking(request, env);
+      const trackingResponse = await handleTracking(request, env, ctx);
       return applySecurityHeaders(trackingResponse, request, env);
     }
     
+    // Conversion postbacks from advertiser servers
+    if (url.pathname === '/postback' && request.method === 'GET') {
+      const postbackResponse = await handlePostback(request, env);
+      return applySecurityHeaders(postbackResponse, request, env);
+    }
+    
     // Default response
     const defaultResponse = new Response('Lite Ad Server', {
       headers: { 'content-type': 'text/plain' },
@@ -129,6 +181,12 @@ export default {
     } catch (error) {
       logError(`Error in scheduled sync: ${error instanceof Error ? error.message : String(error)}`);
     }
+    
+    try {
+      await deleteExpiredBidUsers(env.DB);
+    } catch (error) {
+      logError(`Error deleting expired bid users: ${error instanceof Error ? error.message : String(error)}`);
+    }
   },
 };
 
@@ -182,6 +240,11 @@ async function handleApiRequest(request: Request, env: Env): Promise<Response> {
     return await getStats(request, env);
   }
   
+  // Handle campaign selection debugging
+  if (path === '/api/debug/select' && request.method === 'POST') {
+    return await handleDebugSelect(request, env);
+  }
+  
   // Handle flush DB route (demo instances only)
   if (path === '/api/flush-db' && request.method === 'POST') {
     return await flushDatabase(env);
@@ -251,6 +314,34 @@ async function handleCampaignApiRequests(request: Request, env: Env): Promise<Re
     return await syncCampaignTargetingRules(campaignId, request, env);
   }
 
+  const isLandingPageRequest = pathParts.length === 5 && pathParts[2] === 'campaigns' && pathParts[4] === 'landing_pages';
+
+  // GET /api/campaigns/{campaign_id}/landing_pages - List landing pages for a campaign
+  if (isLandingPageRequest && request.method === 'GET') {
+    const campaignId = pathParts[3];
+    return await listCampaignLandingPages(campaignId, env);
+  }
+
+  // POST /api/campaigns/{campaign_id}/landing_pages - Sync landing pages for a campaign
+  if (isLandingPageRequest && request.method === 'POST') {
+    const campaignId = pathParts[3];
+    return await syncCampaignLandingPages(campaignId, request, env);
+  }
+
+  const isCreativeRequest = pathParts.length === 5 && pathParts[2] === 'campaigns' && pathParts[4] === 'creatives';
+
+  // GET /api/campaigns/{campaign_id}/creatives - List creatives for a campaign
+  if (isCreativeRequest && request.method === 'GET') {
+    const campaignId = pathParts[3];
+    return await listCampaignCreatives(campaignId, env);
+  }
+
+  // POST /api/campaigns/{campaign_id}/creatives - Sync creatives for a campaign
+  if (isCreativeRequest && request.method === 'POST') {
+    const campaignId = pathParts[3];
+    return await syncCampaignCreatives(campaignId, request, env);
+  }
+
   // GET /api/campaigns - List all campaigns
   if (path === '/api/campaigns' && request.method === 'GET') {
     return await listCampaigns(request, env);
@@ -373,8 +464,12 @@ async function listCampaigns(request: Request, env: Env): Promise<Response> {
       throw new Error(`Database error: ${countResult.error}`);
     }
     
-    // Extract results
-    const campaigns = campaignsResult.results ?? [];
+    // Extract results, returning targeting groups and redirect overrides as objects like the single campaign endpoint
+    const campaigns = (campaignsResult.results as DbCampaign[] | undefined ?? []).map(campaign => ({
+      ...campaign,
+      targeting_groups: parseTargetingRuleGroup(campaign.targeting_groups),
+      redirect_overrides: parseRedirectOverrides(campaign.redirect_overrides)
+    }));
     const total = countResult.results?.[0] ? 
       (countResult.results[0] as { total: number }).total : 0;
     
@@ -449,10 +544,32 @@ async function getCampaign(campaignId: string | undefined, env: Env): Promise<Re
       throw new Error(`Database error: ${rulesResult.error}`);
     }
     
-    // Combine campaign with its targeting rules
+    // Query landing pages for this campaign
+    const landingPagesResult = await env.DB.prepare(`
+      SELECT * FROM landing_pages WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbLandingPage>();
+    
+    if (landingPagesResult.error) {
+      throw new Error(`Database error: ${landingPagesResult.error}`);
+    }
+    
+    // Query creatives for this campaign
+    const creativesResult = await env.DB.prepare(`
+      SELECT * FROM creatives WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbCreative>();
+    
+    if (creativesResult.error) {
+      throw new Error(`Database error: ${creativesResult.error}`);
+    }
+    
+    // Combine campaign with its targeting rules, landing pages and creatives
     const campaignWithRules = {
       ...campaign,
-      targeting_rules: rulesResult.results ?? []
+      targeting_groups: parseTargetingRuleGroup(campaign.targeting_groups),
+      redirect_overrides: parseRedirectOverrides(campaign.redirect_overrides),
+      targeting_rules: rulesResult.results ?? [],
+      landing_pages: (landingPagesResult.results ?? []).map(toLandingPage),
+      creatives: (creativesResult.results ?? []).map(toCreative)
     };
     
     return new Response(JSON.stringify(campaignWithRules), {
@@ -499,27 +616,102 @@ async function createCampaign(request: Request, env: Env): Promise<Response> {
       });
     }
     
-    if (!campaignData.targeting_rules || !Array.isArray(campaignData.targeting_rules) || campaignData.targeting_rules.length === 0) {
+    // Validate optional priority and weight
+    const rotationError = validateCampaignPriority(campaignData.priority) ?? validateCampaignWeight(campaignData.weight);
+    if (rotationError) {
+      return new Response(JSON.stringify({ error: rotationError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (campaignData.timezone !== undefined && (typeof campaignData.timezone !== 'string' || !isValidTimeZone(campaignData.timezone))) {
+      return new Response(JSON.stringify({ error: 'Time zone must be a valid IANA time zone name' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    const bidPriceError = validateCampaignBidPrice(campaignData.bid_price);
+    if (bidPriceError) {
+      return new Response(JSON.stringify({ error: bidPriceError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (campaignData.targeting_groups !== undefined && campaignData.targeting_groups !== null) {
+      const groupError = validateTargetingRuleGroup(campaignData.targeting_groups);
+      if (groupError) {
+        return new Response(JSON.stringify({ error: groupError }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
+    if (campaignData.redirect_overrides !== undefined && campaignData.redirect_overrides !== null) {
+      const overrideError = validateRedirectOverrides(campaignData.redirect_overrides);
+      if (overrideError) {
+        return new Response(JSON.stringify({ error: overrideError }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
+    if (campaignData.landing_pages !== undefined) {
+      const landingPageError = validateLandingPages(campaignData.landing_pages);
+      if (landingPageError) {
+        return new Response(JSON.stringify({ error: landingPageError }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
+    // Targeting groups alone are enough to target a campaign
+    if (campaignData.targeting_rules === undefined && campaignData.targeting_groups) {
+      campaignData.targeting_rules = [];
+    }
+    
+    if (!campaignData.targeting_rules || !Array.isArray(campaignData.targeting_rules) || (campaignData.targeting_rules.length === 0 && !campaignData.targeting_groups)) {
       return new Response(JSON.stringify({ error: 'At least one targeting rule is required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
     
+    for (const rule of campaignData.targeting_rules) {
+      const ruleError = validateTargetingRule(rule.targeting_rule_type_id, rule.rule);
+      if (ruleError) {
+        return new Response(JSON.stringify({ error: `Invalid targeting rule: ${ruleError}`, rule }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
     // Set default values
     const timestamp = Date.now();
     const status = 'paused'; // New campaigns start as paused
     
     // Insert the campaign using a transaction
     const stmt1 = env.DB.prepare(`
-      INSERT INTO campaigns (name, redirect_url, start_date, end_date, status, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO campaigns (name, redirect_url, start_date, end_date, status, priority, weight, timezone, bid_price, targeting_groups, redirect_overrides, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       campaignData.name,
       campaignData.redirect_url,
       campaignData.start_date ?? null,
       campaignData.end_date ?? null,
       status,
+      campaignData.priority ?? DEFAULT_CAMPAIGN_PRIORITY,
+      campaignData.weight ?? DEFAULT_CAMPAIGN_WEIGHT,
+      campaignData.timezone ?? null,
+      campaignData.bid_price ?? null,
+      campaignData.targeting_groups ? JSON.stringify(campaignData.targeting_groups) : null,
+      campaignData.redirect_overrides?.length ? JSON.stringify(campaignData.redirect_overrides) : null,
       timestamp,
       timestamp
     );
@@ -556,6 +748,23 @@ async function createCampaign(request: Request, env: Env): Promise<Response> {
     // Execute all targeting rule insertions
     await Promise.all(ruleInsertions);
     
+    // Insert landing pages, or a single page with the redirect URL when none are given
+    const landingPages: LandingPageData[] = campaignData.landing_pages?.length
+      ? campaignData.landing_pages
+      : [{ url: campaignData.redirect_url }];
+    await env.DB.batch(landingPages.map(page => env.DB.prepare(`
+      INSERT INTO landing_pages (campaign_id, name, url, weight, active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      campaignId,
+      page.name ?? null,
+      page.url,
+      page.weight ?? DEFAULT_LANDING_PAGE_WEIGHT,
+      page.active === false ? 0 : 1,
+      timestamp,
+      timestamp
+    )));
+    
     // Return the created campaign
     return new Response(JSON.stringify({
       id: campaignId,
@@ -621,14 +830,15 @@ async function updateCampaign(campaignId: string | undefined, request: Request,
     
     // Check if the campaign exists
     const existsResult = await env.DB.prepare(`
-      SELECT id FROM campaigns WHERE id = ?
-    `).bind(id).all();
+      SELECT id, redirect_url FROM campaigns WHERE id = ?
+    `).bind(id).all<{ id: number; redirect_url: string | null }>();
     
     if (existsResult.error) {
       throw new Error(`Database error: ${existsResult.error}`);
     }
     
-    if (!existsResult.results || existsResult.results.length === 0) {
+    const existingCampaign = existsResult.results?.[0];
+    if (!existingCampaign) {
       return new Response(JSON.stringify({ error: 'Campaign not found' }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
@@ -667,6 +877,40 @@ async function updateCampaign(campaignId: string | undefined, request: Request,
       params.push(updateData.end_date ?? null as unknown as number);
     }
 
+    if (updateData.priority !== undefined) {
+      updateFields.push('priority = ?');
+      params.push(updateData.priority);
+    }
+
+    if (updateData.weight !== undefined) {
+      updateFields.push('weight = ?');
+      params.push(updateData.weight);
+    }
+
+    if (updateData.timezone !== undefined) {
+      updateFields.push('timezone = ?');
+      // Handle null case explicitly for SQLite
+      params.push(updateData.timezone ?? null as unknown as string);
+    }
+
+    if (updateData.bid_price !== undefined) {
+      updateFields.push('bid_price = ?');
+      // Handle null case explicitly for SQLite
+      params.push(updateData.bid_price ?? null as unknown as number);
+    }
+
+    if (updateData.targeting_groups !== undefined) {
+      updateFields.push('targeting_groups = ?');
+      // Handle null case explicitly for SQLite
+      params.push(updateData.targeting_groups ? JSON.stringify(updateData.targeting_groups) : null as unknown as string);
+    }
+
+    if (updateData.redirect_overrides !== undefined) {
+      updateFields.push('redirect_overrides = ?');
+      // Handle null case explicitly for SQLite
+      params.push(updateData.redirect_overrides?.length ? JSON.stringify(updateData.redirect_overrides) : null as unknown as string);
+    }
+
     if (updateData.traffic_back_url !== undefined) {
       updateFields.push('traffic_back_url = ?');
       params.push(updateData.traffic_back_url);
@@ -697,6 +941,19 @@ async function updateCampaign(campaignId: string | undefined, request: Request,
       throw new Error(`Database error: ${updateResult.error}`);
     }
     
+    // Landing pages still pointing at the old redirect URL follow it, so single-URL campaigns keep working
+    if (updateData.redirect_url !== undefined && existingCampaign.redirect_url && updateData.redirect_url !== existingCampaign.redirect_url) {
+      const landingPageResult = await env.DB.prepare(`
+        UPDATE landing_pages
+        SET url = ?, updated_at = ?
+        WHERE campaign_id = ? AND url = ?
+      `).bind(updateData.redirect_url, timestamp, id, existingCampaign.redirect_url).run();
+      
+      if (landingPageResult.error) {
+        throw new Error(`Database error: ${landingPageResult.error}`);
+      }
+    }
+    
     return new Response(JSON.stringify({
       id,
       updated_at: timestamp
@@ -764,6 +1021,89 @@ function validateCampaignUpdateData(data: CampaignUpdateData): string | null {
     }
   }
   
+  // Validate priority if provided
+  if ('priority' in data) {
+    const priorityError = validateCampaignPriority(data.priority);
+    if (priorityError) {
+      return priorityError;
+    }
+  }
+  
+  // Validate weight if provided
+  if ('weight' in data) {
+    const weightError = validateCampaignWeight(data.weight);
+    if (weightError) {
+      return weightError;
+    }
+  }
+  
+  // Validate timezone if provided (null clears it)
+  if ('timezone' in data && data.timezone !== null) {
+    if (typeof data.timezone !== 'string' || !isValidTimeZone(data.timezone)) {
+      return 'Time zone must be a valid IANA time zone name or null';
+    }
+  }
+  
+  // Validate bid price if provided (null stops the campaign from bidding)
+  if ('bid_price' in data) {
+    const bidPriceError = validateCampaignBidPrice(data.bid_price);
+    if (bidPriceError) {
+      return bidPriceError;
+    }
+  }
+  
+  // Validate targeting groups if provided (null removes them)
+  if ('targeting_groups' in data && data.targeting_groups !== null) {
+    const groupError = validateTargetingRuleGroup(data.targeting_groups);
+    if (groupError) {
+      return groupError;
+    }
+  }
+  
+  // Validate redirect overrides if provided (null removes them)
+  if ('redirect_overrides' in data && data.redirect_overrides !== null) {
+    const overrideError = validateRedirectOverrides(data.redirect_overrides);
+    if (overrideError) {
+      return overrideError;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validate a campaign priority tier
+ * @param priority - The priority to validate, undefined means not provided
+ * @returns Error message or null if valid
+ */
+function validateCampaignPriority(priority: unknown): string | null {
+  if (priority !== undefined && (typeof priority !== 'number' || !Number.isInteger(priority) || priority < 0)) {
+    return 'Priority must be a non-negative integer';
+  }
+  return null;
+}
+
+/**
+ * Validate a campaign rotation weight
+ * @param weight - The weight to validate, undefined means not provided
+ * @returns Error message or null if valid
+ */
+function validateCampaignWeight(weight: unknown): string | null {
+  if (weight !== undefined && (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1)) {
+    return 'Weight must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * Validate a campaign bid price
+ * @param bidPrice - The CPM in USD to validate, undefined means not provided and null means no bidding
+ * @returns Error message or null if valid
+ */
+function validateCampaignBidPrice(bidPrice: unknown): string | null {
+  if (bidPrice !== undefined && bidPrice !== null && (typeof bidPrice !== 'number' || !Number.isFinite(bidPrice) || bidPrice <= 0)) {
+    return 'Bid price must be a positive number or null';
+  }
   return null;
 }
 
@@ -814,6 +1154,24 @@ async function deleteCampaign(campaignId: string | undefined, env: Env): Promise
       throw new Error(`Database error: ${deleteRulesResult.error}`);
     }
     
+    // Delete the campaign's landing pages
+    const deleteLandingPagesResult = await env.DB.prepare(`
+      DELETE FROM landing_pages WHERE campaign_id = ?
+    `).bind(id).run();
+    
+    if (deleteLandingPagesResult.error) {
+      throw new Error(`Database error: ${deleteLandingPagesResult.error}`);
+    }
+    
+    // Delete the campaign's creatives
+    const deleteCreativesResult = await env.DB.prepare(`
+      DELETE FROM creatives WHERE campaign_id = ?
+    `).bind(id).run();
+    
+    if (deleteCreativesResult.error) {
+      throw new Error(`Database error: ${deleteCreativesResult.error}`);
+    }
+    
     // Delete the campaign
     const deleteCampaignResult = await env.DB.prepare(`
       DELETE FROM campaigns WHERE id = ?
@@ -838,7 +1196,7 @@ async function deleteCampaign(campaignId: string | undefined, env: Env): Promise
 /**
  * Handle ad serving requests
  */
-async function handleAdServing(request: Request, env: Env): Promise<Response> {
+async function handleAdServing(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
   
   // Handle trailing slashes by removing them
@@ -846,18 +1204,55 @@ async function handleAdServing(request: Request, env: Env): Promise<Response> {
     ? url.pathname.slice(0, -1) 
     : url.pathname;
     
-  const zoneId = path.split('/').pop() ?? '';
+  // /serve/:zoneId.js is the JavaScript ad tag of banner zones
+  const lastSegment = path.split('/').pop() ?? '';
+  const isScriptTag = lastSegment.endsWith('.js');
+  const zoneId = isScriptTag ? lastSegment.slice(0, -'.js'.length) : lastSegment;
   
   // Extract sub_id from query parameters if present
   const subId = url.searchParams.get('sub_id') ?? undefined;
   
+  // Redirect by default, describe the ad as JSON for client-side and server-to-server integrations,
+  // render a banner as an HTML document for iframes or as a script, return VAST to video players,
+  // or return the assets of a native ad
+  const format = isScriptTag ? 'js' : url.searchParams.get('format');
+  
   if (!zoneId) {
     return new Response('Zone ID required', { status: 400 });
   }
   
+  if (format === 'html' || format === 'js') {
+    return await serveBanner(request, env, ctx, zoneId, format, subId);
+  }
+  
+  if (format === 'vast') {
+    return await serveVast(request, env, ctx, zoneId, subId);
+  }
+  
+  if (format === 'native') {
+    return await serveNative(request, env, ctx, zoneId, subId);
+  }
+  
+  if (format !== null && format !== 'json') {
+    return new Response('Unsupported format', { status: 400 });
+  }
+  
   try {
+    // Server-to-server callers pass the end user's IP, user agent and country explicitly
+    let servingRequest = request;
+    if (format === 'json') {
+      const explicitClient = await withExplicitClient(request, url.searchParams, env);
+      if (typeof explicitClient === 'string') {
+        return jsonServeError(explicitClient, 400);
+      }
+      servingRequest = explicitClient;
+    }
+    
+    // Identify the user for frequency capping
+    const { userKey, setCookie } = await resolveUserIdentity(servingRequest);
+    
     // Select an eligible campaign that passes all targeting rules in one step
-    const selectedCampaign = await selectEligibleCampaign(request, zoneId, env);
+    const selectedCampaign = await selectEligibleCampaign(servingRequest, zoneId, env, { userKey, ctx });
     
     if (!selectedCampaign) {
       // If no campaigns are eligible, check if zone has a traffic back URL
@@ -865,151 +1260,1050 @@ async function handleAdServing(request: Request, env: Env): Promise<Response> {
       
       if (zone?.traffic_back_url) {
         // Record fallback click before redirecting
-        await recordClick(env.DB, {
-          campaign_id: null, // Use null to indicate fallback since 0 causes foreign key constraint errors
-          zone_id: zoneId,
-          ip: request.headers.get('CF-Connecting-IP') ?? undefined,
-          user_agent: request.headers.get('User-Agent') ?? undefined,
-          referer: request.headers.get('Referer') ?? undefined,
-          country: request.headers.get('CF-IPCountry') ?? undefined,
-          device_type: detectDeviceType(request.headers.get('User-Agent') ?? ''),
-          timestamp: Date.now(),
-          event_type: 'fallback',
-          sub_id: subId
-        });
+        await recordUnfilledRequest(env, servingRequest, zoneId, 'fallback', subId);
+        
+        if (format === 'json') {
+          return withUserCookie(jsonServeResponse({
+            campaign_id: null,
+            zone_id: parseId(zoneId),
+            click_url: null,
+            impression_url: null,
+            fallback_url: zone.traffic_back_url
+          }), setCookie);
+        }
         
         // Redirect to traffic back URL
-        return Response.redirect(zone.traffic_back_url, 302);
+        return withUserCookie(Response.redirect(zone.traffic_back_url, 302), setCookie);
       }
       
       // No eligible campaigns and no fallback URL - record as unsold impression
-      await recordClick(env.DB, {
-        campaign_id: null,
-        zone_id: zoneId,
-        ip: request.headers.get('CF-Connecting-IP') ?? undefined,
-        user_agent: request.headers.get('User-Agent') ?? undefined,
-        referer: request.headers.get('Referer') ?? undefined,
-        country: request.headers.get('CF-IPCountry') ?? undefined,
-        device_type: detectDeviceType(request.headers.get('User-Agent') ?? ''),
-        timestamp: Date.now(),
-        event_type: 'unsold',
-        sub_id: subId
-      });
+      await recordUnfilledRequest(env, servingRequest, zoneId, 'unsold', subId);
+      
+      if (format === 'json') {
+        return withUserCookie(new Response(null, { status: 204, headers: { 'Cache-Control': 'no-store' } }), setCookie);
+      }
       
-      return new Response('No eligible campaigns', { status: 404 });
+      return withUserCookie(new Response('No eligible campaigns', { status: 404 }), setCookie);
+    }
+    
+    // Count the impression of capped campaigns without delaying the response
+    const zoneIdNum = parseId(zoneId);
+    if (hasCappingRules(selectedCampaign)) {
+      ctx.waitUntil(recordUserImpression(
+        env,
+        userKey,
+        selectedCampaign.id,
+        getCappingWindowHours(selectedCampaign.targeting_rules)
+      ));
     }
     
     // Generate a tracking URL
-    const trackingUrl = generateTrackingUrl(request, selectedCampaign.id, zoneId, subId);
+    const trackingUrl = await generateTrackingUrl(request, env, 'click', selectedCampaign.id, zoneId, subId);
+    
+    if (format === 'json') {
+      const zone = await fetchZone(env, zoneId);
+      return withUserCookie(jsonServeResponse({
+        campaign_id: selectedCampaign.id,
+        zone_id: zoneIdNum,
+        click_url: trackingUrl,
+        impression_url: await generateTrackingUrl(request, env, 'impression', selectedCampaign.id, zoneId, subId),
+        fallback_url: zone?.traffic_back_url ?? null
+      }), setCookie);
+    }
     
     // Return a redirect to the tracking URL
-    return Response.redirect(trackingUrl, 302);
+    return withUserCookie(Response.redirect(trackingUrl, 302), setCookie);
   } catch (error) {
     logError('Error serving ad:');
     logError(error instanceof Error ? error.message : String(error));
-    return new Response('Server error', { status: 500 });
+    return format === 'json' ? jsonServeError('Server error', 500) : new Response('Server error', { status: 500 });
   }
 }
 
 /**
- * Handle tracking requests (clicks)
+ * Get the placement an ad format fills in a zone
+ * Banners take the zone's size and native ads the assets of its layout, when the zone has them
  */
-async function handleTracking(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  
-  // Handle trailing slashes by removing them
-  const path = url.pathname.endsWith('/') 
-    ? url.pathname.slice(0, -1) 
-    : url.pathname;
-    
-  const parts = path.split('/');
-  const trackType = parts[2]; // /track/{type}/{id}
-  const campaignId = parts[3] ?? '';
-  const zoneId = parts[4] ?? '';
-  
-  // Extract sub_id from query parameters if present
-  const subId = url.searchParams.get('sub_id');
-  
-  if (!trackType || !campaignId) {
-    return new Response('Invalid tracking URL', { status: 400 });
+function getFormatCreativeSlot(
+  format: Exclude<ZoneFormat, 'redirect'>,
+  zone: { width: number | null; height: number | null; native_layout: string | null } | null
+): CreativeSlot {
+  switch (format) {
+    case 'banner':
+      return { types: BANNER_CREATIVE_TYPES, width: zone?.width ?? undefined, height: zone?.height ?? undefined };
+    case 'video':
+      return { types: VIDEO_CREATIVE_TYPES };
+    case 'native':
+      return { types: NATIVE_CREATIVE_TYPES, requiredAssets: parseNativeLayout(zone?.native_layout ?? null) };
   }
-  
+}
+
+/**
+ * Serve a banner zone as an HTML document for iframes or as a script that writes the ad into the page
+ * Only campaigns with an active creative of the zone's size are eligible
+ */
+async function serveBanner(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  zoneId: string,
+  format: 'html' | 'js',
+  subId?: string
+): Promise<Response> {
   try {
-    if (trackType === 'click') {
-      // Generate Snowflake ID for this event
-      const clickId = generateSnowflakeId().toString();
-      
-      // Track click in database
-      await recordClick(env.DB, {
-        campaign_id: campaignId,
-        zone_id: zoneId,
-        ip: request.headers.get('CF-Connecting-IP') ?? undefined,
-        user_agent: request.headers.get('User-Agent') ?? undefined,
-        referer: request.headers.get('Referer') ?? undefined,
-        country: request.headers.get('CF-IPCountry') ?? undefined,
-        device_type: detectDeviceType(request.headers.get('User-Agent') ?? ''),
-        timestamp: Date.now(),
-        sub_id: subId ?? undefined,
-        click_id: clickId
-      });
-      
-      // Fetch campaign redirect URL
-      const campaign = await fetchCampaign(env, campaignId);
-      
-      if (!campaign?.redirect_url) {
-        return new Response('Invalid campaign', { status: 404 });
+    const zone = await fetchZone(env, zoneId);
+    if (!zone) {
+      return new Response('Zone not found', { status: 404 });
+    }
+    
+    if (zone.format !== 'banner' || !zone.width || !zone.height) {
+      return new Response('Zone does not serve banners', { status: 400 });
+    }
+    
+    // Identify the user for frequency capping
+    const { userKey, setCookie } = await resolveUserIdentity(request);
+    
+    // Select a campaign that has a creative for the placement, then one of its creatives by weight
+    const creativeSlot = getFormatCreativeSlot('banner', zone);
+    const selectedCampaign = await selectEligibleCampaign(request, zoneId, env, { userKey, ctx, creativeSlot });
+    const creative = selectedCampaign
+      ? pickWeighted(findCreativesForSlot(selectedCampaign.creatives ?? [], creativeSlot), candidate => candidate.weight)
+      : null;
+    
+    if (!selectedCampaign || !creative) {
+      if (zone.traffic_back_url) {
+        await recordUnfilledRequest(env, request, zoneId, 'fallback', subId);
+        
+        // The iframe loads the traffic back URL itself; the script tag embeds it in a frame of the zone's size
+        const response = format === 'html'
+          ? Response.redirect(zone.traffic_back_url, 302)
+          : bannerResponse(format, renderFrame(zone.traffic_back_url, zone.width, zone.height));
+        return withUserCookie(response, setCookie);
       }
       
-      // Replace macros in the redirect URL
-      const redirectUrl = replaceMacros(campaign.redirect_url, {
-        click_id: clickId,
-        zone_id: zoneId,
-        aff_sub_id: subId ?? null
-      });
-      
-      // Redirect to campaign URL with macros replaced
-      return Response.redirect(redirectUrl, 302);
+      await recordUnfilledRequest(env, request, zoneId, 'unsold', subId);
+      return withUserCookie(bannerResponse(format, ''), setCookie);
     }
     
-    return new Response('Unknown tracking type', { status: 400 });
+    // Count the impression of capped campaigns without delaying the response
+    if (hasCappingRules(selectedCampaign)) {
+      ctx.waitUntil(recordUserImpression(
+        env,
+        userKey,
+        selectedCampaign.id,
+        getCappingWindowHours(selectedCampaign.targeting_rules)
+      ));
+    }
+    
+    // The impression is recorded by the pixel once the banner is shown
+    const clickUrl = await generateTrackingUrl(request, env, 'click', selectedCampaign.id, zoneId, subId, creative.id);
+    const impressionUrl = await generateTrackingUrl(request, env, 'impression', selectedCampaign.id, zoneId, subId, creative.id);
+    
+    const markup = format === 'html'
+      ? renderCreativeMarkup(creative, clickUrl, impressionUrl)
+      : renderCreativeEmbed(creative, clickUrl, impressionUrl);
+    return withUserCookie(bannerResponse(format, markup), setCookie);
   } catch (error) {
-    logError('Error tracking:');
+    logError('Error serving banner:');
     logError(error instanceof Error ? error.message : String(error));
     return new Response('Server error', { status: 500 });
   }
 }
 
 /**
- * Fetch zone details
+ * Serve a video zone as a VAST document
+ * Only campaigns with an active video creative are eligible; the player reports the impression,
+ * playback progress and clicks through the tracking URLs in the document
  */
-async function fetchZone(env: Env, zoneId: string): Promise<{ id: number; traffic_back_url?: string } | null> {
+async function serveVast(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  zoneId: string,
+  subId?: string
+): Promise<Response> {
   try {
-    // Convert zoneId to number for numeric ID
-    const zoneIdNum = parseAndValidateId(zoneId, 'zone');
-    if (zoneIdNum === null) {
-      return null;
+    const zone = await fetchZone(env, zoneId);
+    if (!zone) {
+      return new Response('Zone not found', { status: 404 });
     }
     
-    // Fetch zone from KV
-    const zoneKey = `zones:${zoneIdNum}`;
-    const zoneDataRaw = await env.campaigns_zones.get(zoneKey, { type: 'json' });
-    
-    // Type assertion for the zone data
-    interface ZoneData {
-      id: number;
-      traffic_back_url?: string;
+    if (zone.format !== 'video') {
+      return new Response('Zone does not serve video', { status: 400 });
     }
     
-    // Check if we have zone data
-    const zoneData = zoneDataRaw as ZoneData | null;
-    if (!zoneData) {
-      return null;
-    }
+    // Identify the user for frequency capping
+    const { userKey, setCookie } = await resolveUserIdentity(request);
+    
+    // Select a campaign that has a video creative, then one of its video creatives by weight
+    const creativeSlot = getFormatCreativeSlot('video', zone);
+    const selectedCampaign = await selectEligibleCampaign(request, zoneId, env, { userKey, ctx, creativeSlot });
+    const creative = selectedCampaign
+      ? pickWeighted(findCreativesForSlot(selectedCampaign.creatives ?? [], creativeSlot), candidate => candidate.weight)
+      : null;
+    
+    if (!selectedCampaign || !creative) {
+      // Hand the player over to the traffic back URL, which has to be a VAST tag
+      if (zone.traffic_back_url) {
+        await recordUnfilledRequest(env, request, zoneId, 'fallback', subId);
+        // The player reports the impression of the wrapped ad for the zone, without a campaign
+        const impressionUrl = await generateTrackingUrl(request, env, 'impression', null, zoneId, subId);
+        const wrapper = renderVastWrapper(generateSnowflakeId().toString(), zone.traffic_back_url, impressionUrl);
+        return withUserCookie(vastResponse(wrapper), setCookie);
+      }
+      
+      await recordUnfilledRequest(env, request, zoneId, 'unsold', subId);
+      return withUserCookie(vastResponse(renderEmptyVast()), setCookie);
+    }
+    
+    // Count the impression of capped campaigns without delaying the response
+    if (hasCappingRules(selectedCampaign)) {
+      ctx.waitUntil(recordUserImpression(
+        env,
+        userKey,
+        selectedCampaign.id,
+        getCappingWindowHours(selectedCampaign.targeting_rules)
+      ));
+    }
+    
+    const tracking = await generateVastTracking(request, env, selectedCampaign.id, zoneId, subId, creative.id);
+    const vast = renderVastInline(generateSnowflakeId().toString(), selectedCampaign.name, creative, tracking);
+    return withUserCookie(vastResponse(vast), setCookie);
+  } catch (error) {
+    logError('Error serving VAST:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response('Server error', { status: 500 });
+  }
+}
+
+/**
+ * Serve a native zone as an OpenRTB Native 1.2 response
+ * Only campaigns with an active native creative that has every asset of the zone's layout are eligible
+ */
+async function serveNative(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  zoneId: string,
+  subId?: string
+): Promise<Response> {
+  try {
+    const zone = await fetchZone(env, zoneId);
+    if (!zone) {
+      return jsonServeError('Zone not found', 404);
+    }
+    
+    if (zone.format !== 'native') {
+      return jsonServeError('Zone does not serve native ads', 400);
+    }
+    
+    // Server-to-server callers pass the end user's IP, user agent and country explicitly
+    const servingRequest = await withExplicitClient(request, new URL(request.url).searchParams, env);
+    if (typeof servingRequest === 'string') {
+      return jsonServeError(servingRequest, 400);
+    }
+    
+    // Identify the user for frequency capping
+    const { userKey, setCookie } = await resolveUserIdentity(servingRequest);
+    
+    // Select a campaign that has a native creative with the layout's assets, then one of those creatives by weight
+    const layout = parseNativeLayout(zone.native_layout);
+    const creativeSlot = getFormatCreativeSlot('native', zone);
+    const selectedCampaign = await selectEligibleCampaign(servingRequest, zoneId, env, { userKey, ctx, creativeSlot });
+    const creative = selectedCampaign
+      ? pickWeighted(findCreativesForSlot(selectedCampaign.creatives ?? [], creativeSlot), candidate => candidate.weight)
+      : null;
+    
+    if (!selectedCampaign || !creative) {
+      await recordUnfilledRequest(env, servingRequest, zoneId, 'unsold', subId);
+      return withUserCookie(new Response(null, { status: 204, headers: { 'Cache-Control': 'no-store' } }), setCookie);
+    }
+    
+    // Count the impression of capped campaigns without delaying the response
+    if (hasCappingRules(selectedCampaign)) {
+      ctx.waitUntil(recordUserImpression(
+        env,
+        userKey,
+        selectedCampaign.id,
+        getCappingWindowHours(selectedCampaign.targeting_rules)
+      ));
+    }
+    
+    const nativeResponse = buildNativeResponse(
+      creative,
+      layout,
+      await generateTrackingUrl(request, env, 'click', selectedCampaign.id, zoneId, subId, creative.id),
+      await generateTrackingUrl(request, env, 'impression', selectedCampaign.id, zoneId, subId, creative.id)
+    );
+    return withUserCookie(new Response(JSON.stringify(nativeResponse), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    }), setCookie);
+  } catch (error) {
+    logError('Error serving native ad:');
+    logError(error instanceof Error ? error.message : String(error));
+    return jsonServeError('Server error', 500);
+  }
+}
+
+/**
+ * Generate the impression, click and playback tracking URLs of a video ad
+ */
+async function generateVastTracking(
+  request: Request,
+  env: Env,
+  campaignId: number,
+  zoneId: string,
+  subId: string | undefined,
+  creativeId: number
+): Promise<VastTracking> {
+  const eventUrls = {} as Record<VideoEventType, string>;
+  for (const event of VIDEO_EVENT_TYPES) {
+    eventUrls[event] = await generateTrackingUrl(request, env, event, campaignId, zoneId, subId, creativeId);
+  }
+  
+  return {
+    impressionUrl: await generateTrackingUrl(request, env, 'impression', campaignId, zoneId, subId, creativeId),
+    clickUrl: await generateTrackingUrl(request, env, 'click', campaignId, zoneId, subId, creativeId),
+    eventUrls
+  };
+}
+
+/**
+ * Create an uncacheable VAST response
+ */
+function vastResponse(vast: string): Response {
+  return new Response(vast, {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+}
+
+/**
+ * Create an uncacheable banner response
+ * @param format "html" for an iframe document, "js" for a script tag
+ * @param markup Ad markup, empty when there is no ad
+ */
+function bannerResponse(format: 'html' | 'js', markup: string): Response {
+  if (format === 'js') {
+    return new Response(renderAdScript(markup), {
+      headers: { 'Content-Type': 'application/javascript; charset=utf-8', 'Cache-Control': 'no-store' }
+    });
+  }
+  
+  return new Response(renderAdDocument(markup), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+}
+
+/**
+ * Record a serve request that no campaign filled
+ * @param eventType "fallback" when the zone's traffic back URL is shown, "unsold" otherwise
+ */
+async function recordUnfilledRequest(
+  env: Env,
+  request: Request,
+  zoneId: string,
+  eventType: 'fallback' | 'unsold',
+  subId?: string
+): Promise<void> {
+  await recordClick(env.DB, {
+    campaign_id: null, // Use null since 0 causes foreign key constraint errors
+    zone_id: zoneId,
+    ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+    user_agent: request.headers.get('User-Agent') ?? undefined,
+    referer: request.headers.get('Referer') ?? undefined,
+    country: request.headers.get('CF-IPCountry') ?? undefined,
+    ...getEventOrigin(request),
+    timestamp: Date.now(),
+    event_type: eventType,
+    sub_id: subId
+  });
+}
+
+/**
+ * Apply the ip, ua and country query parameters to the request used for campaign selection
+ * Only authenticated server-to-server callers may describe another client; the parameters
+ * of other requests are ignored, so visitors cannot spoof their targeting or capping attributes.
+ * Location and network details in request.cf describe the caller's server, so they are
+ * dropped when the IP or country is given; client hints are dropped when the user agent is
+ * @param request The HTTP request
+ * @param params Query parameters of the request
+ * @param env Environment for API key validation
+ * @returns The request with the end user's attributes, or an error message
+ */
+async function withExplicitClient(request: Request, params: URLSearchParams, env: Env): Promise<Request | string> {
+  const ip = params.get('ip');
+  const userAgent = params.get('ua');
+  const country = params.get('country');
+  
+  if (ip === null && userAgent === null && country === null) {
+    return request;
+  }
+  
+  if (!(await isAuthenticatedServerCaller(request, env))) {
+    return request;
+  }
+  
+  if (ip !== null && !parseIpAddress(ip)) {
+    return 'ip must be an IPv4 or IPv6 address';
+  }
+  
+  if (country !== null && !/^[A-Za-z]{2}$/.test(country)) {
+    return 'country must be an ISO 3166-1 alpha-2 code';
+  }
+  
+  const headers = new Headers(request.headers);
+  if (ip !== null) {
+    headers.set('CF-Connecting-IP', ip);
+  }
+  if (userAgent !== null) {
+    headers.set('User-Agent', userAgent);
+    CLIENT_HINT_HEADERS.forEach(header => headers.delete(header));
+  }
+  if (country !== null) {
+    headers.set('CF-IPCountry', country.toUpperCase());
+  }
+  
+  return ip !== null || country !== null
+    ? new Request(request.url, { headers })
+    : new Request(request, { headers });
+}
+
+/**
+ * Ad description returned by /serve?format=json
+ */
+interface JsonServeResult {
+  campaign_id: number | null;
+  zone_id: number;
+  click_url: string | null;
+  impression_url: string | null;
+  fallback_url: string | null;
+}
+
+/**
+ * Create an uncacheable JSON response for /serve?format=json
+ */
+function jsonServeResponse(result: JsonServeResult): Response {
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  });
+}
+
+/**
+ * Create a JSON error response for /serve?format=json, /serve?format=native and /openrtb
+ */
+function jsonServeError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  });
+}
+
+/**
+ * Attach the user cookie to a response when it needs to be set
+ */
+function withUserCookie(response: Response, setCookie: string | null): Response {
+  if (!setCookie) {
+    return response;
+  }
+  
+  const headers = new Headers(response.headers);
+  headers.append('Set-Cookie', setCookie);
+  
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+/**
+ * Handle OpenRTB 2.6 bid requests for a zone
+ * Every impression gets at most one bid, at the bid price of the campaign selected for it;
+ * the response is a 204 no-bid when no impression gets a bid
+ */
+async function handleOpenRtb(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  
+  // Handle trailing slashes by removing them
+  const path = url.pathname.endsWith('/') 
+    ? url.pathname.slice(0, -1) 
+    : url.pathname;
+  const zoneId = path.split('/')[2] ?? ''; // /openrtb/{zoneId}
+  
+  if (request.method !== 'POST') {
+    return jsonServeError('Method not allowed', 405);
+  }
+  
+  if (parseAndValidateId(zoneId, 'zone') === null) {
+    return jsonServeError('Invalid zone ID', 400);
+  }
+  
+  let bidRequest: BidRequest;
+  try {
+    const body: unknown = await request.json();
+    const validationError = validateBidRequest(body);
+    if (validationError) {
+      return jsonServeError(validationError, 400);
+    }
+    bidRequest = body as BidRequest;
+  } catch (error) {
+    return jsonServeError('Invalid JSON body', 400);
+  }
+  
+  try {
+    const zone = await fetchZone(env, zoneId);
+    if (!zone) {
+      return jsonServeError('Zone not found', 404);
+    }
+    
+    // Campaign bid prices are in USD
+    if (bidRequest.cur?.length && !bidRequest.cur.includes(BID_CURRENCY)) {
+      return openRtbNoBid();
+    }
+    
+    // Target, cap and report on the user described in the bid request instead of the exchange
+    const clientRequest = withBidRequestClient(request, bidRequest);
+    const { userKey } = await resolveUserIdentity(clientRequest);
+    const subId = url.searchParams.get('sub_id') ?? undefined;
+    
+    const bids: Bid[] = [];
+    for (const imp of bidRequest.imp) {
+      const bid = await bidOnImp(request, clientRequest, env, ctx, zoneId, imp, userKey, subId);
+      if (bid) {
+        bids.push(bid);
+      }
+    }
+    
+    if (bids.length === 0) {
+      return openRtbNoBid();
+    }
+    
+    const bidResponse: BidResponse = {
+      id: bidRequest.id,
+      seatbid: [{ bid: bids }],
+      bidid: generateSnowflakeId().toString(),
+      cur: BID_CURRENCY
+    };
+    return new Response(JSON.stringify(bidResponse), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'x-openrtb-version': OPENRTB_VERSION }
+    });
+  } catch (error) {
+    logError('Error handling bid request:');
+    logError(error instanceof Error ? error.message : String(error));
+    return jsonServeError('Server error', 500);
+  }
+}
+
+/**
+ * Select a campaign and creative for an OpenRTB impression and build the bid
+ * Banner sizes are tried in order of preference; video impressions take a video creative
+ * in one of the player's MIME types
+ * @returns The bid, or null when no campaign bids at least the impression's floor
+ */
+async function bidOnImp(
+  request: Request,
+  clientRequest: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  zoneId: string,
+  imp: BidRequestImp,
+  userKey: string,
+  subId?: string
+): Promise<Bid | null> {
+  // Floors in other currencies cannot be compared with bid prices
+  if (imp.bidfloorcur !== undefined && imp.bidfloorcur !== BID_CURRENCY) {
+    return null;
+  }
+  
+  for (const creativeSlot of getImpCreativeSlots(imp)) {
+    const campaign = await selectEligibleCampaign(clientRequest, zoneId, env, {
+      userKey,
+      ctx,
+      creativeSlot,
+      minBidPrice: imp.bidfloor ?? 0
+    });
+    const creative = campaign
+      ? pickWeighted(findCreativesForSlot(campaign.creatives ?? [], creativeSlot), candidate => candidate.weight)
+      : null;
+    if (!campaign || !creative || typeof campaign.bid_price !== 'number') {
+      continue;
+    }
+    
+    const bidId = generateSnowflakeId().toString();
+    // The win notice counts the impression of capped campaigns, so bids that lose the auction are not counted
+    if (hasCappingRules(campaign)) {
+      await saveBidUser(env.DB, bidId, userKey, getCappingWindowHours(campaign.targeting_rules));
+    }
+    
+    const isVideo = creative.type === 'video';
+    let adm: string;
+    if (isVideo) {
+      const tracking = await generateVastTracking(request, env, campaign.id, zoneId, subId, creative.id);
+      adm = renderVastInline(bidId, campaign.name, creative, tracking);
+    } else {
+      adm = renderCreativeMarkup(
+        creative,
+        await generateTrackingUrl(request, env, 'click', campaign.id, zoneId, subId, creative.id),
+        await generateTrackingUrl(request, env, 'impression', campaign.id, zoneId, subId, creative.id)
+      );
+    }
+    
+    return {
+      id: bidId,
+      impid: imp.id,
+      price: campaign.bid_price,
+      nurl: withAuctionPrice(await generateTrackingUrl(request, env, 'win', campaign.id, zoneId, subId, creative.id, { bid_id: bidId })),
+      burl: withAuctionPrice(await generateTrackingUrl(request, env, 'billing', campaign.id, zoneId, subId, creative.id, { bid_id: bidId })),
+      adm,
+      adid: String(creative.id),
+      crid: String(creative.id),
+      cid: String(campaign.id),
+      adomain: getAdvertiserDomains(campaign.redirect_url),
+      w: creative.width ?? undefined,
+      h: creative.height ?? undefined,
+      mtype: isVideo ? BID_MARKUP_TYPE_VIDEO : BID_MARKUP_TYPE_BANNER
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * Get the placements an OpenRTB impression can be filled with, in order of preference
+ */
+function getImpCreativeSlots(imp: BidRequestImp): CreativeSlot[] {
+  const slots: CreativeSlot[] = [];
+  
+  if (imp.banner) {
+    const sizes = [imp.banner, ...(Array.isArray(imp.banner.format) ? imp.banner.format : [])];
+    for (const size of sizes) {
+      if (typeof size === 'object' && size !== null && isValidCreativeSize(size.w) && isValidCreativeSize(size.h)) {
+        slots.push({ types: BANNER_CREATIVE_TYPES, width: size.w, height: size.h });
+      }
+    }
+  }
+  
+  if (imp.video) {
+    const mimes = imp.video.mimes;
+    slots.push({
+      types: VIDEO_CREATIVE_TYPES,
+      mimeTypes: Array.isArray(mimes) ? mimes.filter(mime => typeof mime === 'string') : undefined
+    });
+  }
+  
+  return slots;
+}
+
+/**
+ * Build the request that campaigns are selected for from the user described in a bid request
+ * Location and network details in request.cf describe the exchange, so they are dropped:
+ * the IP, user agent and language come from the device, the country from device.geo
+ * and the referrer from the site
+ */
+function withBidRequestClient(request: Request, bidRequest: BidRequest): Request {
+  const { device, site, user } = bidRequest;
+  const headers = new Headers();
+  
+  const ip = device?.ip ?? device?.ipv6;
+  if (ip && parseIpAddress(ip)) {
+    headers.set('CF-Connecting-IP', ip);
+  }
+  if (device?.ua) {
+    headers.set('User-Agent', device.ua);
+  }
+  if (device?.language) {
+    headers.set('Accept-Language', device.language);
+  }
+  
+  // OpenRTB countries are ISO 3166-1 alpha-3 codes
+  const country = device?.geo?.country ? toAlpha2CountryCode(device.geo.country) : null;
+  if (country) {
+    headers.set('CF-IPCountry', country);
+  }
+  
+  const referer = site?.domain ? `https://${site.domain}/` : site?.page;
+  if (referer) {
+    headers.set('Referer', referer);
+  }
+  
+  // The exchange passes back the user key this server set, once cookies are synced
+  if (user?.buyeruid) {
+    headers.set('Cookie', `${USER_COOKIE_NAME}=${user.buyeruid}`);
+  }
+  
+  return new Request(request.url, { headers });
+}
+
+/**
+ * Add the clearing price macro to a win or billing notice URL
+ * The macro is added after signing, as the exchange replaces it with the price
+ */
+function withAuctionPrice(noticeUrl: string): string {
+  return `${noticeUrl}${noticeUrl.includes('?') ? '&' : '?'}${AUCTION_PRICE_PARAM}=${AUCTION_PRICE_MACRO}`;
+}
+
+// How long the user of a bid is kept for its win notice, in milliseconds
+const BID_USER_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remember the user a bid of a capped campaign was made for, so the win notice can count the impression
+ * @param db D1 database
+ * @param bidId ID of the bid
+ * @param userKey Stable user key
+ * @param cappingHours How long to retain the impression for capping, in hours
+ */
+async function saveBidUser(db: D1Database, bidId: string, userKey: string, cappingHours: number): Promise<void> {
+  try {
+    await db.prepare(`
+      INSERT INTO bid_users (bid_id, user_key, capping_hours, created_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(bidId, userKey, cappingHours, Date.now()).run();
+  } catch (error) {
+    logError(`Error saving the user of bid ${bidId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read and remove the user a bid was made for
+ * @returns The user key and capping window, or null if the bid has none
+ */
+async function takeBidUser(db: D1Database, bidId: string): Promise<{ user_key: string; capping_hours: number } | null> {
+  try {
+    return await db.prepare(`
+      DELETE FROM bid_users
+      WHERE bid_id = ?
+      RETURNING user_key, capping_hours
+    `).bind(bidId).first<{ user_key: string; capping_hours: number } | null>();
+  } catch (error) {
+    logError(`Error reading the user of bid ${bidId}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Remove the users of bids whose win notice never arrived
+ */
+async function deleteExpiredBidUsers(db: D1Database): Promise<void> {
+  await db.prepare(`
+    DELETE FROM bid_users
+    WHERE created_at < ?
+  `).bind(Date.now() - BID_USER_RETENTION_MS).run();
+}
+
+/**
+ * Get the advertiser domain of a bid from the campaign's redirect URL
+ */
+function getAdvertiserDomains(redirectUrl: string): string[] {
+  try {
+    return [new URL(redirectUrl).hostname];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Create an OpenRTB no-bid response
+ */
+function openRtbNoBid(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: { 'Cache-Control': 'no-store', 'x-openrtb-version': OPENRTB_VERSION }
+  });
+}
+
+/**
+ * Handle tracking requests (clicks)
+ */
+async function handleTracking(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  
+  // Handle trailing slashes by removing them
+  const path = url.pathname.endsWith('/') 
+    ? url.pathname.slice(0, -1) 
+    : url.pathname;
+    
+  const parts = path.split('/');
+  const trackType = parts[2]; // /track/{type}/{id}
+  const campaignId = parts[3] ?? '';
+  const zoneId = parts[4] ?? '';
+  
+  // Extract sub_id from query parameters if present
+  const subId = url.searchParams.get('sub_id');
+  
+  // Banner and video tracking URLs name the creative that was shown
+  const creativeIdParam = url.searchParams.get('creative_id');
+  const creativeId = creativeIdParam ? parseAndValidateId(creativeIdParam, 'creative') ?? undefined : undefined;
+  
+  if (!trackType || !campaignId) {
+    return new Response('Invalid tracking URL', { status: 400 });
+  }
+  
+  try {
+    // Tracking URLs must carry a valid signature once a tracking secret is configured
+    if (env.TRACKING_SECRET) {
+      const signedUrl = new URL(url);
+      signedUrl.pathname = path;
+      if (!(await verifyTrackingUrl(signedUrl, env.TRACKING_SECRET))) {
+        return new Response('Invalid or expired tracking URL', { status: 403 });
+      }
+    }
+    
+    if (trackType === 'impression' || isVideoEventType(trackType)) {
+      // Record the impression reported by the pixel of a JSON, banner or VAST ad response,
+      // or the playback progress reported by a video player
+      await recordClick(env.DB, {
+        campaign_id: campaignId === String(NO_CAMPAIGN_ID) ? null : campaignId,
+        zone_id: zoneId,
+        ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+        user_agent: request.headers.get('User-Agent') ?? undefined,
+        referer: request.headers.get('Referer') ?? undefined,
+        country: request.headers.get('CF-IPCountry') ?? undefined,
+        ...getEventOrigin(request),
+        timestamp: Date.now(),
+        event_type: trackType,
+        sub_id: subId ?? undefined,
+        creative_id: creativeId
+      });
+      
+      return new Response(TRACKING_PIXEL, {
+        headers: { 'Content-Type': 'image/gif', 'Cache-Control': 'no-store' }
+      });
+    }
+    
+    if (isNoticeType(trackType)) {
+      const bidId = url.searchParams.get('bid_id');
+      if (!bidId) {
+        return new Response('Missing bid_id', { status: 400 });
+      }
+      
+      // Record the OpenRTB win or billing notice with its clearing price; notices are sent by
+      // the exchange, so the request does not describe the user. Replays of a notice are ignored
+      const recorded = await recordClick(env.DB, {
+        campaign_id: campaignId,
+        zone_id: zoneId,
+        timestamp: Date.now(),
+        event_type: trackType,
+        sub_id: subId ?? undefined,
+        creative_id: creativeId,
+        price: parseAuctionPrice(url.searchParams.get(AUCTION_PRICE_PARAM)),
+        bid_id: bidId
+      });
+      
+      // Count the impression of a won auction for frequency capping with the user and window of the bid
+      const campaignIdNum = parseAndValidateId(campaignId, 'campaign');
+      if (trackType === 'win' && recorded && campaignIdNum !== null) {
+        ctx.waitUntil(takeBidUser(env.DB, bidId).then(bidUser => bidUser
+          ? recordUserImpression(env, bidUser.user_key, campaignIdNum, bidUser.capping_hours)
+          : undefined
+        ));
+      }
+      
+      return new Response(null, { status: 204, headers: { 'Cache-Control': 'no-store' } });
+    }
+    
+    if (trackType === 'click') {
+      // Generate Snowflake ID for this event
+      const clickId = generateSnowflakeId().toString();
+      
+      // Detect the device once for the redirect override and the click event
+      const device = detectRequestDevice(request);
+      const context = buildTargetingContext(request, parseId(zoneId), Date.now(), device);
+      
+      // Fetch campaign redirect URL and landing pages
+      const campaign = await fetchCampaign(env, context, campaignId, ctx);
+      
+      // A redirect override for the visitor's country, device type or OS takes precedence
+      const redirectOverride = campaign ? resolveRedirectOverride(campaign.redirect_overrides, context) : null;
+      
+      // Otherwise rotate between the active landing pages by weight; without any, the redirect URL is used
+      const landingPage = campaign && !redirectOverride ? pickWeighted(campaign.landing_pages, page => page.weight) : null;
+      
+      // Clicks on unknown or inactive campaigns are not recorded
+      const destinationUrl = redirectOverride?.url ?? landingPage?.url ?? campaign?.redirect_url;
+      if (!campaign || !destinationUrl) {
+        return new Response('Invalid campaign', { status: 404 });
+      }
+      
+      // Track click in database
+      await recordClick(env.DB, {
+        campaign_id: campaignId,
+        zone_id: zoneId,
+        ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+        user_agent: request.headers.get('User-Agent') ?? undefined,
+        referer: request.headers.get('Referer') ?? undefined,
+        country: request.headers.get('CF-IPCountry') ?? undefined,
+        ...getEventOrigin(request, device),
+        timestamp: Date.now(),
+        sub_id: subId ?? undefined,
+        click_id: clickId,
+        landing_page_id: landingPage?.id,
+        creative_id: creativeId
+      });
+      
+      // Count the visit of campaigns with unique_users rules without delaying the redirect
+      if (hasUniqueUsersRules(campaign)) {
+        const { userKey } = await resolveUserIdentity(request);
+        ctx.waitUntil(recordUserClick(
+          env,
+          userKey,
+          campaign.id,
+          getVisitWindowHours(campaign.targeting_rules)
+        ));
+      }
+      
+      // Replace macros in the redirect URL
+      const redirectUrl = replaceMacros(destinationUrl, {
+        click_id: clickId,
+        click_token: env.TRACKING_SECRET ? await signClickId(clickId, env.TRACKING_SECRET) : null,
+        zone_id: zoneId,
+        aff_sub_id: subId ?? null
+      });
+      
+      // Redirect to campaign URL with macros replaced
+      return Response.redirect(redirectUrl, 302);
+    }
+    
+    return new Response('Unknown tracking type', { status: 400 });
+  } catch (error) {
+    logError('Error tracking:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response('Server error', { status: 500 });
+  }
+}
+
+/**
+ * Record a conversion reported by the advertiser's server for a click
+ * The conversion copies the campaign, zone, sub ID, landing page and creative of the click,
+ * so conversion rates can be compared per landing page; each click converts at most once.
+ * The caller proves it received the click with the token of the {click_token} macro,
+ * or authenticates with an API key
+ */
+async function handlePostback(request: Request, env: Env): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const clickId = params.get('click_id') ?? '';
+  
+  // Click IDs are Snowflake IDs, kept as text because they exceed the safe integer range
+  if (!/^\d{1,20}$/.test(clickId)) {
+    return new Response(JSON.stringify({ error: 'Invalid click_id' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  
+  const token = params.get('token');
+  const isAuthorized = token && env.TRACKING_SECRET
+    ? await verifyClickToken(clickId, token, env.TRACKING_SECRET)
+    : await isAuthenticatedServerCaller(request, env);
+  if (!isAuthorized) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  
+  try {
+    const result = await env.DB.prepare(`
+      INSERT OR IGNORE INTO ad_events (
+        id, sub_id, event_type, event_time, campaign_id, zone_id, country, region, city, postal_code, metro_code,
+        asn, language, device_type, browser, os, vendor, model, landing_page_id, creative_id, click_id
+      )
+      SELECT
+        ?, sub_id, 'conversion', ?, campaign_id, zone_id, country, region, city, postal_code, metro_code,
+        asn, language, device_type, browser, os, vendor, model, landing_page_id, creative_id, id
+      FROM ad_events
+      WHERE id = ? AND event_type = 'click'
+    `).bind(generateSnowflakeId().toString(), Date.now(), clickId).run();
+    
+    if (!result.meta?.['changes']) {
+      return new Response(JSON.stringify({ error: 'Click not found or already converted' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    return new Response(JSON.stringify({ success: true, click_id: clickId }), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    logError('Error recording conversion:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error recording conversion' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Check if a tracking type is a video playback event
+ */
+function isVideoEventType(trackType: string): trackType is VideoEventType {
+  return (VIDEO_EVENT_TYPES as readonly string[]).includes(trackType);
+}
+
+/**
+ * Check if a tracking type is an OpenRTB win or billing notice
+ */
+function isNoticeType(trackType: string): trackType is 'win' | 'billing' {
+  return trackType === 'win' || trackType === 'billing';
+}
+
+/**
+ * Parse the clearing price of a notice, undefined when the exchange sent none or an encrypted one
+ */
+function parseAuctionPrice(price: string | null): number | undefined {
+  const value = Number(price);
+  return price !== null && price !== '' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// Campaign ID in tracking URLs of ads without a campaign, such as the VAST wrapper of a traffic back URL
+const NO_CAMPAIGN_ID = 0;
+
+// Transparent 1x1 GIF returned by the impression pixel
+const TRACKING_PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), char => char.charCodeAt(0));
+
+/**
+ * Fetch zone details
+ */
+async function fetchZone(env: Env, zoneId: string): Promise<{
+  id: number;
+  traffic_back_url?: string;
+  format: string;
+  width: number | null;
+  height: number | null;
+  native_layout: string | null;
+} | null> {
+  try {
+    // Convert zoneId to number for numeric ID
+    const zoneIdNum = parseAndValidateId(zoneId, 'zone');
+    if (zoneIdNum === null) {
+      return null;
+    }
+    
+    // Type for the zone data
+    interface ZoneData {
+      id: number;
+      traffic_back_url?: string;
+      format?: string;
+      width?: number | null;
+      height?: number | null;
+      native_layout?: string | null;
+    }
+    
+    // Fetch zone from KV, cached in isolate memory
+    const zoneData = await getCachedSnapshotValue<ZoneData>(env, `zones:${zoneIdNum}`);
+    if (!zoneData) {
+      return null;
+    }
     
     // Return required zone details
     return {
       id: zoneData.id,
-      traffic_back_url: zoneData.traffic_back_url
+      traffic_back_url: zoneData.traffic_back_url,
+      format: zoneData.format ?? DEFAULT_ZONE_FORMAT,
+      width: zoneData.width ?? null,
+      height: zoneData.height ?? null,
+      native_layout: zoneData.native_layout ?? null
     };
   } catch (error) {
     logError(`Error fetching zone ${zoneId} from KV:`);
@@ -1019,43 +2313,52 @@ async function fetchZone(env: Env, zoneId: string): Promise<{ id: number; traffi
 }
 
 /**
- * Fetch campaign details by ID
+ * Fetch the details of an active campaign by ID
  */
-async function fetchCampaign(env: Env, campaignId: string | number): Promise<{ id: number; redirect_url: string } | null> {
+async function fetchCampaign(
+  env: Env,
+  context: TargetingContext,
+  campaignId: string | number,
+  ctx: ExecutionContext
+): Promise<{
+  id: number;
+  redirect_url: string;
+  targeting_rules: Array<{ targeting_rule_type_id: number; rule: string }>;
+  landing_pages: SyncedLandingPage[];
+  redirect_overrides: RedirectOverride[];
+} | null> {
   try {
     // Convert campaignId to number if it's a string
     const campaignIdNum = parseAndValidateId(campaignId, 'campaign');
-    if (campaignIdNum === null) {
+    if (campaignIdNum === null || !isValidId(context.zoneId)) {
       return null;
     }
 
-    // Fetch campaigns from KV
-    const campaignsJson = await env.campaigns_zones.get('campaigns');
-    if (!campaignsJson) {
-      return null;
-    }
-    
-    // Parse campaigns JSON
+    // Type for the campaign data
     interface CampaignData {
       id: number;
       name: string;
       redirect_url: string;
       start_date?: number;
       end_date?: number;
+      targeting_rules?: Array<{ targeting_rule_type_id: number; rule: string }>;
+      landing_pages?: SyncedLandingPage[];
+      redirect_overrides?: RedirectOverride[];
       [key: string]: unknown;
     }
     
-    const campaigns = JSON.parse(campaignsJson) as CampaignData[];
-    
-    // Find the campaign by ID
-    const campaign = campaigns.find(c => c.id === campaignIdNum);
+    // Find the campaign in the zone's index or the campaign snapshot, both cached in isolate memory
+    const campaign = await getSyncedCampaign(env, context, campaignIdNum, ctx) as CampaignData | null;
     if (!campaign) {
       return null;
     }
     
     return {
       id: campaign.id,
-      redirect_url: campaign.redirect_url
+      redirect_url: campaign.redirect_url,
+      targeting_rules: campaign.targeting_rules ?? [],
+      landing_pages: campaign.landing_pages ?? [],
+      redirect_overrides: campaign.redirect_overrides ?? []
     };
   } catch (error) {
     logError(`Error fetching campaign ${campaignId} from KV:`);
@@ -1065,25 +2368,83 @@ async function fetchCampaign(env: Env, campaignId: string | number): Promise<{ i
 }
 
 /**
- * Generate a tracking URL for click redirection
+ * Generate a click, impression, video event or notice tracking URL, signed when a tracking secret is configured
+ * @param params Further query parameters, covered by the signature
  */
-function generateTrackingUrl(request: Request, campaignId: number, zoneId: string, subId?: string): string {
+async function generateTrackingUrl(
+  request: Request,
+  env: Env,
+  trackType: 'click' | 'impression' | 'win' | 'billing' | VideoEventType,
+  campaignId: number | null,
+  zoneId: string,
+  subId?: string,
+  creativeId?: number,
+  params: Record<string, string> = {}
+): Promise<string> {
   const baseUrl = new URL(request.url);
   // Ensure no trailing slash in the pathname
-  baseUrl.pathname = `/track/click/${campaignId}/${zoneId}`;
+  baseUrl.pathname = `/track/${trackType}/${campaignId ?? NO_CAMPAIGN_ID}/${zoneId}`;
+  baseUrl.search = '';
   
   // Add sub_id as query parameter if provided
   if (subId) {
     baseUrl.searchParams.set('sub_id', subId);
-  } else {
-    baseUrl.search = '';
   }
   
-  return baseUrl.toString();
+  if (creativeId !== undefined) {
+    baseUrl.searchParams.set('creative_id', String(creativeId));
+  }
+  
+  for (const [name, value] of Object.entries(params)) {
+    baseUrl.searchParams.set(name, value);
+  }
+  
+  return env.TRACKING_SECRET ? await signTrackingUrl(baseUrl, env.TRACKING_SECRET) : baseUrl.toString();
+}
+
+/**
+ * Ask browsers to send the User-Agent Client Hints used by device detection on later requests
+ */
+function withClientHintsRequest(response: Response): Response {
+  const headers = new Headers(response.headers);
+  headers.set('Accept-CH', CLIENT_HINT_HEADERS.join(', '));
+  
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+/**
+ * Get the location, network, language and device fields of an ad event from the request
+ * @param device Device of the request, when the caller already detected it
+ */
+function getEventOrigin(request: Request, device: DeviceInfo = detectRequestDevice(request)): {
+  region?: string,
+  city?: string,
+  postal_code?: string,
+  metro_code?: string,
+  asn?: number,
+  language?: string,
+  device: DeviceInfo
+} {
+  const location = getRequestLocation(request);
+  const network = getRequestNetwork(request);
+  return {
+    region: location.region || undefined,
+    city: location.city || undefined,
+    postal_code: location.postalCode || undefined,
+    metro_code: location.metroCode || undefined,
+    asn: network.asn ?? undefined,
+    language: detectLanguages(request)[0],
+    device
+  };
 }
 
 /**
  * Record a click in the database as an ad event
+ * @returns Whether the event was written; false for replayed notices and on errors
  */
 async function recordClick(db: D1Database, clickData: {
   campaign_id: string | number | null,
@@ -1092,12 +2453,23 @@ async function recordClick(db: D1Database, clickData: {
   user_agent?: string,
   referer?: string,
   country?: string,
+  region?: string,
+  city?: string,
+  postal_code?: string,
+  metro_code?: string,
+  asn?: number,
+  language?: string,
+  device?: DeviceInfo,
   device_type?: string,
   timestamp: number,
   event_type?: string,
   sub_id?: string,
-  click_id?: string
-}): Promise<void> {
+  click_id?: string,
+  landing_page_id?: number,
+  creative_id?: number,
+  price?: number,
+  bid_id?: string
+}): Promise<boolean> {
   try {
     // Generate Snowflake ID for this event if not provided
     const snowflakeId = clickData.click_id ? clickData.click_id : generateSnowflakeId().toString();
@@ -1110,27 +2482,28 @@ async function recordClick(db: D1Database, clickData: {
     if (campaignIdNum !== null && !isValidId(campaignIdNum)) {
       logError('Invalid campaign ID format in click data:');
       logError(JSON.stringify(clickData));
-      return;
+      return false;
     }
     
     if (!isValidId(zoneIdNum)) {
       logError('Invalid zone ID format in click data:');
       logError(JSON.stringify(clickData));
-      return;
+      return false;
     }
     
-    // Extract browser and OS from user agent if available
-    let browser = null;
-    let os = null;
+    // Use the device detected from the request, or detect it from the user agent in a single parse
+    const device = clickData.device ?? detectDevice(clickData.user_agent ?? '');
     
-    if (clickData.user_agent) {
-      // Use utility functions for consistent detection
-      browser = detectBrowser(clickData.user_agent);
-      os = detectOS(clickData.user_agent);
-    }
+    // Browser, OS, vendor and model are only known when a user agent is available
+    const hasUserAgent = Boolean(clickData.user_agent);
+    const browser = hasUserAgent ? device.browser : null;
+    const os = hasUserAgent ? device.os : null;
+    const vendor = hasUserAgent && device.vendor ? device.vendor : null;
+    const model = hasUserAgent && device.model ? device.model : null;
     
-    await db.prepare(`
-      INSERT INTO ad_events (
+    // Notices carry the ID of their bid, and the unique index on it turns replays into no-ops
+    const result = await db.prepare(`
+      INSERT ${clickData.bid_id ? 'OR IGNORE ' : ''}INTO ad_events (
         id,
         sub_id,
         event_type, 
@@ -1141,11 +2514,23 @@ async function recordClick(db: D1Database, clickData: {
         user_agent, 
         referer, 
         country, 
+        region,
+        city,
+        postal_code,
+        metro_code,
+        asn,
+        language,
         device_type,
         browser,
-        os
+        os,
+        vendor,
+        model,
+        landing_page_id,
+        creative_id,
+        price,
+        bid_id
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       snowflakeId,
       clickData.sub_id ?? null,
@@ -1157,16 +2542,191 @@ async function recordClick(db: D1Database, clickData: {
       clickData.user_agent ?? null,
       clickData.referer ?? null,
       clickData.country ?? null,
-      clickData.device_type ?? null,
+      clickData.region ?? null,
+      clickData.city ?? null,
+      clickData.postal_code ?? null,
+      clickData.metro_code ?? null,
+      clickData.asn ?? null,
+      clickData.language ?? null,
+      clickData.device_type ?? device.deviceType,
       browser,
-      os
+      os,
+      vendor,
+      model,
+      clickData.landing_page_id ?? null,
+      clickData.creative_id ?? null,
+      clickData.price ?? null,
+      clickData.bid_id ?? null
     ).run();
     
     const campaignIdText = campaignIdNum ?? 'NULL';
+    if (!result.meta['changes']) {
+      logWarning(`${clickData.event_type ?? 'Click'} event of bid ${clickData.bid_id ?? ''} was already recorded`);
+      return false;
+    }
     logWarning(`${clickData.event_type ?? 'Click'} event recorded with ID ${snowflakeId} for campaign ${campaignIdText}, zone ${zoneIdNum}`);
+    return true;
   } catch (error) {
     logError('Error recording click event:');
     logError(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+/**
+ * Explain which campaign a simulated request would get and why
+ * The simulated request is built from the body and run through the real targeting matchers
+ */
+async function handleDebugSelect(request: Request, env: Env): Promise<Response> {
+  try {
+    // Parse request body
+    let body: DebugSelectRequestData;
+    
+    try {
+      body = await request.json() as DebugSelectRequestData;
+    } catch (error) {
+      return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return new Response(JSON.stringify({ error: 'Request body must be an object' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (body.zone_id === undefined || !isValidId(String(body.zone_id))) {
+      return new Response(JSON.stringify({ error: 'A valid zone_id is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    const stringFields = ['country', 'user_agent', 'ip', 'sub_id', 'referer', 'region', 'city', 'postal_code', 'metro_code', 'as_organization', 'user_key'] as const;
+    const invalidField = stringFields.find(field => body[field] !== undefined && typeof body[field] !== 'string');
+    if (invalidField) {
+      return new Response(JSON.stringify({ error: `${invalidField} must be a string` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (body.headers !== undefined && (typeof body.headers !== 'object' || body.headers === null || Array.isArray(body.headers)
+      || Object.values(body.headers).some(value => typeof value !== 'string'))) {
+      return new Response(JSON.stringify({ error: 'Headers must be an object of strings' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    // Accept the time as milliseconds or an ISO 8601 string
+    let now: number | undefined;
+    if (body.time !== undefined) {
+      now = typeof body.time === 'number' ? body.time : Date.parse(String(body.time));
+      if (!Number.isFinite(now)) {
+        return new Response(JSON.stringify({ error: 'Time must be a Unix timestamp in milliseconds or an ISO 8601 string' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
+    if (body.asn !== undefined && body.asn !== null && (!Number.isInteger(body.asn) || body.asn < 0)) {
+      return new Response(JSON.stringify({ error: 'ASN must be a non-negative integer' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (body.format !== undefined && !ZONE_FORMATS.includes(body.format)) {
+      return new Response(JSON.stringify({ error: `Format must be one of: ${ZONE_FORMATS.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    if (body.bid_floor !== undefined && (typeof body.bid_floor !== 'number' || !Number.isFinite(body.bid_floor) || body.bid_floor < 0)) {
+      return new Response(JSON.stringify({ error: 'Bid floor must be a non-negative number' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    // Build the simulated request; explicit fields win over raw headers
+    const headers = new Headers(body.headers);
+    if (body.user_agent !== undefined) {
+      headers.set('User-Agent', body.user_agent);
+    }
+    if (body.country !== undefined) {
+      headers.set('CF-IPCountry', body.country.toUpperCase());
+    }
+    if (body.ip !== undefined) {
+      headers.set('CF-Connecting-IP', body.ip);
+    }
+    if (body.referer !== undefined) {
+      headers.set('Referer', body.referer);
+    }
+    
+    const serveUrl = new URL(`/serve/${body.zone_id}`, request.url);
+    if (body.sub_id !== undefined) {
+      serveUrl.searchParams.set('sub_id', body.sub_id);
+    }
+    const simulated = new Request(serveUrl.toString(), { headers });
+    
+    // Location and network fields normally come from request.cf, which cannot be simulated
+    const context: Partial<TargetingContext> = {};
+    if (body.region !== undefined) {
+      context.region = body.region.toUpperCase();
+    }
+    if (body.city !== undefined) {
+      context.city = body.city;
+    }
+    if (body.postal_code !== undefined) {
+      context.postalCode = body.postal_code;
+    }
+    if (body.metro_code !== undefined) {
+      context.metroCode = body.metro_code;
+    }
+    if (body.asn !== undefined) {
+      context.asn = body.asn;
+    }
+    if (body.as_organization !== undefined) {
+      context.asOrganization = body.as_organization;
+    }
+    
+    // Ad formats only serve campaigns with a creative for the placement, as in the zone's serve path
+    const creativeSlot = body.format !== undefined && body.format !== 'redirect'
+      ? getFormatCreativeSlot(body.format, await fetchZone(env, String(body.zone_id)))
+      : undefined;
+    
+    const explanation = await explainCampaignSelection(simulated, String(body.zone_id), env, {
+      now,
+      userKey: body.user_key,
+      creativeSlot,
+      minBidPrice: body.bid_floor,
+      context
+    });
+    
+    if (!explanation) {
+      return new Response(JSON.stringify({ error: 'Invalid zone ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    return new Response(JSON.stringify(explanation), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logError('Error explaining campaign selection:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error explaining campaign selection' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
   }
 }
 
@@ -1423,6 +2983,11 @@ async function createZone(request: Request, env: Env): Promise<Response> {
       name: string;
       site_url?: string;
       traffic_back_url?: string;
+      timezone?: string;
+      format?: string;
+      width?: number | null;
+      height?: number | null;
+      native_layout?: string | null;
     };
     
     // Validate required fields
@@ -1456,12 +3021,33 @@ async function createZone(request: Request, env: Env): Promise<Response> {
       }
     }
     
+    if (data.timezone !== undefined && (typeof data.timezone !== 'string' || !isValidTimeZone(data.timezone))) {
+      return new Response(JSON.stringify({ error: 'Time zone must be a valid IANA time zone name' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    const formatError = validateZoneFormat(data.format ?? DEFAULT_ZONE_FORMAT, data.width ?? null, data.height ?? null) ??
+      validateNativeLayout(data.native_layout ?? null);
+    if (formatError) {
+      return new Response(JSON.stringify({ error: formatError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
     // Prepare zone object
     const now = Date.now();
     const zone = {
       name: data.name,
       site_url: data.site_url ?? null,
       traffic_back_url: data.traffic_back_url ?? null,
+      timezone: data.timezone ?? null,
+      format: data.format ?? DEFAULT_ZONE_FORMAT,
+      width: data.width ?? null,
+      height: data.height ?? null,
+      native_layout: data.native_layout ?? null,
       status: 'active',
       created_at: now,
       updated_at: now
@@ -1469,14 +3055,19 @@ async function createZone(request: Request, env: Env): Promise<Response> {
     
     // Insert zone into database
     const sql = `
-      INSERT INTO zones (name, site_url, traffic_back_url, status, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO zones (name, site_url, traffic_back_url, timezone, format, width, height, native_layout, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const result = await env.DB.prepare(sql).bind(
       zone.name,
       zone.site_url,
       zone.traffic_back_url,
+      zone.timezone,
+      zone.format,
+      zone.width,
+      zone.height,
+      zone.native_layout,
       zone.status,
       zone.created_at,
       zone.updated_at
@@ -1540,20 +3131,36 @@ async function updateZone(zoneId: string | undefined, request: Request, env: Env
     }
     
     // Check if zone exists
-    const checkSql = 'SELECT id FROM zones WHERE id = ?';
-    const checkResult = await env.DB.prepare(checkSql).bind(id).all();
+    const checkSql = 'SELECT id, format, width, height FROM zones WHERE id = ?';
+    const checkResult = await env.DB.prepare(checkSql).bind(id).all<{ id: number; format: string; width: number | null; height: number | null }>();
     
     if (checkResult.error) {
       throw new Error(`Database error: ${checkResult.error}`);
     }
     
-    if (!checkResult.results || checkResult.results.length === 0) {
+    const currentZone = checkResult.results?.[0];
+    if (!currentZone) {
       return new Response(JSON.stringify({ error: 'Zone not found' }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
       });
     }
     
+    // Banner zones need a size, so the format and size are validated together with the stored values
+    if (data.format !== undefined || data.width !== undefined || data.height !== undefined) {
+      const formatError = validateZoneFormat(
+        data.format ?? currentZone.format,
+        data.width !== undefined ? data.width : currentZone.width,
+        data.height !== undefined ? data.height : currentZone.height
+      );
+      if (formatError) {
+        return new Response(JSON.stringify({ error: formatError }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    
     // Prepare update query
     const updates: string[] = [];
     const params: (string | number | null)[] = [];
@@ -1574,6 +3181,31 @@ async function updateZone(zoneId: string | undefined, request: Request, env: Env
       params.push(data.traffic_back_url);
     }
     
+    if (data.timezone !== undefined) {
+      updates.push('timezone = ?');
+      params.push(data.timezone);
+    }
+    
+    if (data.format !== undefined) {
+      updates.push('format = ?');
+      params.push(data.format);
+    }
+    
+    if (data.width !== undefined) {
+      updates.push('width = ?');
+      params.push(data.width);
+    }
+    
+    if (data.height !== undefined) {
+      updates.push('height = ?');
+      params.push(data.height);
+    }
+    
+    if (data.native_layout !== undefined) {
+      updates.push('native_layout = ?');
+      params.push(data.native_layout);
+    }
+    
     if (data.status !== undefined) {
       updates.push('status = ?');
       params.push(data.status);
@@ -1632,6 +3264,19 @@ function validateZoneUpdateData(data: ZoneUpdateData): string | null {
     }
   }
   
+  // Check time zone if provided (null clears it)
+  if (data.timezone !== undefined && data.timezone !== null && !isValidTimeZone(data.timezone)) {
+    return 'Time zone must be a valid IANA time zone name or null';
+  }
+  
+  // Check native layout if provided (null restores the default layout)
+  if (data.native_layout !== undefined) {
+    const layoutError = validateNativeLayout(data.native_layout);
+    if (layoutError) {
+      return layoutError;
+    }
+  }
+  
   // Check status if provided
   if (data.status && !['active', 'inactive'].includes(data.status)) {
     return 'Status must be one of: active, inactive';
@@ -1712,7 +3357,13 @@ async function listAdEvents(request: Request, env: Env): Promise<Response> {
     const campaignId = params.get('campaign_id');
     const zoneId = params.get('zone_id');
     const country = params.get('country');
+    const region = params.get('region');
+    const city = params.get('city');
+    const asn = params.get('asn');
+    const language = params.get('language');
     const deviceType = params.get('device_type');
+    const landingPageId = params.get('landing_page_id');
+    const creativeId = params.get('creative_id');
     const startTime = params.get('start_time') ? parseInt(params.get('start_time') ?? '0', 10) : null;
     const endTime = params.get('end_time') ? parseInt(params.get('end_time') ?? '0', 10) : null;
     const limit = parseInt(params.get('limit') ?? '20', 10);
@@ -1736,7 +3387,7 @@ async function listAdEvents(request: Request, env: Env): Promise<Response> {
     }
     
     // Valid sort fields
-    const validSortFields = ['id', 'event_time', 'event_type', 'campaign_id', 'zone_id', 'country', 'device_type'];
+    const validSortFields = ['id', 'event_time', 'event_type', 'campaign_id', 'zone_id', 'country', 'region', 'city', 'asn', 'language', 'device_type', 'landing_page_id', 'creative_id'];
     if (!validSortFields.includes(sort)) {
       return new Response(JSON.stringify({ error: 'Invalid sort field' }), {
         status: 400,
@@ -1768,14 +3419,34 @@ async function listAdEvents(request: Request, env: Env): Promise<Response> {
       queryParams.push(campaignId);
     }
     
-    if (zoneId) {
-      whereClauses.push('zone_id = ?');
-      queryParams.push(zoneId);
+    if (zoneId) {
+      whereClauses.push('zone_id = ?');
+      queryParams.push(zoneId);
+    }
+    
+    if (country) {
+      whereClauses.push('country = ?');
+      queryParams.push(country);
+    }
+    
+    if (region) {
+      whereClauses.push('region = ?');
+      queryParams.push(region);
+    }
+    
+    if (city) {
+      whereClauses.push('city = ?');
+      queryParams.push(city);
+    }
+    
+    if (asn) {
+      whereClauses.push('asn = ?');
+      queryParams.push(asn);
     }
     
-    if (country) {
-      whereClauses.push('country = ?');
-      queryParams.push(country);
+    if (language) {
+      whereClauses.push('language = ?');
+      queryParams.push(language);
     }
     
     if (deviceType) {
@@ -1783,6 +3454,16 @@ async function listAdEvents(request: Request, env: Env): Promise<Response> {
       queryParams.push(deviceType);
     }
     
+    if (landingPageId) {
+      whereClauses.push('landing_page_id = ?');
+      queryParams.push(landingPageId);
+    }
+    
+    if (creativeId) {
+      whereClauses.push('creative_id = ?');
+      queryParams.push(creativeId);
+    }
+    
     if (startTime) {
       whereClauses.push('event_time >= ?');
       queryParams.push(startTime);
@@ -1880,10 +3561,10 @@ async function getStats(request: Request, env: Env): Promise<Response> {
     const groupByParam = params.get('group_by') ?? 'date';
     
     // Validate group_by parameter
-    const validGroupByValues = ['date', 'campaign_id', 'zone_id', 'country', 'sub_id'];
+    const validGroupByValues = ['date', 'campaign_id', 'zone_id', 'country', 'region', 'city', 'asn', 'language', 'sub_id', 'landing_page_id', 'creative_id'];
     if (!validGroupByValues.includes(groupByParam)) {
       return new Response(JSON.stringify({ 
-        error: 'Invalid group_by parameter. Valid values are: date, campaign_id, zone_id, country, sub_id' 
+        error: 'Invalid group_by parameter. Valid values are: date, campaign_id, zone_id, country, region, city, asn, language, sub_id, landing_page_id, creative_id' 
       }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
@@ -1937,10 +3618,36 @@ async function getStats(request: Request, env: Env): Promise<Response> {
         groupByClause = 'country';
         selectClause = 'country';
         break;
+      case 'region':
+        groupByClause = 'region';
+        selectClause = 'region';
+        break;
+      case 'city':
+        groupByClause = 'city';
+        selectClause = 'city';
+        break;
+      case 'asn':
+        groupByClause = 'asn';
+        selectClause = 'asn';
+        break;
+      case 'language':
+        groupByClause = 'language';
+        selectClause = 'language';
+        break;
       case 'sub_id':
         groupByClause = 'sub_id';
         selectClause = 'sub_id';
         break;
+      case 'landing_page_id':
+        // Clicks and their conversions are grouped per landing page together with their campaign
+        groupByClause = 'campaign_id, landing_page_id';
+        selectClause = 'campaign_id, landing_page_id';
+        break;
+      case 'creative_id':
+        // Banner impressions and clicks are grouped per creative together with their campaign
+        groupByClause = 'campaign_id, creative_id';
+        selectClause = 'campaign_id, creative_id';
+        break;
     }
     
     // Build the final SQL query
@@ -1950,11 +3657,17 @@ async function getStats(request: Request, env: Env): Promise<Response> {
         SUM(CASE WHEN event_type IN ('click', 'unsold', 'fallback') THEN 1 ELSE 0 END) as impressions,
         SUM(CASE WHEN event_type = 'fallback' THEN 1 ELSE 0 END) as fallbacks,
         SUM(CASE WHEN event_type = 'unsold' THEN 1 ELSE 0 END) as unsold,
-        SUM(CASE WHEN event_type = 'click' THEN 1 ELSE 0 END) as clicks
+        SUM(CASE WHEN event_type = 'click' THEN 1 ELSE 0 END) as clicks,
+        SUM(CASE WHEN event_type = 'impression' THEN 1 ELSE 0 END) as pixel_impressions,
+        SUM(CASE WHEN event_type = 'win' THEN 1 ELSE 0 END) as wins,
+        SUM(CASE WHEN event_type = 'billing' THEN price ELSE 0 END) / 1000.0 as spend,
+        SUM(CASE WHEN event_type = 'conversion' THEN 1 ELSE 0 END) as conversions,
+        CAST(SUM(CASE WHEN event_type = 'conversion' THEN 1 ELSE 0 END) AS REAL)
+          / NULLIF(SUM(CASE WHEN event_type = 'click' THEN 1 ELSE 0 END), 0) as conversion_rate
       FROM ad_events
       WHERE ${sqlWhereClauses.join(' AND ')}
       GROUP BY ${groupByClause}
-      ORDER BY ${groupByParam === 'campaign_id' || groupByParam === 'zone_id' ? groupByParam : 2} DESC
+      ORDER BY ${groupByParam === 'campaign_id' || groupByParam === 'zone_id' ? groupByParam : 'impressions'} DESC
     `;
 
     // Execute query
@@ -2170,6 +3883,12 @@ async function syncCampaignTargetingRules(campaignId: string | undefined, reques
           status: 400, headers: { 'Content-Type': 'application/json' }
         });
       }
+      const ruleError = validateTargetingRule(rule.targeting_rule_type_id, rule.rule);
+      if (ruleError) {
+        return new Response(JSON.stringify({ error: `Invalid targeting rule: ${ruleError}`, rule }), {
+          status: 400, headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
 
       if (rule.id !== undefined && rule.id !== null) {
@@ -2265,7 +3984,418 @@ async function syncCampaignTargetingRules(campaignId: string | undefined, reques
       headers: { 'Content-Type': 'application/json' }
     });
   }
-} 
+}
+
+/**
+ * Convert a landing page row to its API representation
+ */
+function toLandingPage(row: DbLandingPage): LandingPage {
+  return {
+    ...row,
+    active: row.active === 1
+  };
+}
+
+/**
+ * List landing pages for a specific campaign
+ */
+async function listCampaignLandingPages(campaignId: string | undefined, env: Env): Promise<Response> {
+  try {
+    // Validate ID
+    if (campaignId === undefined) {
+      return new Response(JSON.stringify({ error: 'Campaign ID is required in the path' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const id = parseAndValidateId(campaignId, 'campaign');
+    if (id === null) {
+      return new Response(JSON.stringify({ error: 'Invalid campaign ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Query landing pages for this campaign
+    const pagesResult = await env.DB.prepare(`
+      SELECT * FROM landing_pages WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbLandingPage>();
+
+    if (pagesResult.error) {
+      throw new Error(`Database error fetching landing pages: ${pagesResult.error}`);
+    }
+
+    return new Response(JSON.stringify({ landing_pages: (pagesResult.results ?? []).map(toLandingPage) }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logError('Error listing campaign landing pages:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error listing landing pages' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Synchronize landing pages for a specific campaign (create, update, delete)
+ * Pages with an id are updated, pages without one are created and pages left out are deleted.
+ * A campaign without active landing pages sends clicks to its redirect URL.
+ */
+async function syncCampaignLandingPages(campaignId: string | undefined, request: Request, env: Env): Promise<Response> {
+  try {
+    // Validate Campaign ID
+    if (campaignId === undefined) {
+      return new Response(JSON.stringify({ error: 'Campaign ID is required in the path' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const id = parseAndValidateId(campaignId, 'campaign');
+    if (id === null) {
+      return new Response(JSON.stringify({ error: 'Invalid campaign ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check if campaign exists
+    const campaignExists = await env.DB.prepare(`SELECT id FROM campaigns WHERE id = ?`).bind(id).first('id');
+    if (!campaignExists) {
+      return new Response(JSON.stringify({ error: 'Campaign not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse request body - expected to be an array of landing page objects
+    let incomingPages: LandingPageData[];
+    try {
+      incomingPages = await request.json() as LandingPageData[];
+    } catch (e) {
+      return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validationError = validateLandingPages(incomingPages);
+    if (validationError) {
+      return new Response(JSON.stringify({ error: validationError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Fetch current landing pages from DB
+    const currentPagesResult = await env.DB.prepare(`
+      SELECT * FROM landing_pages WHERE campaign_id = ?
+    `).bind(id).all<DbLandingPage>();
+
+    if (currentPagesResult.error) {
+      throw new Error(`Database error fetching current landing pages: ${currentPagesResult.error}`);
+    }
+    const currentPages = currentPagesResult.results ?? [];
+    const currentPageMap = new Map(currentPages.map(page => [page.id, page]));
+
+    // Prepare the batched statements
+    const statements: D1PreparedStatement[] = [];
+    const incomingPageIds = new Set<number>();
+    const now = Date.now();
+
+    for (const page of incomingPages) {
+      const name = page.name ?? null;
+      const weight = page.weight ?? DEFAULT_LANDING_PAGE_WEIGHT;
+      const active = page.active === false ? 0 : 1;
+
+      if (page.id !== undefined && page.id !== null) {
+        const currentPage = currentPageMap.get(page.id);
+        if (!currentPage) {
+          return new Response(JSON.stringify({ error: `Landing page with ID ${page.id} not found for campaign ${id}` }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        incomingPageIds.add(page.id);
+
+        if (currentPage.name !== name || currentPage.url !== page.url || currentPage.weight !== weight || currentPage.active !== active) {
+          statements.push(env.DB.prepare(`
+            UPDATE landing_pages
+            SET name = ?, url = ?, weight = ?, active = ?, updated_at = ?
+            WHERE id = ? AND campaign_id = ?
+          `).bind(name, page.url, weight, active, now, page.id, id));
+        }
+      } else {
+        statements.push(env.DB.prepare(`
+          INSERT INTO landing_pages (campaign_id, name, url, weight, active, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).bind(id, name, page.url, weight, active, now, now));
+      }
+    }
+
+    for (const currentPage of currentPages) {
+      if (!incomingPageIds.has(currentPage.id)) {
+        statements.push(env.DB.prepare(`
+          DELETE FROM landing_pages WHERE id = ? AND campaign_id = ?
+        `).bind(currentPage.id, id));
+      }
+    }
+
+    // Apply all changes in one batch and touch the campaign
+    if (statements.length > 0) {
+      statements.push(env.DB.prepare(`UPDATE campaigns SET updated_at = ? WHERE id = ?`).bind(now, id));
+      const batchResult = await env.DB.batch(statements);
+      for (const result of batchResult) {
+        if (result.error) {
+          throw new Error(`Batch transaction error: ${result.error}`);
+        }
+      }
+      logMessage(`Synchronized ${statements.length - 1} landing page operations for campaign ${id}`);
+    }
+
+    // Return the final state of the landing pages
+    const finalPagesResult = await env.DB.prepare(`
+      SELECT * FROM landing_pages WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbLandingPage>();
+
+    if (finalPagesResult.error) {
+      throw new Error(`Database error fetching landing pages: ${finalPagesResult.error}`);
+    }
+
+    return new Response(JSON.stringify({ landing_pages: (finalPagesResult.results ?? []).map(toLandingPage) }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logError('Error syncing campaign landing pages:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error syncing landing pages' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Convert a creative row to its API representation
+ */
+function toCreative(row: DbCreative): Creative {
+  return {
+    ...row,
+    active: row.active === 1
+  };
+}
+
+/**
+ * List creatives for a specific campaign
+ */
+async function listCampaignCreatives(campaignId: string | undefined, env: Env): Promise<Response> {
+  try {
+    // Validate ID
+    if (campaignId === undefined) {
+      return new Response(JSON.stringify({ error: 'Campaign ID is required in the path' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const id = parseAndValidateId(campaignId, 'campaign');
+    if (id === null) {
+      return new Response(JSON.stringify({ error: 'Invalid campaign ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Query creatives for this campaign
+    const creativesResult = await env.DB.prepare(`
+      SELECT * FROM creatives WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbCreative>();
+
+    if (creativesResult.error) {
+      throw new Error(`Database error fetching creatives: ${creativesResult.error}`);
+    }
+
+    return new Response(JSON.stringify({ creatives: (creativesResult.results ?? []).map(toCreative) }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logError('Error listing campaign creatives:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error listing creatives' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Synchronize creatives for a specific campaign (create, update, delete)
+ * Creatives with an id are updated, creatives without one are created and creatives left out are deleted.
+ * A campaign without an active creative that fits a banner, video or native zone is not served in that zone.
+ */
+async function syncCampaignCreatives(campaignId: string | undefined, request: Request, env: Env): Promise<Response> {
+  try {
+    // Validate Campaign ID
+    if (campaignId === undefined) {
+      return new Response(JSON.stringify({ error: 'Campaign ID is required in the path' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const id = parseAndValidateId(campaignId, 'campaign');
+    if (id === null) {
+      return new Response(JSON.stringify({ error: 'Invalid campaign ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check if campaign exists
+    const campaignExists = await env.DB.prepare(`SELECT id FROM campaigns WHERE id = ?`).bind(id).first('id');
+    if (!campaignExists) {
+      return new Response(JSON.stringify({ error: 'Campaign not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Parse request body - expected to be an array of creative objects
+    let incomingCreatives: CreativeData[];
+    try {
+      incomingCreatives = await request.json() as CreativeData[];
+    } catch (e) {
+      return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const validationError = validateCreatives(incomingCreatives);
+    if (validationError) {
+      return new Response(JSON.stringify({ error: validationError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Fetch current creatives from DB
+    const currentCreativesResult = await env.DB.prepare(`
+      SELECT * FROM creatives WHERE campaign_id = ?
+    `).bind(id).all<DbCreative>();
+
+    if (currentCreativesResult.error) {
+      throw new Error(`Database error fetching current creatives: ${currentCreativesResult.error}`);
+    }
+    const currentCreatives = currentCreativesResult.results ?? [];
+    const currentCreativeMap = new Map(currentCreatives.map(creative => [creative.id, creative]));
+
+    // Prepare the batched statements
+    const statements: D1PreparedStatement[] = [];
+    const incomingCreativeIds = new Set<number>();
+    const now = Date.now();
+
+    for (const creative of incomingCreatives) {
+      const name = creative.name ?? null;
+      // Only the content of the creative's type is kept
+      const isNative = creative.type === 'native';
+      const imageUrl = creative.type === 'image' || isNative ? creative.image_url ?? null : null;
+      const html = creative.type === 'html' ? creative.html ?? null : null;
+      const isVideo = creative.type === 'video';
+      const mediaUrl = isVideo ? creative.media_url ?? null : null;
+      const mimeType = isVideo ? creative.mime_type ?? null : null;
+      const duration = isVideo ? creative.duration ?? null : null;
+      const title = isNative ? creative.title ?? null : null;
+      const body = isNative ? creative.body ?? null : null;
+      const cta = isNative ? creative.cta ?? null : null;
+      const iconUrl = isNative ? creative.icon_url ?? null : null;
+      const sponsor = isNative ? creative.sponsor ?? null : null;
+      const width = creative.width ?? null;
+      const height = creative.height ?? null;
+      const weight = creative.weight ?? DEFAULT_CREATIVE_WEIGHT;
+      const active = creative.active === false ? 0 : 1;
+
+      if (creative.id !== undefined && creative.id !== null) {
+        const currentCreative = currentCreativeMap.get(creative.id);
+        if (!currentCreative) {
+          return new Response(JSON.stringify({ error: `Creative with ID ${creative.id} not found for campaign ${id}` }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        incomingCreativeIds.add(creative.id);
+
+        if (currentCreative.name !== name || currentCreative.type !== creative.type ||
+            currentCreative.width !== width || currentCreative.height !== height ||
+            currentCreative.image_url !== imageUrl || currentCreative.html !== html ||
+            currentCreative.media_url !== mediaUrl || currentCreative.mime_type !== mimeType || currentCreative.duration !== duration ||
+            currentCreative.title !== title || currentCreative.body !== body || currentCreative.cta !== cta ||
+            currentCreative.icon_url !== iconUrl || currentCreative.sponsor !== sponsor ||
+            currentCreative.weight !== weight || currentCreative.active !== active) {
+          statements.push(env.DB.prepare(`
+            UPDATE creatives
+            SET name = ?, type = ?, width = ?, height = ?, image_url = ?, html = ?, media_url = ?, mime_type = ?, duration = ?,
+              title = ?, body = ?, cta = ?, icon_url = ?, sponsor = ?, weight = ?, active = ?, updated_at = ?
+            WHERE id = ? AND campaign_id = ?
+          `).bind(
+            name, creative.type, width, height, imageUrl, html, mediaUrl, mimeType, duration,
+            title, body, cta, iconUrl, sponsor, weight, active, now, creative.id, id
+          ));
+        }
+      } else {
+        statements.push(env.DB.prepare(`
+          INSERT INTO creatives (
+            campaign_id, name, type, width, height, image_url, html, media_url, mime_type, duration,
+            title, body, cta, icon_url, sponsor, weight, active, created_at, updated_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          id, name, creative.type, width, height, imageUrl, html, mediaUrl, mimeType, duration,
+          title, body, cta, iconUrl, sponsor, weight, active, now, now
+        ));
+      }
+    }
+
+    for (const currentCreative of currentCreatives) {
+      if (!incomingCreativeIds.has(currentCreative.id)) {
+        statements.push(env.DB.prepare(`
+          DELETE FROM creatives WHERE id = ? AND campaign_id = ?
+        `).bind(currentCreative.id, id));
+      }
+    }
+
+    // Apply all changes in one batch and touch the campaign
+    if (statements.length > 0) {
+      statements.push(env.DB.prepare(`UPDATE campaigns SET updated_at = ? WHERE id = ?`).bind(now, id));
+      const batchResult = await env.DB.batch(statements);
+      for (const result of batchResult) {
+        if (result.error) {
+          throw new Error(`Batch transaction error: ${result.error}`);
+        }
+      }
+      logMessage(`Synchronized ${statements.length - 1} creative operations for campaign ${id}`);
+    }
+
+    // Return the final state of the creatives
+    const finalCreativesResult = await env.DB.prepare(`
+      SELECT * FROM creatives WHERE campaign_id = ? ORDER BY id ASC
+    `).bind(id).all<DbCreative>();
+
+    if (finalCreativesResult.error) {
+      throw new Error(`Database error fetching creatives: ${finalCreativesResult.error}`);
+    }
+
+    return new Response(JSON.stringify({ creatives: (finalCreativesResult.results ?? []).map(toCreative) }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logError('Error syncing campaign creatives:');
+    logError(error instanceof Error ? error.message : String(error));
+    return new Response(JSON.stringify({ error: 'Server error syncing creatives' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
 
 /**
  * List all API keys